@@ -0,0 +1,189 @@
+// Local key server: holds the API keys and forwards Gemini, VEO and Replicate
+// calls so the browser never sees them. No dependencies beyond Node 18+.
+//
+//   GEMINI_API_KEY=... REPLICATE_API_TOKEN=... npm run server
+//
+// Then set the key server URL in the app (or build with VITE_PROXY_URL).
+
+import { createServer } from 'node:http';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+// Comma-separated origins allowed to call the server; the Vite dev and preview servers by default
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:5173,http://localhost:4173')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+// Names the server answers to; others are refused so a web page cannot reach it through DNS rebinding
+const ALLOWED_HOSTS = ['localhost', '127.0.0.1', '[::1]', HOST.includes(':') ? `[${HOST}]` : HOST];
+
+const UPSTREAMS = {
+  gemini: {
+    origin: 'https://generativelanguage.googleapis.com',
+    key: process.env.GEMINI_API_KEY || process.env.VEO_API_KEY || '',
+    authorize: (headers, key) => headers.set('x-goog-api-key', key),
+    // Only the calls the app makes are forwarded with the server's key
+    routes: [
+      ['GET', /^\/v1beta\/models\/[\w.-]+$/],
+      ['POST', /^\/v1beta\/models\/[\w.-]+:(generateContent|streamGenerateContent|countTokens|predictLongRunning)$/],
+      ['GET', /^\/v1beta\/models\/[\w.-]+\/operations\/[\w-]+$/],
+      ['GET', /^\/v1beta\/files\/[\w-]+:download$/],
+    ],
+  },
+  replicate: {
+    origin: 'https://api.replicate.com',
+    key: process.env.REPLICATE_API_TOKEN || '',
+    authorize: (headers, key) => headers.set('authorization', `Bearer ${key}`),
+    routes: [
+      ['GET', /^\/v1\/models\/[\w.-]+\/[\w.-]+$/],
+      ['POST', /^\/v1\/models\/[\w.-]+\/[\w.-]+\/predictions$/],
+      ['GET', /^\/v1\/predictions\/\w+$/],
+      ['POST', /^\/v1\/predictions\/\w+\/cancel$/],
+    ],
+  },
+};
+
+// Request headers worth forwarding; credentials from the browser are never passed on
+const FORWARDED_REQUEST_HEADERS = ['content-type', 'accept', 'prefer', 'range'];
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'retry-after',
+  'cache-control',
+];
+
+function isAllowedOrigin(origin) {
+  return ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin);
+}
+
+function isAllowedHost(host) {
+  if (!host) return false;
+  try {
+    return ALLOWED_HOSTS.includes(new URL(`http://${host}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+function isAllowedRoute(upstream, method, path) {
+  return upstream.routes.some(([allowedMethod, pattern]) => allowedMethod === method && pattern.test(path));
+}
+
+function corsHeaders(req) {
+  const origin = req.headers.origin;
+  if (!origin || !isAllowedOrigin(origin)) return {};
+  return {
+    'access-control-allow-origin': origin,
+    'access-control-allow-methods': 'GET, POST, OPTIONS',
+    'access-control-allow-headers': 'content-type, accept, prefer, range, x-goog-api-client, x-goog-api-key',
+    'access-control-expose-headers': 'retry-after, content-range',
+    vary: 'origin',
+  };
+}
+
+function sendJson(res, status, body, extraHeaders = {}) {
+  res.writeHead(status, { 'content-type': 'application/json', ...extraHeaders });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return chunks.length > 0 ? Buffer.concat(chunks) : undefined;
+}
+
+async function forward(req, res, upstream, path, cors) {
+  if (!upstream.key) {
+    sendJson(res, 401, { error: { code: 401, message: 'The key server has no key for this provider', status: 'UNAUTHENTICATED' } }, cors);
+    return;
+  }
+
+  const target = new URL(path, upstream.origin);
+  // Keys sent by older clients in the query string are dropped
+  target.searchParams.delete('key');
+
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers.set(name, value);
+  }
+  upstream.authorize(headers, upstream.key);
+
+  const controller = new AbortController();
+  // Stop the upstream call (and its billing) when the browser goes away
+  res.on('close', () => controller.abort());
+
+  const upstreamRes = await fetch(target, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req),
+    redirect: 'follow',
+    signal: controller.signal,
+  });
+
+  const responseHeaders = { ...cors };
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstreamRes.headers.get(name);
+    if (value) responseHeaders[name] = value;
+  }
+  res.writeHead(upstreamRes.status, responseHeaders);
+
+  // Stream bodies through so long responses (SSE, video downloads) are not buffered
+  if (upstreamRes.body) {
+    await pipeline(Readable.fromWeb(upstreamRes.body), res);
+  } else {
+    res.end();
+  }
+}
+
+const server = createServer(async (req, res) => {
+  // Checked before anything else: browsers send the request even when CORS later hides the response
+  if (!isAllowedHost(req.headers.host) || (req.headers.origin && !isAllowedOrigin(req.headers.origin))) {
+    sendJson(res, 403, { error: { code: 403, message: 'This origin may not use the key server', status: 'PERMISSION_DENIED' } });
+    return;
+  }
+
+  const cors = corsHeaders(req);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname === '/health') {
+    sendJson(res, 200, { gemini: !!UPSTREAMS.gemini.key, replicate: !!UPSTREAMS.replicate.key }, cors);
+    return;
+  }
+
+  const match = url.pathname.match(/^\/(gemini|replicate)(\/.*)$/);
+  if (!match || !isAllowedRoute(UPSTREAMS[match[1]], req.method, match[2])) {
+    sendJson(res, 404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }, cors);
+    return;
+  }
+
+  try {
+    await forward(req, res, UPSTREAMS[match[1]], match[2] + url.search, cors);
+  } catch (error) {
+    if (res.destroyed) return;
+    console.error(`[proxy] ${req.method} ${url.pathname} failed:`, error);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      sendJson(res, 502, { error: { code: 502, message: 'The key server could not reach the provider', status: 'UNAVAILABLE' } }, cors);
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  const configured = Object.entries(UPSTREAMS)
+    .filter(([, upstream]) => upstream.key)
+    .map(([name]) => name);
+  console.log(`[proxy] Listening on http://${HOST}:${PORT} (keys: ${configured.join(', ') || 'none'})`);
+  console.log(`[proxy] Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+});
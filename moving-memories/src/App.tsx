@@ -1,22 +1,57 @@
 import { useEffect, useState } from 'react';
+import { MotionConfig } from 'framer-motion';
 import { useMemoryStore } from './store/memoryStore';
+import { useProviderStore, MOCK_MODE_FORCED } from './store/providerStore';
+import { useBatchStore } from './store/batchStore';
+import { useSettingsStore } from './store/settingsStore';
+import { useUiStore } from './store/uiStore';
+import { useProxyStore } from './store/proxyStore';
+import { useVaultStore } from './store/vaultStore';
+import { watchIdle } from './utils/vault';
+import { applyAppearance } from './utils/appearance';
 import { geminiService } from './services/geminiService';
 import { ApiKeyModal } from './components/ApiKeyModal';
+import { VaultUnlockModal } from './components/VaultUnlockModal';
 import { UploadComponent } from './components/UploadComponent';
+import { FrameComponent } from './components/FrameComponent';
 import { EnhanceComponent } from './components/EnhanceComponent';
+import { PromptComponent } from './components/PromptComponent';
 import { GenerateComponent } from './components/GenerateComponent';
 import { CompleteComponent } from './components/CompleteComponent';
+import { ResumeVideoBanner } from './components/ResumeVideoBanner';
+import { GalleryComponent } from './components/GalleryComponent';
+import { BatchComponent } from './components/BatchComponent';
+import { UsageDashboard } from './components/UsageDashboard';
 import './utils/setApiKey'; // Auto-configure API key
 import { Background } from './components/Background';
 import { HighlightLine } from './components/HighlightLine';
  
 
 function App() {
-  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
+  // Gallery and usage replace the workflow view while open
+  const [panel, setPanel] = useState<'gallery' | 'usage' | null>(null);
 
   const { currentStep, apiKey, error } = useMemoryStore();
-  const displayStep = currentStep === 'prompt' ? 'generate' : currentStep;
+  const { settingsOpen, settingsAdvanced, openSettings, closeSettings } = useUiStore();
+  const mockMode = useProviderStore((state) => state.mockMode) || MOCK_MODE_FORCED;
+  const hasBatch = useBatchStore((state) => state.jobs.length > 0);
+  const reviewPrompt = useSettingsStore((state) => state.reviewPrompt);
+  const framePhotos = useSettingsStore((state) => state.framePhotos);
+  const theme = useSettingsStore((state) => state.theme);
+  const animationsEnabled = useSettingsStore((state) => state.animationsEnabled);
+  const proxyUrl = useProxyStore((state) => state.url);
+  const hasVault = useVaultStore((state) => !!state.record);
+  const vaultUnlocked = useVaultStore((state) => !!state.secrets);
+  const idleMinutes = useVaultStore((state) => state.idleMinutes);
+  // Without prompt review the prompt is written inside the Generate step,
+  // without framing the photo goes straight to Enhance
+  const displayStep =
+    currentStep === 'prompt' && !reviewPrompt
+      ? 'generate'
+      : currentStep === 'frame' && !framePhotos
+        ? 'enhance'
+        : currentStep;
 
   useEffect(() => {
     // Initialize with user-provided API key
@@ -30,18 +65,41 @@ function App() {
     }
   }, [isInitialized, apiKey]);
 
-  const requiresApiKey = !apiKey || apiKey.trim() === ''; // Require API key from user
+  // Theme and reduced motion are applied to the whole document
+  useEffect(() => applyAppearance(theme, animationsEnabled), [theme, animationsEnabled]);
 
+  // Ask which keys the key server holds whenever its URL changes
   useEffect(() => {
-    if (requiresApiKey) setShowApiKeyModal(true);
-  }, [requiresApiKey]);
+    useProxyStore.getState().check();
+  }, [proxyUrl]);
+
+  // Forget the decrypted keys after a while without activity
+  useEffect(() => {
+    if (!vaultUnlocked || idleMinutes === 0) return;
+    return watchIdle(idleMinutes * 60000, () => useVaultStore.getState().lock());
+  }, [vaultUnlocked, idleMinutes]);
+
+  // Require an API key from the user, unless a key server or the vault holds it
+  const requiresApiKey = !mockMode && !proxyUrl && !hasVault && (!apiKey || apiKey.trim() === '');
+  const requiresUnlock = !mockMode && !proxyUrl && hasVault && !vaultUnlocked;
+
+  useEffect(() => {
+    if (requiresApiKey) openSettings();
+  }, [requiresApiKey, openSettings]);
 
   const renderCurrentStep = () => {
+    // A batch replaces the guided flow until it is cleared
+    if (hasBatch) return <BatchComponent />;
+
     switch (displayStep) {
       case 'upload':
         return <UploadComponent />;
+      case 'frame':
+        return <FrameComponent />;
       case 'enhance':
         return <EnhanceComponent />;
+      case 'prompt':
+        return <PromptComponent />;
       case 'generate':
         return <GenerateComponent />;
       case 'complete':
@@ -52,76 +110,116 @@ function App() {
   };
 
   return (
-    <Background>
-      {/* Header */}
-      <header className="border-b border-orange-100 bg-white/80 backdrop-blur-sm">
-        <div className="mx-auto max-w-4xl px-4 py-4 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-orange-400 to-amber-500 flex items-center justify-center">
-                <span className="text-white text-lg">❤️</span>
+    <MotionConfig reducedMotion={animationsEnabled ? 'user' : 'always'}>
+      <Background>
+        {/* Header */}
+        <header className="border-b border-orange-100 bg-white/80 backdrop-blur-sm">
+          <div className="mx-auto max-w-4xl px-4 py-4 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="h-8 w-8 rounded-lg bg-gradient-to-br from-orange-400 to-amber-500 flex items-center justify-center">
+                  <span className="text-white text-lg">❤️</span>
+                </div>
+                <h1 className="text-xl font-semibold text-gray-900">Moving Memories</h1>
+                {mockMode && (
+                  <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                    Mock mode
+                  </span>
+                )}
+                <p className="hidden sm:block text-sm text-gray-500 ml-2">
+                  <HighlightLine>Transform photos into living memories</HighlightLine>
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPanel(panel === 'gallery' ? null : 'gallery')}
+                  className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {panel === 'gallery' ? 'Create' : 'Gallery'}
+                </button>
+                <button
+                  onClick={() => setPanel(panel === 'usage' ? null : 'usage')}
+                  className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {panel === 'usage' ? 'Create' : 'Usage'}
+                </button>
+                <button
+                  onClick={() => openSettings()}
+                  className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  {apiKey || proxyUrl || hasVault ? 'Update Key' : 'Setup'}
+                </button>
               </div>
-              <h1 className="text-xl font-semibold text-gray-900">Moving Memories</h1>
-              <p className="hidden sm:block text-sm text-gray-500 ml-2">
-                <HighlightLine>Transform photos into living memories</HighlightLine>
-              </p>
             </div>
-            <button
-              onClick={() => setShowApiKeyModal(true)}
-              className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-            >
-              {apiKey ? 'Update Key' : 'Setup'}
-            </button>
           </div>
-        </div>
-      </header>
-
-      {/* Progress Steps (Prompt removed, treat prompt as generate) */}
-      <div className="border-b border-orange-100 bg-white/60">
-        <div className="mx-auto max-w-4xl px-4 py-3 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-between text-xs">
-            <div className={`flex-1 text-center ${displayStep === 'upload' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
-              Upload
-            </div>
-            <div className={`flex-1 text-center ${displayStep === 'enhance' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
-              Enhance
-            </div>
-            <div className={`flex-1 text-center ${displayStep === 'generate' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
-              Generate
-            </div>
-            <div className={`flex-1 text-center ${displayStep === 'complete' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
-              Done
+        </header>
+
+        {/* Progress Steps (Frame and Review only shown when turned on) */}
+        <div className="border-b border-orange-100 bg-white/60">
+          <div className="mx-auto max-w-4xl px-4 py-3 sm:px-6 lg:px-8">
+            <div className="flex items-center justify-between text-xs">
+              <div className={`flex-1 text-center ${displayStep === 'upload' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                Upload
+              </div>
+              {framePhotos && (
+                <div className={`flex-1 text-center ${displayStep === 'frame' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                  Frame
+                </div>
+              )}
+              <div className={`flex-1 text-center ${displayStep === 'enhance' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                Enhance
+              </div>
+              {reviewPrompt && (
+                <div className={`flex-1 text-center ${displayStep === 'prompt' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                  Review
+                </div>
+              )}
+              <div className={`flex-1 text-center ${displayStep === 'generate' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                Generate
+              </div>
+              <div className={`flex-1 text-center ${displayStep === 'complete' ? 'text-orange-600 font-semibold' : 'text-gray-400'}`}>
+                Done
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Main Content */}
-      <main className="mx-auto max-w-4xl px-4 py-12 sm:px-6 lg:px-8">
-        {renderCurrentStep()}
-        
-        {error && (
-          <div className="mt-6 rounded-lg border border-red-200 bg-red-50 p-4">
-            <p className="text-sm text-red-800">{error}</p>
+        {/* Main Content */}
+        <main className="mx-auto max-w-4xl px-4 py-12 sm:px-6 lg:px-8">
+          {panel === 'gallery' && <GalleryComponent onClose={() => setPanel(null)} />}
+          {panel === 'usage' && <UsageDashboard onClose={() => setPanel(null)} />}
+
+          {/* Kept mounted while browsing the gallery so running jobs continue */}
+          <div hidden={panel !== null}>
+            {!hasBatch && <ResumeVideoBanner />}
+            {renderCurrentStep()}
           </div>
-        )}
-      </main>
-
-      {/* Footer */}
-      <footer className="mt-auto py-8 text-center">
-        <p className="text-sm text-gray-500">
-          Made with <span className="text-red-500">❤️</span> using{' '}
-          <span className="font-medium">Gemini AI</span>
-        </p>
-      </footer>
-
-      {/* Modal */}
-      <ApiKeyModal
-        isOpen={showApiKeyModal}
-        onClose={() => !requiresApiKey && setShowApiKeyModal(false)}
-        required={requiresApiKey}
-      />
-    </Background>
+        
+          {error && (
+            <div className="mt-6 rounded-lg border border-red-200 bg-red-50 p-4">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+        </main>
+
+        {/* Footer */}
+        <footer className="mt-auto py-8 text-center">
+          <p className="text-sm text-gray-500">
+            Made with <span className="text-red-500">❤️</span> using{' '}
+            <span className="font-medium">Gemini AI</span>
+          </p>
+        </footer>
+
+        {/* Modal */}
+        <ApiKeyModal
+          isOpen={settingsOpen}
+          onClose={() => !requiresApiKey && closeSettings()}
+          required={requiresApiKey}
+          showAdvanced={settingsAdvanced}
+        />
+        <VaultUnlockModal isOpen={requiresUnlock && !settingsOpen} />
+      </Background>
+    </MotionConfig>
   );
 }
 
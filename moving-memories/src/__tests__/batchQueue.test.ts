@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useBatchStore } from '../store/batchStore';
+import { useProviderStore } from '../store/providerStore';
+import { providerRegistry } from '../services/providers';
+import type { VideoProvider } from '../services/providers';
+import { batchQueue } from '../services/batchQueue';
+import { EMPTY_METADATA } from '../utils/exif';
+import { mockConfig, mockEnhanceProvider, mockVideoProvider, MOCK_MOTION_PROMPT } from '../services/providers/mockProviders';
+
+// 1x1 transparent PNG
+const PHOTO_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// jsdom has no canvas to resize photos with
+vi.mock('../utils/imageProcessing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/imageProcessing')>()),
+  processImageForGemini: async (file: File) => ({
+    processedFile: file,
+    dataUrl: PHOTO_DATA_URL,
+    base64: '',
+    metadata: EMPTY_METADATA,
+    renditions: { analysis: PHOTO_DATA_URL, enhance: PHOTO_DATA_URL, video: PHOTO_DATA_URL },
+  }),
+}));
+
+const makePhotos = (count: number) =>
+  Array.from({ length: count }, (_, i) => new File([new Uint8Array(64)], `photo-${i}.png`, { type: 'image/png' }));
+
+const jobs = () => useBatchStore.getState().jobs;
+const settled = () =>
+  vi.waitFor(() => expect(jobs().every((job) => ['done', 'failed', 'cancelled'].includes(job.status))).toBe(true));
+
+describe('batch queue against mock providers', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+    batchQueue.clear();
+    batchQueue.setConcurrency(2);
+  });
+
+  it('processes every photo without running more than the concurrency limit', async () => {
+    mockConfig.latencyMs = 20;
+    let running = 0;
+    let peak = 0;
+    const counting: VideoProvider = {
+      ...mockVideoProvider,
+      async generateVideo(input) {
+        peak = Math.max(peak, ++running);
+        try {
+          return await mockVideoProvider.generateVideo(input);
+        } finally {
+          running--;
+        }
+      },
+    };
+    providerRegistry.register(counting);
+
+    try {
+      batchQueue.addFiles(makePhotos(5));
+      await settled();
+
+      expect(peak).toBe(2);
+      expect(jobs().map((job) => job.status)).toEqual(Array(5).fill('done'));
+      for (const job of jobs()) {
+        expect(job.videoUrl).toMatch(/^data:video\/mp4;base64,/);
+        expect(job.motionPrompt).toBe(MOCK_MOTION_PROMPT);
+        expect(job.providersUsed).toEqual({ enhance: 'mock-enhance', prompt: 'mock-prompt', video: 'mock-video' });
+      }
+    } finally {
+      providerRegistry.register(mockVideoProvider);
+    }
+  });
+
+  it('marks unsupported files as failed without retrying them', async () => {
+    const text = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+    batchQueue.addFiles([text, ...makePhotos(1)]);
+    await settled();
+
+    const [skipped, photo] = jobs();
+    expect(skipped.status).toBe('failed');
+    expect(skipped.retryable).toBe(false);
+    expect(photo.status).toBe('done');
+
+    batchQueue.retry(skipped.id);
+    expect(jobs()[0].status).toBe('failed');
+  });
+
+  it('retries a failed job from the stage where it stopped', async () => {
+    const flaky: VideoProvider = {
+      ...mockVideoProvider,
+      generateVideo: () => Promise.reject(new Error('render farm down')),
+    };
+    providerRegistry.register(flaky);
+
+    try {
+      batchQueue.addFiles(makePhotos(1));
+      await settled();
+      const [failed] = jobs();
+      expect(failed.status).toBe('failed');
+      expect(failed.error).toMatchObject({ step: 'generate', code: 'unknown', message: 'render farm down' });
+      expect(failed.error?.providerId).toBe('mock-video');
+      expect(failed.enhancedImageUrl).not.toBeNull();
+    } finally {
+      providerRegistry.register(mockVideoProvider);
+    }
+
+    const enhance = vi.spyOn(mockEnhanceProvider, 'enhance');
+    batchQueue.retry(jobs()[0].id);
+    await settled();
+
+    expect(jobs()[0].status).toBe('done');
+    expect(jobs()[0].attempts).toBe(2);
+    expect(enhance).not.toHaveBeenCalled();
+    enhance.mockRestore();
+  });
+
+  it('cancels running and waiting jobs', async () => {
+    mockConfig.latencyMs = 50;
+    batchQueue.setConcurrency(1);
+    batchQueue.addFiles(makePhotos(3));
+    batchQueue.cancelAll();
+    await settled();
+
+    expect(jobs().map((job) => job.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { decodeHeicPixels, extractRawPreview, getDecodeKind } from '../utils/imageDecoding';
+import { validateImageFile } from '../utils/imageProcessing';
+import { parseExif } from '../utils/exif';
+
+// Lossless JPEG, as used for raw sensor data; browsers cannot show it
+const LOSSLESS_JPEG = [0xff, 0xd8, 0xff, 0xc3, 0x00, 0x04, 0x00, 0x00, ...new Array(30).fill(0), 0xff, 0xd9];
+// Baseline JPEG preview with an APP0 segment before the frame header
+const PREVIEW_JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xd9];
+
+// A 32x16 HEIC photo, red on the left and blue on the right: HEVC with the
+// pixels stored uncoded (PCM), so it decodes exactly
+const TWO_TONE_HEIC = [
+  'AAAAGGZ0eXBoZWljAAAAAG1pZjFoZWljAAABHG1ldGEAAAAAAAAAIWhkbHIAAAAAAAAAAHBpY3QAAAAAAAAAAAAAAAAAAAAADnBp',
+  'dG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABPAAAAw0AAAAjaWluZgAAAAAAAQAAABVpbmZlAgAAAAABAABodmMxAAAA',
+  'AKBpcHJwAAAAg2lwY28AAABnaHZjQwEBYAAAAJAAAAAAAB7wAPz9+PgAAA8DoAABABdAAQwB//8BYAAAAwCQAAADAAADAB7wJKEA',
+  'AQAbQgEBAWAAAAMAkAAAAwAAAwAeoEIRf1vF3XBAogABAAdEAcBxgKSAAAAAFGlzcGUAAAAAAAAAIAAAABAAAAAVaXBtYQAAAAAA',
+  'AAABAAECgQIAAAMVbWRhdAAAAwkmAa+GgF5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5e',
+  'Xl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5e',
+  'Xl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5e',
+  'Xl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5eXl5iYmJiYmJiYmJiYmJiYmJiYmJi',
+  'YmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJiYmJi2tra2tra2tra2tra2tra2tra2tra2tra2tra2tra',
+  '2tra2tra2tra2tra2tra2tra2tra2tra2tra2tra2tra2ouASEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhI',
+  'SEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhI',
+  'SEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhI',
+  'SEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISEhISNPT09PT09PT',
+  '09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09PT09NpaWlpaWlpaWlpaWlpaWlpaWlp',
+  'aWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlpaWlp/oA=',
+].join('');
+
+// A little-endian TIFF shaped like a DNG: IFD0 holds the lossless raw strip,
+// a SubIFD points at the JPEG preview
+function buildRaw(orientation: number): ArrayBuffer {
+  const ifd0 = 8;
+  const subIfd = ifd0 + 2 + 6 * 12 + 4;
+  const rawStart = subIfd + 2 + 2 * 12 + 4;
+  const previewStart = rawStart + LOSSLESS_JPEG.length;
+  const make = previewStart + PREVIEW_JPEG.length;
+  const bytes = new Uint8Array(make + 6);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifd0, true);
+
+  const writeIfd = (start: number, entries: Array<[tag: number, type: number, count: number, value: number]>) => {
+    view.setUint16(start, entries.length, true);
+    entries.forEach(([tag, type, count, value], i) => {
+      const at = start + 2 + i * 12;
+      view.setUint16(at, tag, true);
+      view.setUint16(at + 2, type, true);
+      view.setUint32(at + 4, count, true);
+      if (type === 3) view.setUint16(at + 8, value, true);
+      else view.setUint32(at + 8, value, true);
+    });
+  };
+  writeIfd(ifd0, [
+    [0x010f, 2, 6, make],
+    [0x0103, 3, 1, 7],
+    [0x0111, 4, 1, rawStart],
+    [0x0112, 3, 1, orientation],
+    [0x0117, 4, 1, LOSSLESS_JPEG.length],
+    [0x014a, 4, 1, subIfd],
+  ]);
+  writeIfd(subIfd, [
+    [0x0201, 4, 1, previewStart],
+    [0x0202, 4, 1, PREVIEW_JPEG.length],
+  ]);
+  bytes.set(LOSSLESS_JPEG, rawStart);
+  bytes.set(PREVIEW_JPEG, previewStart);
+  bytes.set([...'Nikon\0'].map((c) => c.charCodeAt(0)), make);
+  return bytes.buffer;
+}
+
+const fileNamed = (name: string, type = '', size?: number) => {
+  const file = new File([new Uint8Array(16)], name, { type });
+  if (size) Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('HEIC and RAW uploads', () => {
+  it('recognises HEIC and RAW files by type or extension', () => {
+    expect(getDecodeKind(fileNamed('IMG_0042.HEIC'))).toBe('heic');
+    expect(getDecodeKind(fileNamed('photo', 'image/heif'))).toBe('heic');
+    expect(getDecodeKind(fileNamed('DSC_0001.NEF'))).toBe('raw');
+    expect(getDecodeKind(fileNamed('shot.dng', 'image/x-adobe-dng'))).toBe('raw');
+    expect(getDecodeKind(fileNamed('photo.jpg', 'image/jpeg'))).toBeNull();
+
+    expect(validateImageFile(fileNamed('IMG_0042.heic')).isValid).toBe(true);
+    // RAW files may be large, only their preview is used
+    expect(validateImageFile(fileNamed('IMG_0001.CR2', '', 40 * 1024 * 1024)).isValid).toBe(true);
+    expect(validateImageFile(fileNamed('IMG_0001.CR2', '', 200 * 1024 * 1024)).isValid).toBe(false);
+    expect(validateImageFile(fileNamed('IMG_0042.heic', '', 20 * 1024 * 1024)).isValid).toBe(false);
+    expect(validateImageFile(fileNamed('scan.tiff', 'image/tiff')).isValid).toBe(false);
+  });
+
+  it('decodes HEIC photos without the browser', async () => {
+    const buffer = Uint8Array.from(atob(TWO_TONE_HEIC), (c) => c.charCodeAt(0)).buffer;
+    const { width, height, data } = await decodeHeicPixels(buffer);
+    expect([width, height]).toEqual([32, 16]);
+
+    const pixel = (x: number, y: number) => [...data.slice((y * width + x) * 4, (y * width + x) * 4 + 4)];
+    const [r, g, b, a] = pixel(4, 8);
+    expect(r).toBeGreaterThan(200);
+    expect(Math.max(g, b)).toBeLessThan(60);
+    expect(a).toBe(255);
+    const [r2, , b2] = pixel(28, 8);
+    expect(b2).toBeGreaterThan(200);
+    expect(r2).toBeLessThan(60);
+  });
+
+  it('extracts the largest displayable JPEG preview from a RAW file', () => {
+    const preview = extractRawPreview(buildRaw(8));
+    expect(preview).not.toBeNull();
+    expect([...new Uint8Array(preview!.jpeg)]).toEqual(PREVIEW_JPEG);
+    expect(preview!.orientation).toBe(8);
+
+    expect(extractRawPreview(new Uint8Array(PREVIEW_JPEG).buffer)).toBeNull();
+  });
+
+  it('reads the camera and orientation from the RAW file itself', () => {
+    const metadata = parseExif(buildRaw(6));
+    expect(metadata.camera).toBe('Nikon');
+    expect(metadata.orientation).toBe(6);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useProviderStore } from '../store/providerStore';
+import { providerRegistry } from '../services/providers';
+import type { EnhanceProvider } from '../services/providers';
+import { mockConfig, mockEnhanceProvider } from '../services/providers/mockProviders';
+import {
+  PipelineError,
+  fromGoogleError,
+  fromGoogleErrorBody,
+  fromReplicatePrediction,
+  fromReplicateResponse,
+  getRecoveryActions,
+} from '../utils/errors';
+
+// Shaped like the @google/genai ApiError: HTTP status plus the JSON body as message
+const googleApiError = (status: number, body: object) => Object.assign(new Error(JSON.stringify(body)), { status });
+
+describe('typed pipeline errors', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+  });
+
+  it('parses Google error bodies by status and details', () => {
+    const badKey = fromGoogleError(
+      'enhance',
+      googleApiError(400, {
+        error: {
+          code: 400,
+          message: 'API key not valid. Please pass a valid API key.',
+          status: 'INVALID_ARGUMENT',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }],
+        },
+      })
+    );
+    expect(badKey).toMatchObject({ step: 'enhance', code: 'invalid_key', status: 400, retryable: false });
+    expect(getRecoveryActions(badKey)).toEqual(['change_key', 'switch_provider']);
+
+    const perMinute = fromGoogleErrorBody(
+      'prompt',
+      JSON.stringify({
+        error: {
+          code: 429,
+          status: 'RESOURCE_EXHAUSTED',
+          details: [
+            { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId: 'GenerateRequestsPerMinute' }] },
+            { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '17s' },
+          ],
+        },
+      }),
+      429
+    );
+    expect(perMinute).toMatchObject({ code: 'rate_limited', retryable: true, retryAfterMs: 17000 });
+
+    const daily = fromGoogleErrorBody(
+      'generate',
+      JSON.stringify({
+        error: { code: 429, status: 'RESOURCE_EXHAUSTED', details: [{ violations: [{ quotaId: 'PredictRequestsPerDay' }] }] },
+      }),
+      429
+    );
+    // Retrying would only fail again until the quota resets
+    expect(daily).toMatchObject({ code: 'quota_exceeded', retryable: false });
+    expect(getRecoveryActions(daily)).toEqual(['retry_later', 'switch_provider']);
+  });
+
+  it('keeps messages of errors that are not API responses', () => {
+    const error = fromGoogleError('prompt', new Error('No motion prompt was generated'));
+    expect(error).toMatchObject({ code: 'unknown', message: 'No motion prompt was generated', retryable: true });
+    expect(fromGoogleError('prompt', new TypeError('Failed to fetch')).code).toBe('network');
+  });
+
+  it('parses Replicate problem details and prediction failures', () => {
+    expect(fromReplicateResponse('generate', 402, '{"title":"Insufficient credit","status":402}')).toMatchObject({
+      code: 'billing',
+      status: 402,
+      retryable: false,
+    });
+    expect(
+      fromReplicateResponse('generate', 422, '{"title":"Invalid input","detail":"duration must be 5 or 10"}')
+    ).toMatchObject({ code: 'invalid_request', message: 'duration must be 5 or 10' });
+    expect(fromReplicateResponse('enhance', 429, '', '30').retryAfterMs).toBe(30000);
+
+    const flagged = fromReplicatePrediction('generate', 'E005: The input or output was flagged as sensitive');
+    expect(flagged.code).toBe('safety_blocked');
+    expect(getRecoveryActions(flagged)).toEqual(['different_image']);
+  });
+
+  it('tags errors leaving the provider chain with the failing provider', async () => {
+    const rejected: EnhanceProvider = {
+      ...mockEnhanceProvider,
+      enhance: () => Promise.reject(new PipelineError({ step: 'enhance', code: 'safety_blocked' })),
+    };
+    providerRegistry.register(rejected);
+    useProviderStore.setState({ fallbackEnabled: false });
+
+    try {
+      const failure = await providerRegistry
+        .run('enhance', (provider) => provider.enhance({ imageDataUrl: 'data:image/png;base64,' }))
+        .catch((error: unknown) => error);
+      expect(failure).toBeInstanceOf(PipelineError);
+      expect(failure).toMatchObject({ step: 'enhance', code: 'safety_blocked', providerId: 'mock-enhance' });
+    } finally {
+      providerRegistry.register(mockEnhanceProvider);
+    }
+  });
+});
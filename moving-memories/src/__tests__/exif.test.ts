@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { parseExif, describePhotoContext, EMPTY_METADATA } from '../utils/exif';
+import { getVideoPrompt } from '../config/prompts';
+
+type Entry = { tag: number; type: 'ascii' | 'short' | 'long' | 'rational'; value: string | number | number[] };
+
+const TYPE_CODES = { ascii: 2, short: 3, long: 4, rational: 5 };
+
+// A JPEG with an APP1 Exif segment holding IFD0 and optional Exif and GPS IFDs
+function buildJpeg(ifd0: Entry[], exif: Entry[] = [], gps: Entry[] = [], littleEndian = true): ArrayBuffer {
+  const ifdSize = (entries: Entry[]) => 2 + entries.length * 12 + 4;
+  const pointers: Entry[] = [
+    ...(exif.length ? [{ tag: 0x8769, type: 'long' as const, value: 0 }] : []),
+    ...(gps.length ? [{ tag: 0x8825, type: 'long' as const, value: 0 }] : []),
+  ];
+  const ifd0Entries = [...ifd0, ...pointers];
+  const exifStart = 8 + ifdSize(ifd0Entries);
+  const gpsStart = exifStart + (exif.length ? ifdSize(exif) : 0);
+  let dataStart = gpsStart + (gps.length ? ifdSize(gps) : 0);
+
+  const tiff = new DataView(new ArrayBuffer(1024));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+
+  const writeIfd = (start: number, entries: Entry[]) => {
+    tiff.setUint16(start, entries.length, littleEndian);
+    entries.forEach((entry, i) => {
+      const at = start + 2 + i * 12;
+      const value =
+        entry.tag === 0x8769 ? exifStart : entry.tag === 0x8825 ? gpsStart : entry.value;
+      tiff.setUint16(at, entry.tag, littleEndian);
+      tiff.setUint16(at + 2, TYPE_CODES[entry.type], littleEndian);
+      if (entry.type === 'ascii') {
+        const bytes = [...`${value}\0`].map((c) => c.charCodeAt(0));
+        tiff.setUint32(at + 4, bytes.length, littleEndian);
+        const target = bytes.length > 4 ? dataStart : at + 8;
+        if (bytes.length > 4) {
+          tiff.setUint32(at + 8, dataStart, littleEndian);
+          dataStart += bytes.length;
+        }
+        bytes.forEach((byte, j) => tiff.setUint8(target + j, byte));
+      } else if (entry.type === 'rational') {
+        const parts = value as number[];
+        tiff.setUint32(at + 4, parts.length, littleEndian);
+        tiff.setUint32(at + 8, dataStart, littleEndian);
+        parts.forEach((part, j) => {
+          tiff.setUint32(dataStart + j * 8, part * 100, littleEndian);
+          tiff.setUint32(dataStart + j * 8 + 4, 100, littleEndian);
+        });
+        dataStart += parts.length * 8;
+      } else {
+        tiff.setUint32(at + 4, 1, littleEndian);
+        if (entry.type === 'short') tiff.setUint16(at + 8, value as number, littleEndian);
+        else tiff.setUint32(at + 8, value as number, littleEndian);
+      }
+    });
+  };
+  writeIfd(8, ifd0Entries);
+  if (exif.length) writeIfd(exifStart, exif);
+  if (gps.length) writeIfd(gpsStart, gps);
+
+  const segment = new Uint8Array([...'Exif\0\0'].map((c) => c.charCodeAt(0)).concat([...new Uint8Array(tiff.buffer, 0, dataStart)]));
+  const jpeg = new Uint8Array(4 + 2 + segment.length + 2);
+  const view = new DataView(jpeg.buffer);
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, segment.length + 2);
+  jpeg.set(segment, 6);
+  view.setUint16(6 + segment.length, 0xffda);
+  return jpeg.buffer;
+}
+
+describe('EXIF metadata', () => {
+  it('reads date, camera, orientation and position', () => {
+    for (const littleEndian of [true, false]) {
+      const metadata = parseExif(
+        buildJpeg(
+          [
+            { tag: 0x010f, type: 'ascii', value: 'Canon' },
+            { tag: 0x0110, type: 'ascii', value: 'Canon EOS 5D' },
+            { tag: 0x0112, type: 'short', value: 6 },
+          ],
+          [{ tag: 0x9003, type: 'ascii', value: '1994:01:15 10:30:00' }],
+          [
+            { tag: 0x0001, type: 'ascii', value: 'N' },
+            { tag: 0x0002, type: 'rational', value: [43, 42, 0] },
+            { tag: 0x0003, type: 'ascii', value: 'W' },
+            { tag: 0x0004, type: 'rational', value: [7, 15, 36] },
+          ],
+          littleEndian
+        )
+      );
+
+      expect(metadata.camera).toBe('Canon EOS 5D');
+      expect(metadata.orientation).toBe(6);
+      expect(metadata.capturedAt).toBe(new Date(1994, 0, 15, 10, 30, 0).getTime());
+      expect(metadata.location?.latitude).toBeCloseTo(43.7);
+      expect(metadata.location?.longitude).toBeCloseTo(-7.26);
+    }
+  });
+
+  it('returns empty metadata for photos without EXIF', () => {
+    expect(parseExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toEqual(EMPTY_METADATA);
+    expect(parseExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]).buffer)).toEqual(EMPTY_METADATA);
+    // Truncated block
+    expect(parseExif(buildJpeg([{ tag: 0x0112, type: 'short', value: 3 }]).slice(0, 24))).toEqual(EMPTY_METADATA);
+  });
+
+  it('describes when and where a photo was taken for the motion prompt', () => {
+    const capturedAt = new Date(1994, 0, 15).getTime();
+    expect(describePhotoContext({ ...EMPTY_METADATA, capturedAt })).toBe('winter 1994');
+    expect(
+      describePhotoContext({ ...EMPTY_METADATA, capturedAt, location: { latitude: -33.86, longitude: 151.21 } })
+    ).toBe('summer 1994, near 33.86°S 151.21°E');
+    expect(describePhotoContext(EMPTY_METADATA)).toBeNull();
+
+    expect(getVideoPrompt(undefined, 'winter 1994')).toContain('The photo was taken in winter 1994.');
+    expect(getVideoPrompt()).not.toContain('The photo was taken');
+  });
+});
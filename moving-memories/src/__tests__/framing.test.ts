@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { aspectValue, closestAspectRatio, cropForAspect, focusPointFromPixels, FRAME_ASPECT_RATIOS, CENTER } from '../utils/framing';
+
+// A grey RGBA image with a checkerboard patch in the given cell of a 4x4 grid
+function withDetailAt(column: number, row: number, size = 32): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(size * size * 4).fill(128);
+  const cell = size / 4;
+  for (let y = row * cell; y < (row + 1) * cell; y++) {
+    for (let x = column * cell; x < (column + 1) * cell; x++) {
+      const value = (x + y) % 2 ? 255 : 0;
+      pixels.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+describe('framing', () => {
+  it('suggests the preset closest to the photo shape', () => {
+    expect(closestAspectRatio(4032, 3024, FRAME_ASPECT_RATIOS)).toBe('4:3');
+    expect(closestAspectRatio(1080, 1920, FRAME_ASPECT_RATIOS)).toBe('9:16');
+    expect(closestAspectRatio(1000, 1000, FRAME_ASPECT_RATIOS)).toBe('1:1');
+    // Only what the video provider makes
+    expect(closestAspectRatio(1080, 1920, ['16:9'])).toBe('16:9');
+  });
+
+  it('crops to the shape around the focus point, within the photo', () => {
+    const portrait = cropForAspect(1000, 1000, aspectValue('9:16'));
+    expect(portrait.height).toBe(1);
+    expect(portrait.width).toBeCloseTo(0.5625);
+    expect(portrait.x).toBeCloseTo((1 - 0.5625) / 2);
+
+    // A subject at the far right edge moves the crop as far as it goes
+    const right = cropForAspect(1600, 900, aspectValue('1:1'), { x: 1, y: 0.5 });
+    expect(right.x + right.width).toBeCloseTo(1);
+
+    const zoomed = cropForAspect(1600, 900, aspectValue('16:9'), CENTER, 2);
+    expect(zoomed).toEqual({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 });
+  });
+
+  it('finds the subject where the detail is', () => {
+    expect(focusPointFromPixels(new Uint8ClampedArray(32 * 32 * 4).fill(128), 32, 32)).toEqual(CENTER);
+
+    const topLeft = focusPointFromPixels(withDetailAt(0, 0), 32, 32);
+    expect(topLeft.x).toBeLessThan(0.3);
+    expect(topLeft.y).toBeLessThan(0.3);
+
+    const right = focusPointFromPixels(withDetailAt(3, 2), 32, 32);
+    expect(right.x).toBeGreaterThan(0.7);
+    expect(right.y).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,419 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useMemoryStore } from '../store/memoryStore';
+import { useProviderStore } from '../store/providerStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { providerRegistry } from '../services/providers';
+import type { EnhanceProvider } from '../services/providers';
+import {
+  mockConfig,
+  MOCK_CAPTION,
+  MOCK_ENHANCED_IMAGE_URL,
+  MOCK_MOTION_PROMPT,
+  MOCK_OPERATION_NAME,
+  createPlaceholderMp4,
+  mockEnhanceProvider,
+} from '../services/providers/mockProviders';
+import { rankCandidates } from '../services/providers/ranking';
+import { PROMPT_CANDIDATE_STYLES } from '../config/prompts';
+import { imageFingerprint, validateImageFile } from '../utils/imageProcessing';
+import type { ImageRenditions } from '../types';
+
+// 1x1 transparent PNG
+const PHOTO_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Every consumer gets the same copy; real uploads are resized in a worker
+const renditionsOf = (url: string): ImageRenditions => ({ analysis: url, enhance: url, video: url });
+
+const makePhoto = () => new File([new Uint8Array(64)], 'memory.png', { type: 'image/png' });
+
+describe('pipeline against mock providers', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    mockConfig.enhanceUnchanged = false;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+    useSettingsStore.setState({ reviewPrompt: false, framePhotos: false });
+    useMemoryStore.getState().resetWorkflow();
+  });
+
+  it('runs upload → enhance → generate → complete', async () => {
+    const store = useMemoryStore.getState;
+
+    // Upload
+    const photo = makePhoto();
+    expect(validateImageFile(photo).isValid).toBe(true);
+    store().setOriginalImage(photo, renditionsOf(PHOTO_DATA_URL));
+    expect(store().currentStep).toBe('enhance');
+    expect(store().canProceedToStep('enhance')).toBe(true);
+
+    // Enhance
+    const enhanced = await providerRegistry.run('enhance', (provider) =>
+      provider.enhance({ imageDataUrl: store().originalImageDataUrl! })
+    );
+    expect(enhanced.providerId).toBe('mock-enhance');
+    store().setEnhancedImage(enhanced.result.imageUrl, enhanced.result.caption);
+    // Nothing moves on by itself; the user presses Next
+    expect(store().currentStep).toBe('enhance');
+    expect(store().goNext()).toBe(true);
+    expect(store().currentStep).toBe('generate');
+    expect(store().enhancedImageUrl).toBe(MOCK_ENHANCED_IMAGE_URL);
+    expect(store().enhancedImageCaption).toBe(MOCK_CAPTION);
+
+    // Motion prompt
+    store().setUserNote('Grandma at the lake, summer 1994');
+    const prompt = await providerRegistry.run('prompt', (provider) =>
+      provider.generatePrompt({
+        imageDataUrl: store().enhancedImageUrl!,
+        caption: store().enhancedImageCaption!,
+        userNote: store().userNote,
+      })
+    );
+    store().setMotionPrompt(prompt.result);
+    expect(store().canProceedToStep('generate')).toBe(true);
+
+    // Video
+    const statuses: string[] = [];
+    const video = await providerRegistry.run('video', (provider) =>
+      provider.generateVideo({
+        imageDataUrl: store().enhancedImageUrl!,
+        prompt: store().motionPrompt,
+        onProgress: (status) => statuses.push(status),
+      })
+    );
+    expect(video.providerId).toBe('mock-video');
+    expect(statuses.at(-1)).toBe('Video ready!');
+    store().setVideoUrl(video.result);
+
+    // Complete
+    expect(store().goNext()).toBe(true);
+    expect(store().currentStep).toBe('complete');
+    expect(store().videoUrl).toMatch(/^data:video\/mp4;base64,/);
+    expect(store().progress).toBe(100);
+    expect(store().canProceedToStep('complete')).toBe(true);
+  });
+
+  it('streams the motion prompt word by word', async () => {
+    const [provider] = providerRegistry.getChain('prompt');
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamPrompt!({ imageDataUrl: PHOTO_DATA_URL })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBe(MOCK_MOTION_PROMPT.split(' ').length);
+    expect(chunks[0].length).toBeLessThan(chunks.at(-1)!.length);
+    expect(chunks.at(-1)).toBe(MOCK_MOTION_PROMPT);
+  });
+
+  it('suggests ranked, styled alternatives and records the choice', async () => {
+    const store = useMemoryStore.getState;
+    const styles = PROMPT_CANDIDATE_STYLES.slice(0, 3);
+
+    const { result } = await providerRegistry.run('prompt', (provider) =>
+      provider.generateCandidates!({ imageDataUrl: PHOTO_DATA_URL, userNote: 'Birthday party', styles })
+    );
+    expect(result.map((candidate) => candidate.style)).toEqual(styles);
+    expect(result.map((candidate) => candidate.score)).toEqual([8.5, 8, 7.5]);
+    expect(result.every((candidate) => candidate.noteScore === 8)).toBe(true);
+
+    store().setPromptCandidates(result);
+    store().choosePromptCandidate(1);
+    expect(store().motionPrompt).toBe(result[1].prompt);
+    expect(store().promptCandidates.map((candidate) => candidate.chosen)).toEqual([false, true, false]);
+
+    store().choosePromptCandidate(null);
+    expect(store().promptCandidates.some((candidate) => candidate.chosen)).toBe(false);
+    expect(store().motionPrompt).toBe(result[1].prompt);
+  });
+
+  it('ranks scored candidates first and keeps unscored ones in order', () => {
+    const candidate = (style: string, score: number | null) => ({
+      style,
+      prompt: style,
+      score,
+      subjectScore: score,
+      noteScore: null,
+    });
+    const ranked = rankCandidates([
+      candidate('a', null),
+      candidate('b', 6),
+      candidate('c', null),
+      candidate('d', 9),
+    ]);
+    expect(ranked.map((c) => c.style)).toEqual(['d', 'b', 'a', 'c']);
+  });
+
+  it('stops at the prompt review step only when it is turned on', () => {
+    const store = useMemoryStore.getState;
+
+    store().setOriginalImage(makePhoto(), renditionsOf(PHOTO_DATA_URL));
+    store().setEnhancedImage(MOCK_ENHANCED_IMAGE_URL, MOCK_CAPTION);
+    store().goNext();
+    expect(store().currentStep).toBe('generate');
+
+    useSettingsStore.getState().setReviewPrompt(true);
+    store().goBack();
+    store().goNext();
+    expect(store().currentStep).toBe('prompt');
+    // Generate needs a reviewed prompt first
+    expect(store().goNext()).toBe(false);
+    store().setMotionPrompt(MOCK_MOTION_PROMPT);
+    expect(store().goNext()).toBe(true);
+    expect(store().currentStep).toBe('generate');
+    expect(JSON.parse(localStorage.getItem('moving-memories-settings')!).state.reviewPrompt).toBe(true);
+  });
+
+  it('refuses steps whose inputs are missing and keeps results when going back', () => {
+    const store = useMemoryStore.getState;
+
+    expect(store().setCurrentStep('enhance')).toBe(false);
+    expect(store().goNext()).toBe(false);
+    expect(store().currentStep).toBe('upload');
+
+    store().setOriginalImage(makePhoto(), renditionsOf(PHOTO_DATA_URL));
+    expect(store().setCurrentStep('complete')).toBe(false);
+    expect(store().goNext()).toBe(false);
+
+    store().setEnhancedImage(MOCK_ENHANCED_IMAGE_URL, MOCK_CAPTION);
+    store().setUserNote('First snow');
+    store().goNext();
+    store().setMotionPrompt(MOCK_MOTION_PROMPT);
+    store().setVideoUrl('data:video/mp4;base64,AA');
+    store().goNext();
+    expect(store().currentStep).toBe('complete');
+
+    // Back to Enhance without losing anything, then forward again
+    store().goBack();
+    store().goBack();
+    expect(store().currentStep).toBe('enhance');
+    expect(store().enhancedImageUrl).toBe(MOCK_ENHANCED_IMAGE_URL);
+    expect(store().userNote).toBe('First snow');
+    expect(store().videoUrl).toBe('data:video/mp4;base64,AA');
+    store().goNext();
+    store().goNext();
+    expect(store().currentStep).toBe('complete');
+
+    // A new enhancement makes the old video stale
+    store().goBack();
+    store().goBack();
+    store().setEnhancedImage('data:image/png;base64,BB');
+    expect(store().videoUrl).toBeNull();
+    store().goNext();
+    expect(store().goNext()).toBe(false);
+    expect(store().currentStep).toBe('generate');
+  });
+
+  it('frames the photo before enhancing and drops results made from another framing', () => {
+    const store = useMemoryStore.getState;
+    useSettingsStore.getState().setFramePhotos(true);
+
+    store().setOriginalImage(makePhoto(), renditionsOf(PHOTO_DATA_URL));
+    expect(store().currentStep).toBe('frame');
+    expect(store().goNext()).toBe(true);
+    expect(store().currentStep).toBe('enhance');
+    store().goBack();
+
+    const portrait = { aspectRatio: '9:16' as const, mode: 'crop' as const, crop: { x: 0.2, y: 0, width: 0.6, height: 1 } };
+    store().setFramedImage(renditionsOf('data:image/jpeg;base64,CC'), portrait);
+    expect(store().originalImageDataUrl).toBe('data:image/jpeg;base64,CC');
+    expect(store().uploadedImageDataUrl).toBe(PHOTO_DATA_URL);
+
+    // Same framing again keeps the enhancement; a new one starts over
+    store().setEnhancedImage(MOCK_ENHANCED_IMAGE_URL, MOCK_CAPTION);
+    store().setFramedImage(renditionsOf('data:image/jpeg;base64,CC'), { ...portrait, crop: { ...portrait.crop } });
+    expect(store().enhancedImageUrl).toBe(MOCK_ENHANCED_IMAGE_URL);
+    store().setFramedImage(renditionsOf('data:image/jpeg;base64,DD'), { aspectRatio: '16:9', mode: 'extend', crop: null });
+    expect(store().enhancedImageUrl).toBeNull();
+    expect(store().framing?.aspectRatio).toBe('16:9');
+  });
+
+  it('keeps real providers out of mock mode and mocks out of real mode', () => {
+    localStorage.setItem('REPLICATE_API_TOKEN', 'r8_test');
+    useMemoryStore.getState().setApiKey('AIza-test');
+
+    expect(providerRegistry.getChain('video').map((p) => p.id)).toEqual(['mock-video']);
+
+    useProviderStore.setState({ mockMode: false });
+    expect(providerRegistry.getChain('video').map((p) => p.id)).toEqual(['replicate-seedance', 'veo-3']);
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    const failing: EnhanceProvider = {
+      id: 'mock-failing',
+      label: 'Failing mock',
+      stage: 'enhance',
+      capabilities: { credential: null, mock: true },
+      enhance: () => Promise.reject(new Error('boom')),
+    };
+    providerRegistry.register(failing);
+    useProviderStore.getState().setProviderOrder('enhance', ['mock-failing', 'mock-enhance']);
+
+    try {
+      const attempted: string[] = [];
+      const { providerId } = await providerRegistry.run(
+        'enhance',
+        (provider) => provider.enhance({ imageDataUrl: PHOTO_DATA_URL }),
+        { onAttempt: (provider) => attempted.push(provider.id) }
+      );
+      expect(attempted).toEqual(['mock-failing', 'mock-enhance']);
+      expect(providerId).toBe('mock-enhance');
+
+      useProviderStore.setState({ fallbackEnabled: false });
+      await expect(
+        providerRegistry.run('enhance', (provider) => provider.enhance({ imageDataUrl: PHOTO_DATA_URL }))
+      ).rejects.toThrow('boom');
+    } finally {
+      providerRegistry.unregister(failing.id);
+      useProviderStore.getState().resetPreferences();
+    }
+  });
+
+  it('runs every enhancer for comparison and keeps the chosen version', async () => {
+    const store = useMemoryStore.getState;
+    const failing: EnhanceProvider = {
+      id: 'mock-failing',
+      label: 'Failing mock',
+      stage: 'enhance',
+      capabilities: { credential: null, mock: true },
+      enhance: () => Promise.reject(new Error('boom')),
+    };
+    providerRegistry.register(failing);
+    // Comparing ignores the fallback setting
+    useProviderStore.setState({ fallbackEnabled: false });
+
+    try {
+      const outcomes = await providerRegistry.runAll('enhance', (provider) =>
+        provider.enhance({ imageDataUrl: PHOTO_DATA_URL })
+      );
+      expect(outcomes.map((outcome) => outcome.providerId)).toEqual(['mock-enhance', 'mock-failing']);
+      expect(outcomes[0].result?.enhanced).toBe(true);
+      expect(outcomes[1].error?.message).toBe('boom');
+
+      store().setOriginalImage(makePhoto(), renditionsOf(PHOTO_DATA_URL));
+      mockConfig.enhanceUnchanged = true;
+      const unchanged = await mockEnhanceProvider.enhance({ imageDataUrl: PHOTO_DATA_URL });
+      expect(unchanged).toMatchObject({ imageUrl: PHOTO_DATA_URL, enhanced: false });
+
+      store().setEnhancementOptions([
+        { ...outcomes[0].result!, providerId: 'mock-enhance' },
+        { ...unchanged, providerId: 'gemini-flash-image' },
+      ]);
+      store().chooseEnhancement(1);
+      expect(store().enhancedImageUrl).toBe(PHOTO_DATA_URL);
+      expect(store().providersUsed.enhance).toBe('gemini-flash-image');
+
+      store().chooseEnhancement(0);
+      expect(store().enhancedImageUrl).toBe(MOCK_ENHANCED_IMAGE_URL);
+      expect(store().enhancementOptions.map((option) => option.chosen)).toEqual([true, false]);
+
+      // Keeping the original still carries the caption into the motion prompt
+      store().chooseEnhancement(null);
+      expect(store().enhancedImageUrl).toBe(PHOTO_DATA_URL);
+      expect(store().enhancedImageCaption).toBe(MOCK_CAPTION);
+      expect(store().providersUsed.enhance).toBeUndefined();
+      expect(store().enhancementOptions.some((option) => option.chosen)).toBe(false);
+      expect(store().canProceedToStep('generate')).toBe(true);
+    } finally {
+      providerRegistry.unregister(failing.id);
+    }
+  });
+
+  it('resumes a video job saved before a reload', async () => {
+    const store = useMemoryStore.getState;
+
+    await providerRegistry.run('video', (provider) =>
+      provider.generateVideo({
+        imageDataUrl: MOCK_ENHANCED_IMAGE_URL,
+        prompt: MOCK_MOTION_PROMPT,
+        onJobStarted: (operationName) =>
+          store().setPendingVideoOperation({
+            providerId: provider.id,
+            operationName,
+            prompt: MOCK_MOTION_PROMPT,
+            sourceImageId: imageFingerprint(MOCK_ENHANCED_IMAGE_URL),
+            userNote: 'Beach day',
+            startedAt: Date.now(),
+          }),
+      })
+    );
+
+    // Only the job survives a reload; the rest of the workflow is gone
+    const persisted = JSON.parse(localStorage.getItem('moving-memories-store')!);
+    expect(persisted.state.pendingVideoOperation.operationName).toBe(MOCK_OPERATION_NAME);
+    // A reference to the image, not the image itself
+    expect(JSON.stringify(persisted)).not.toContain(MOCK_ENHANCED_IMAGE_URL);
+    // The image is still on screen; after a reload it comes back from IndexedDB
+    useMemoryStore.setState({ enhancedImageUrl: MOCK_ENHANCED_IMAGE_URL, motionPrompt: '', currentStep: 'upload' });
+
+    store().resumePendingVideo();
+    expect(store().currentStep).toBe('generate');
+    expect(store().resumingVideo).toBe(true);
+    expect(store().enhancedImageUrl).toBe(MOCK_ENHANCED_IMAGE_URL);
+    expect(store().motionPrompt).toBe(MOCK_MOTION_PROMPT);
+    expect(store().userNote).toBe('Beach day');
+
+    const pending = store().pendingVideoOperation!;
+    const provider = providerRegistry.get(pending.providerId);
+    expect(provider?.stage).toBe('video');
+    if (provider?.stage !== 'video') return;
+
+    store().setVideoUrl(await provider.resumeVideo!(pending.operationName, {}));
+    expect(store().goNext()).toBe(true);
+    expect(store().currentStep).toBe('complete');
+    expect(store().pendingVideoOperation).toBeNull();
+  });
+
+  it('does not hand an unfinished video job to the next photo', () => {
+    const store = useMemoryStore.getState;
+    store().setPendingVideoOperation({
+      providerId: 'mock-video',
+      operationName: MOCK_OPERATION_NAME,
+      prompt: MOCK_MOTION_PROMPT,
+      sourceImageId: imageFingerprint(MOCK_ENHANCED_IMAGE_URL),
+      userNote: '',
+      startedAt: Date.now(),
+    });
+
+    store().setOriginalImage(makePhoto(), renditionsOf(PHOTO_DATA_URL));
+    expect(store().pendingVideoOperation).toBeNull();
+    expect(store().resumingVideo).toBe(false);
+    const persisted = JSON.parse(localStorage.getItem('moving-memories-store')!);
+    expect(persisted.state.pendingVideoOperation).toBeNull();
+  });
+
+  it('stops a cancelled run without falling back', async () => {
+    mockConfig.latencyMs = 50;
+    const controller = new AbortController();
+    const attempted: string[] = [];
+    const run = providerRegistry.run(
+      'video',
+      (provider) =>
+        provider.generateVideo({
+          imageDataUrl: PHOTO_DATA_URL,
+          prompt: MOCK_MOTION_PROMPT,
+          signal: controller.signal,
+        }),
+      { onAttempt: (provider) => attempted.push(provider.id), signal: controller.signal }
+    );
+    controller.abort();
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(attempted).toEqual(['mock-video']);
+  });
+
+  it('builds a placeholder MP4 with the requested duration', () => {
+    const bytes = createPlaceholderMp4(5);
+    const view = new DataView(bytes.buffer);
+    const type = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+
+    const ftypSize = view.getUint32(0);
+    expect(type(4)).toBe('ftyp');
+    expect(type(ftypSize + 4)).toBe('moov');
+    expect(type(ftypSize + 12)).toBe('mvhd');
+    expect(view.getUint32(ftypSize)).toBe(bytes.length - ftypSize);
+    expect(view.getUint32(ftypSize + 8)).toBe(108);
+
+    const mvhd = ftypSize + 16;
+    expect(view.getUint32(mvhd + 16) / view.getUint32(mvhd + 12)).toBe(5);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useProviderStore } from '../store/providerStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { providerRegistry } from '../services/providers';
+import type { PromptProvider } from '../services/providers';
+import { mockConfig, mockPromptProvider, MOCK_IMAGE_CATEGORY } from '../services/providers/mockProviders';
+import { presetService, AUTO_PRESET, RESTORE_PRESET } from '../services/presetService';
+import { getEnhancementPrompt, IMAGE_ENHANCEMENT_PROMPTS, PROMPTS } from '../config/prompts';
+import { classifyPhotoTone } from '../utils/imageProcessing';
+
+const PHOTO_DATA_URL = 'data:image/png;base64,AA';
+
+// RGBA pixels from [r, g, b] triples
+const pixels = (...colors: number[][]) => Uint8ClampedArray.from(colors.flatMap(([r, g, b]) => [r, g, b, 255]));
+
+describe('enhancement presets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+    useSettingsStore.setState({
+      enhancementPreset: AUTO_PRESET,
+      customPresets: [],
+      restoration: { colorize: false, colorIntensity: 50 },
+    });
+  });
+
+  it('folds the preset and the user note into the enhancement instruction', () => {
+    expect(getEnhancementPrompt()).toBe(PROMPTS.imageEnhancement.base);
+
+    const prompt = getEnhancementPrompt('Grandpa, summer 1962', IMAGE_ENHANCEMENT_PROMPTS.vintage);
+    expect(prompt).toContain(IMAGE_ENHANCEMENT_PROMPTS.vintage);
+    expect(prompt).toContain('"Grandpa, summer 1962"');
+    expect(prompt).not.toContain(PROMPTS.imageEnhancement.base.trim());
+
+    expect(getEnhancementPrompt('First day of school')).toContain('"First day of school"');
+  });
+
+  it('classifies the photo in automatic mode and honours a manual choice', async () => {
+    expect(await presetService.resolve(PHOTO_DATA_URL)).toEqual({ presetId: MOCK_IMAGE_CATEGORY, detected: true });
+
+    useSettingsStore.getState().setEnhancementPreset('landscape');
+    expect(await presetService.resolve(PHOTO_DATA_URL)).toEqual({ presetId: 'landscape', detected: false });
+    // A per-photo override wins over the setting
+    expect(await presetService.resolve(PHOTO_DATA_URL, { presetId: 'event' })).toEqual({
+      presetId: 'event',
+      detected: false,
+    });
+  });
+
+  it('enhances with the general prompt when classification fails', async () => {
+    const failing: PromptProvider = {
+      ...mockPromptProvider,
+      id: 'mock-failing-classifier',
+      classifyImage: () => Promise.reject(new Error('boom')),
+    };
+    providerRegistry.register(failing);
+    useProviderStore.getState().setProviderOrder('prompt', [failing.id, 'mock-prompt']);
+
+    try {
+      expect(await presetService.resolve(PHOTO_DATA_URL)).toBeNull();
+    } finally {
+      providerRegistry.unregister(failing.id);
+      useProviderStore.getState().resetPreferences();
+    }
+  });
+
+  it('saves, edits and deletes custom presets', async () => {
+    const settings = useSettingsStore.getState;
+    const id = settings().saveCustomPreset({ label: ' Golden hour ', instruction: 'Warm late-afternoon light.' });
+    expect(presetService.find(id)).toEqual({
+      id,
+      label: 'Golden hour',
+      instruction: 'Warm late-afternoon light.',
+      custom: true,
+    });
+
+    settings().setEnhancementPreset(id);
+    expect(await presetService.resolve(PHOTO_DATA_URL)).toEqual({ presetId: id, detected: false });
+
+    settings().saveCustomPreset({ id, label: 'Golden hour', instruction: 'Soft, warm evening light.' });
+    expect(settings().customPresets).toHaveLength(1);
+    expect(presetService.find(id)?.instruction).toBe('Soft, warm evening light.');
+
+    // Deleting the default goes back to automatic
+    settings().deleteCustomPreset(id);
+    expect(presetService.find(id)).toBeUndefined();
+    expect(settings().enhancementPreset).toBe(AUTO_PRESET);
+  });
+
+  it('tells black-and-white and sepia photos from color ones', () => {
+    expect(classifyPhotoTone(pixels([20, 20, 20], [128, 130, 127], [240, 238, 241]))).toBe('greyscale');
+    expect(classifyPhotoTone(pixels([112, 66, 20], [200, 170, 130], [60, 45, 30], [230, 225, 220]))).toBe('sepia');
+    expect(classifyPhotoTone(pixels([30, 90, 200], [40, 160, 60], [200, 50, 40], [240, 220, 200]))).toBe('color');
+    // Warm but strongly saturated: a sunset, not an old print
+    expect(classifyPhotoTone(pixels([250, 120, 10], [240, 90, 0], [255, 160, 40]))).toBe('color');
+  });
+
+  it('restores old photos, keeping their tones unless colorizing', async () => {
+    const settings = useSettingsStore.getState;
+    expect(await presetService.resolve(PHOTO_DATA_URL, { presetId: RESTORE_PRESET })).toEqual({
+      presetId: RESTORE_PRESET,
+      detected: false,
+    });
+
+    const instruction = presetService.find(RESTORE_PRESET)!.instruction;
+    expect(instruction).toContain(PROMPTS.restoration.base);
+    expect(instruction).toContain(PROMPTS.restoration.keepTones);
+    // The modern-camera look is never asked for
+    expect(getEnhancementPrompt(undefined, instruction)).not.toContain('NIKON');
+
+    settings().setRestoration({ colorize: true, colorIntensity: 90 });
+    expect(presetService.find(RESTORE_PRESET)!.instruction).toContain('rich but realistic colors');
+    settings().setRestoration({ colorIntensity: 150 });
+    expect(settings().restoration).toEqual({ colorize: true, colorIntensity: 100 });
+    settings().setRestoration({ colorIntensity: 10 });
+    expect(presetService.find(RESTORE_PRESET)!.instruction).toContain('subtle, muted colors');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useProviderStore, DEFAULT_PROVIDER_PREFERENCES } from '../store/providerStore';
+import { useMemoryStore } from '../store/memoryStore';
+import { applyProbeReport, probeCapabilities, providerRegistry } from '../services/providers';
+
+const json = (status: number, body: object) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const invalidKey = json(400, {
+  error: {
+    code: 400,
+    message: 'API key not valid. Please pass a valid API key.',
+    status: 'INVALID_ARGUMENT',
+    details: [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID' }],
+  },
+});
+
+describe('key validation and capability probe', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useProviderStore.setState({ ...DEFAULT_PROVIDER_PREFERENCES, mockMode: false });
+    useMemoryStore.setState({ apiKey: null });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports which models the keys reach and turns the others off', async () => {
+    // VEO and Seedance are out of reach for these keys; everything else answers
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = String(input);
+      if (url.includes('veo-3.0-generate-preview')) return json(404, { error: { code: 404, status: 'NOT_FOUND' } });
+      if (url.includes('seedance')) return json(404, { title: 'Not found', status: 404 });
+      return json(200, { name: 'models/any' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const report = await probeCapabilities({ gemini: 'AIza-test', replicate: 'r8_test' });
+
+    expect(report.keys).toEqual({ gemini: 'valid', replicate: 'valid' });
+    const statuses = Object.fromEntries(report.capabilities.map((c) => [c.providerId, c.status]));
+    expect(statuses).toEqual({
+      'replicate-nano-banana': 'ok',
+      'gemini-flash-image': 'ok',
+      'gemini-flash': 'ok',
+      'replicate-seedance': 'unavailable',
+      'veo-3': 'unavailable',
+    });
+    // Token counts and metadata only, nothing generated
+    expect(
+      fetchMock.mock.calls.every(([input, init]) => String(input).includes(':countTokens') || !init?.method || init.method === 'GET')
+    ).toBe(true);
+    // Counting tokens needs the same access as generating; a metadata lookup does not
+    expect(fetchMock.mock.calls.some(([input]) => String(input).includes('gemini-2.5-flash:countTokens'))).toBe(true);
+
+    useMemoryStore.setState({ apiKey: 'AIza-test' });
+    applyProbeReport(report);
+    expect(useProviderStore.getState().disabled.sort()).toEqual(['replicate-seedance', 'veo-3']);
+    expect(providerRegistry.getChain('video')).toEqual([]);
+    expect(providerRegistry.getChain('enhance').map((p) => p.id)).toContain('gemini-flash-image');
+  });
+
+  it('does not vouch for VEO, which cannot be checked without generating', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json(200, { name: 'models/any', totalTokens: 1 })));
+
+    const report = await probeCapabilities({ gemini: 'AIza-test' });
+
+    expect(report.keys.gemini).toBe('valid');
+    expect(report.capabilities.find((c) => c.providerId === 'gemini-flash')?.status).toBe('ok');
+    expect(report.capabilities.find((c) => c.providerId === 'veo-3')?.status).toBe('unverified');
+
+    // Left as it was, neither switched on nor off
+    useProviderStore.setState({ disabled: ['veo-3'] });
+    applyProbeReport(report);
+    expect(useProviderStore.getState().disabled).toEqual(['veo-3']);
+  });
+
+  it('flags a rejected key and skips kinds without one', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => invalidKey.clone()));
+
+    const report = await probeCapabilities({ gemini: 'AIza-wrong' });
+
+    expect(report.keys).toEqual({ gemini: 'invalid', replicate: 'missing' });
+    expect(report.capabilities.find((c) => c.providerId === 'veo-3')?.status).toBe('invalid_key');
+    expect(report.capabilities.find((c) => c.providerId === 'replicate-seedance')?.status).toBe('no_key');
+
+    // A rejected key does not switch providers off; saving is refused instead
+    applyProbeReport(report);
+    expect(useProviderStore.getState().disabled).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useProxyStore, PROXY_CREDENTIAL } from '../store/proxyStore';
+import { useMemoryStore } from '../store/memoryStore';
+import { getCredential } from '../services/providers/credentials';
+import { replicateService } from '../services/replicateService';
+import { getGeminiBaseUrl, getReplicateApiBase, toGeminiFileUrl } from '../config/api';
+
+const jsonResponse = (body: object) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+
+describe('key server mode', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useMemoryStore.setState({ apiKey: 'AIza-browser-key' });
+    useProxyStore.setState({ url: 'http://localhost:8787', status: 'off', credentials: { gemini: false, replicate: false } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    useProxyStore.setState({ url: '', status: 'off', credentials: { gemini: false, replicate: false } });
+  });
+
+  it('learns from the health check which keys the server holds', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({ gemini: true, replicate: false })));
+
+    await useProxyStore.getState().check();
+
+    expect(fetch).toHaveBeenCalledWith('http://localhost:8787/health', expect.anything());
+    expect(useProxyStore.getState().status).toBe('online');
+    // Keys in the browser are ignored while the key server is used
+    expect(getCredential('gemini')).toBe(PROXY_CREDENTIAL);
+    expect(getCredential('replicate')).toBeNull();
+  });
+
+  it('marks an unreachable server offline', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await useProxyStore.getState().check();
+
+    expect(useProxyStore.getState().status).toBe('offline');
+    expect(getCredential('gemini')).toBeNull();
+  });
+
+  it('sends Replicate calls to the key server without a token', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ id: 'p1', status: 'succeeded', output: ['https://example.com/out.png'] }));
+    vi.stubGlobal('fetch', fetchMock);
+    replicateService.init(PROXY_CREDENTIAL);
+
+    await replicateService.enhanceImage('data:image/png;base64,');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/^http:\/\/localhost:8787\/replicate\/v1\//);
+    expect(init.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('routes Gemini requests and video downloads through the key server', () => {
+    expect(getGeminiBaseUrl()).toBe('http://localhost:8787/gemini');
+    expect(toGeminiFileUrl('https://generativelanguage.googleapis.com/v1beta/files/abc:download?alt=media')).toBe(
+      'http://localhost:8787/gemini/v1beta/files/abc:download?alt=media'
+    );
+
+    useProxyStore.getState().setUrl('');
+    expect(getReplicateApiBase()).toBe('/replicate/v1');
+    expect(toGeminiFileUrl('https://generativelanguage.googleapis.com/v1beta/files/abc')).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/files/abc'
+    );
+  });
+});
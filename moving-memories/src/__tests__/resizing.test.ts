@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { fitWithin, resizePixels } from '../utils/imageResizing';
+import { imageForUse } from '../utils/imageProcessing';
+import { useSettingsStore, getImageProcessingOptions } from '../store/settingsStore';
+import { replicateVideoProvider } from '../services/providers/replicateProviders';
+import { veoVideoProvider } from '../services/providers/geminiProviders';
+import { mockVideoProvider } from '../services/providers/mockProviders';
+
+const renditions = {
+  analysis: 'data:image/jpeg;base64,AA',
+  enhance: 'data:image/jpeg;base64,BB',
+  video: 'data:image/jpeg;base64,CC',
+};
+
+describe('photo renditions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useSettingsStore.getState().setQualitySettings({ maxImageSize: 1024, imageQuality: 0.9 });
+  });
+
+  it('scales photos down to fit, never up', () => {
+    expect(fitWithin(4032, 3024, 1024)).toEqual({ width: 1024, height: 768 });
+    expect(fitWithin(3024, 4032, 512)).toEqual({ width: 384, height: 512 });
+    expect(fitWithin(800, 600, 1024)).toEqual({ width: 800, height: 600 });
+    expect(fitWithin(10000, 10, 512)).toEqual({ width: 512, height: 1 });
+  });
+
+  it('resizes pixels with the Lanczos filter', async () => {
+    const pixels = new Uint8ClampedArray(8 * 6 * 4);
+    for (let i = 0; i < pixels.length; i += 4) pixels.set([200, 120, 40, 255], i);
+
+    const resized = await resizePixels(pixels, 8, 6, 4, 3);
+    expect(resized.length).toBe(4 * 3 * 4);
+    // A flat color stays the same color
+    expect([...resized.slice(0, 4)]).toEqual([200, 120, 40, 255]);
+    expect([...resized.slice(-4)]).toEqual([200, 120, 40, 255]);
+  });
+
+  it('sizes the video copy for the video providers in use', () => {
+    expect(getImageProcessingOptions([veoVideoProvider]).videoMaxWidthOrHeight).toBe(1280);
+    expect(getImageProcessingOptions([veoVideoProvider, replicateVideoProvider]).videoMaxWidthOrHeight).toBe(1920);
+    // Providers that do not say, and no providers at all, get the photo size setting
+    expect(getImageProcessingOptions([mockVideoProvider]).videoMaxWidthOrHeight).toBe(1024);
+    expect(getImageProcessingOptions()).toEqual({ maxWidthOrHeight: 1024, videoMaxWidthOrHeight: 1024, quality: 0.9 });
+  });
+
+  it('sends the matching copy unless the model made a new image', () => {
+    // Original kept, or the model sent it back unchanged
+    expect(imageForUse(renditions.enhance, renditions, 'analysis')).toBe(renditions.analysis);
+    expect(imageForUse(renditions.enhance, renditions, 'video')).toBe(renditions.video);
+    // Enhanced image: one size only
+    expect(imageForUse('data:image/png;base64,EE', renditions, 'video')).toBe('data:image/png;base64,EE');
+    expect(imageForUse('data:image/png;base64,EE', null, 'analysis')).toBe('data:image/png;base64,EE');
+    expect(imageForUse(null, renditions, 'video')).toBeNull();
+  });
+});
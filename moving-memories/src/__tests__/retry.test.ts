@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useSettingsStore, DEFAULT_WORKFLOW_SETTINGS } from '../store/settingsStore';
+import { replicateService } from '../services/replicateService';
+import { PipelineError } from '../utils/errors';
+import { TokenBucket, backoffDelay, withRetry } from '../utils/retry';
+import type { RetryInfo } from '../utils/retry';
+
+const transient = () => new PipelineError({ step: 'generate', code: 'server_error', status: 503 });
+
+describe('retries and rate limiting', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useSettingsStore.setState({
+      maxRetries: DEFAULT_WORKFLOW_SETTINGS.maxRetries,
+      requestsPerMinute: DEFAULT_WORKFLOW_SETTINGS.requestsPerMinute,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('backs off exponentially with jitter, capped, unless the server says when', () => {
+    expect(backoffDelay(0, undefined, 1000, 30000, () => 0)).toBe(500);
+    expect(backoffDelay(0, undefined, 1000, 30000, () => 1)).toBe(1000);
+    expect(backoffDelay(3, undefined, 1000, 30000, () => 1)).toBe(8000);
+    expect(backoffDelay(10, undefined, 1000, 30000, () => 1)).toBe(30000);
+    expect(backoffDelay(4, 17000)).toBe(17000);
+  });
+
+  it('retries transient failures only, up to the limit', async () => {
+    const retries: RetryInfo[] = [];
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        if (++calls < 3) throw transient();
+        return 'ok';
+      },
+      { retries: 3, baseDelayMs: 1, onRetry: (info) => retries.push(info) }
+    );
+    expect(result).toBe('ok');
+    expect(retries.map((info) => info.attempt)).toEqual([1, 2]);
+
+    const badKey = vi.fn(() => Promise.reject(new PipelineError({ step: 'enhance', code: 'invalid_key' })));
+    await expect(withRetry(badKey, { retries: 3, baseDelayMs: 1 })).rejects.toMatchObject({ code: 'invalid_key' });
+    expect(badKey).toHaveBeenCalledTimes(1);
+
+    const down = vi.fn(() => Promise.reject(transient()));
+    await expect(withRetry(down, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ code: 'server_error' });
+    expect(down).toHaveBeenCalledTimes(3);
+  });
+
+  it('spaces requests out once the per-minute budget is used', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(2);
+    await bucket.take();
+    await bucket.take();
+
+    let granted = false;
+    const third = bucket.take().then(() => (granted = true));
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(granted).toBe(true);
+  });
+
+  it('retries a Replicate request after Retry-After and reports it as status', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('{"title":"Service Unavailable","status":503}', { status: 503, headers: { 'Retry-After': '0' } })
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ id: 'p1', status: 'succeeded', output: ['https://example.com/out.png'] }))
+      );
+    vi.stubGlobal('fetch', fetchMock);
+    replicateService.init('r8_test');
+
+    const statuses: string[] = [];
+    const result = await replicateService.enhanceImage('data:image/png;base64,', undefined, undefined, (status) =>
+      statuses.push(status)
+    );
+
+    expect(result.imageUrl).toBe('https://example.com/out.png');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(statuses).toEqual(['Service busy, retrying in 0s (attempt 2 of 4)...']);
+  });
+
+  it('cancels a Replicate prediction whose create call returns after the run was cancelled', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi
+      .fn()
+      .mockImplementationOnce(async (_url: string, init: RequestInit) => {
+        // Cancelled while Replicate is creating the prediction
+        controller.abort();
+        if (init.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+        return new Response(JSON.stringify({ id: 'p1', status: 'starting' }));
+      })
+      .mockResolvedValueOnce(new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    replicateService.init('r8_test');
+
+    await expect(
+      replicateService.enhanceImage('data:image/png;base64,', undefined, controller.signal)
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toMatch(/\/predictions\/p1\/cancel$/);
+  });
+});
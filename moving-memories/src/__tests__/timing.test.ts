@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useProviderStore } from '../store/providerStore';
+import { useTimingStore, TIMINGS_PER_KEY } from '../store/timingStore';
+import { providerRegistry, applyVideoQuality, DEFAULT_VIDEO_OPTIONS } from '../services/providers';
+import type { VideoProvider } from '../services/providers';
+import { mockConfig } from '../services/providers/mockProviders';
+import { timingService, formatTimeRemaining } from '../services/timingService';
+
+describe('step timing and time estimates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+    useTimingStore.setState({ timings: [] });
+  });
+
+  it('records each successful stage run per provider and resolution', async () => {
+    // No resolution chosen: the quality setting picks the one sent, and that one is recorded
+    const optionsFor = (provider: VideoProvider) => applyVideoQuality(provider, DEFAULT_VIDEO_OPTIONS, 'high');
+    await providerRegistry.run(
+      'video',
+      (provider) =>
+        provider.generateVideo({ imageDataUrl: 'data:image/png;base64,AA', prompt: 'waves', options: optionsFor(provider) }),
+      { resolutionFor: (provider) => optionsFor(provider).resolution }
+    );
+
+    expect(useTimingStore.getState().timings).toMatchObject([
+      { stage: 'video', providerId: 'mock-video', resolution: '1080p' },
+    ]);
+  });
+
+  it('estimates from the median of earlier runs, closest match first', () => {
+    for (const durationMs of [40000, 90000, 50000]) timingService.record('video', 'veo-3', '720p', durationMs);
+    timingService.record('video', 'veo-3', '1080p', 120000);
+
+    expect(timingService.estimate('video', 'veo-3', '720p')).toBe(50000);
+    expect(timingService.estimate('video', 'veo-3', '1080p')).toBe(120000);
+    // No run at this resolution yet: any resolution of the same provider
+    expect(timingService.estimate('video', 'veo-3', '480p')).toBe(70000);
+    // Nothing recorded for the provider: the stage default
+    expect(timingService.estimate('video', 'replicate-seedance', '720p')).toBe(60000);
+
+    // Only the most recent runs are kept
+    for (let i = 0; i < TIMINGS_PER_KEY + 5; i++) timingService.record('enhance', 'gemini-flash-image', null, 1000);
+    expect(useTimingStore.getState().timings.filter((t) => t.stage === 'enhance')).toHaveLength(TIMINGS_PER_KEY);
+  });
+
+  it('turns elapsed time into progress, preferring what the provider reports', () => {
+    expect(timingService.progress(30000, 60000)).toEqual({ fraction: 0.45, remainingSeconds: 30 });
+
+    // Running long: the bar keeps creeping but never fills
+    const late = timingService.progress(180000, 60000);
+    expect(late.fraction).toBeGreaterThan(0.9);
+    expect(late.fraction).toBeLessThan(1);
+    expect(formatTimeRemaining(late.remainingSeconds)).toBe('Taking a little longer than usual');
+
+    // Reported 25% after 20s: about 60s to go
+    expect(timingService.progress(20000, 60000, 25)).toEqual({ fraction: 0.25, remainingSeconds: 60 });
+    expect(formatTimeRemaining(60)).toBe('About 1 min left');
+    expect(formatTimeRemaining(12.4)).toBe('About 12s left');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useUsageStore, DEFAULT_BUDGET, USAGE_RETENTION_DAYS } from '../store/usageStore';
+import { usageTracker } from '../services/usageTracker';
+import { DEFAULT_PRICES } from '../config/pricing';
+import { providerRegistry, DEFAULT_VIDEO_OPTIONS } from '../services/providers';
+import type { VideoProvider } from '../services/providers';
+import type { UsageRecord } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 8, 15, 12).getTime();
+
+const paid = (timestamp: number, cost: number): UsageRecord => ({
+  id: `${timestamp}`,
+  timestamp,
+  account: 'gemini',
+  model: 'veo-3.0-generate-preview',
+  step: 'generate',
+  durationMs: 60000,
+  videoSeconds: 8,
+  cost,
+});
+
+describe('usage tracking', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useUsageStore.setState({ records: [], prices: DEFAULT_PRICES, budget: DEFAULT_BUDGET });
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prices each call from the editable price table', () => {
+    useUsageStore.getState().setPrice('gemini-2.5-flash', { outputPerMillionTokens: 10 });
+
+    const record = usageTracker.record({
+      account: 'gemini',
+      model: 'gemini-2.5-flash',
+      step: 'prompt',
+      startedAt: NOW - 1500,
+      inputTokens: 2_000_000,
+      outputTokens: 100_000,
+    });
+
+    // 2M input at $0.30 plus 0.1M output at the edited $10
+    expect(record.cost).toBeCloseTo(1.6);
+    expect(record.durationMs).toBe(1500);
+    expect(useUsageStore.getState().records).toEqual([record]);
+
+    // A model without a price is recorded at no cost
+    expect(usageTracker.record({ account: 'replicate', model: 'someone/new-model', step: 'enhance', startedAt: NOW, imageCount: 1 }).cost).toBe(0);
+  });
+
+  it('sums spend per day and month and checks planned videos against the limits', () => {
+    useUsageStore.setState({
+      records: [paid(NOW - 40 * DAY, 50), paid(NOW - 3 * DAY, 4), paid(NOW - 60000, 2)],
+    });
+
+    expect(usageTracker.getSpend()).toEqual({ daily: 2, monthly: 6 });
+    expect(usageTracker.getDailySpend(4).map((day) => day.cost)).toEqual([4, 0, 0, 2]);
+    expect(usageTracker.getSpendByModel(NOW - DAY)).toMatchObject([{ model: 'veo-3.0-generate-preview', calls: 1, cost: 2 }]);
+
+    // VEO makes 8 second clips at $0.75 a second
+    const veo = providerRegistry.get('veo-3') as VideoProvider;
+    expect(usageTracker.estimateVideoCost(veo, DEFAULT_VIDEO_OPTIONS)).toBe(6);
+    expect(usageTracker.estimateVideoCost(undefined, DEFAULT_VIDEO_OPTIONS)).toBe(0);
+
+    // No limits set
+    expect(usageTracker.checkBudget(6)).toBeNull();
+
+    useUsageStore.getState().setBudget({ daily: 10, monthly: 10 });
+    expect(usageTracker.checkBudget(3)).toBeNull();
+    const overrun = usageTracker.checkBudget(6);
+    expect(overrun).toEqual({ period: 'monthly', limit: 10, spent: 6, estimate: 6 });
+    expect(usageTracker.describeOverrun(overrun!)).toBe(
+      "This video (about $6.00) would bring this month's spend to $12.00, over your monthly limit of $10.00."
+    );
+
+    useUsageStore.getState().setBudget({ daily: 5 });
+    expect(usageTracker.checkBudget(3.5)?.period).toBe('daily');
+  });
+
+  it('drops records older than the retention period', () => {
+    const old = paid(NOW - (USAGE_RETENTION_DAYS + 1) * DAY, 1);
+    const kept = paid(NOW - (USAGE_RETENTION_DAYS - 1) * DAY, 1);
+    useUsageStore.setState({ records: [old, kept] });
+
+    useUsageStore.getState().addRecord(paid(NOW, 1));
+
+    expect(useUsageStore.getState().records.map((r) => r.timestamp)).toEqual([kept.timestamp, NOW]);
+  });
+});
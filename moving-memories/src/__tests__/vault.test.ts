@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useVaultStore, DEFAULT_IDLE_MINUTES } from '../store/vaultStore';
+import { useMemoryStore } from '../store/memoryStore';
+import {
+  decryptCredentials,
+  encryptCredentials,
+  getCredential,
+  requireCredential,
+  saveCredentials,
+} from '../services/providers/credentials';
+import { geminiPromptProvider } from '../services/providers/geminiProviders';
+import { geminiService } from '../services/geminiService';
+import { veoService } from '../services/veoService';
+import { replicateService } from '../services/replicateService';
+import { WrongPassphraseError, createVault, openVault, watchIdle } from '../utils/vault';
+
+// Fast key derivation for tests; real vaults use PBKDF2_ITERATIONS
+const ITERATIONS = 1000;
+
+describe('passphrase key vault', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useMemoryStore.setState({ apiKey: null });
+    useVaultStore.setState({ record: null, secrets: null, key: null, idleMinutes: DEFAULT_IDLE_MINUTES });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('encrypts with AES-GCM and rejects a wrong passphrase', async () => {
+    const { record } = await createVault('correct horse', { gemini: 'AIza-secret' }, ITERATIONS);
+
+    expect(record.ciphertext).not.toContain('AIza');
+    expect(record.iterations).toBe(ITERATIONS);
+    await expect(openVault(record, 'correct horse')).resolves.toMatchObject({ secrets: { gemini: 'AIza-secret' } });
+    await expect(openVault(record, 'wrong horse')).rejects.toBeInstanceOf(WrongPassphraseError);
+
+    // A fresh IV every time, so equal secrets never give equal ciphertexts
+    const again = await createVault('correct horse', { gemini: 'AIza-secret' }, ITERATIONS);
+    expect(again.record.ciphertext).not.toBe(record.ciphertext);
+  });
+
+  it('moves plain text keys into the vault and only hands them out while unlocked', async () => {
+    await saveCredentials({ gemini: 'AIza-plain', replicate: 'r8_plain' });
+    expect(getCredential('replicate')).toBe('r8_plain');
+
+    await encryptCredentials('correct horse', { gemini: 'AIza-plain', replicate: 'r8_plain' }, ITERATIONS);
+
+    // Nothing readable is left in storage
+    const stored = Object.keys(localStorage).map((key) => localStorage.getItem(key)).join('\n');
+    expect(stored).not.toContain('AIza-plain');
+    expect(stored).not.toContain('r8_plain');
+    expect(useMemoryStore.getState().apiKey).toBeNull();
+    expect(getCredential('gemini')).toBe('AIza-plain');
+
+    useVaultStore.getState().lock();
+    expect(getCredential('gemini')).toBeNull();
+    expect(() => requireCredential('gemini', 'enhance')).toThrow(/locked/);
+
+    await useVaultStore.getState().unlock('correct horse');
+    expect(getCredential('replicate')).toBe('r8_plain');
+
+    // Changes are re-encrypted without asking for the passphrase again
+    await saveCredentials({ gemini: 'AIza-new' });
+    useVaultStore.getState().lock();
+    await useVaultStore.getState().unlock('correct horse');
+    expect(getCredential('gemini')).toBe('AIza-new');
+    expect(getCredential('replicate')).toBeNull();
+
+    await decryptCredentials();
+    expect(useVaultStore.getState().record).toBeNull();
+    expect(localStorage.getItem('GEMINI_API_KEY')).toBe('AIza-new');
+  });
+
+  it('takes the keys back from the services when it locks', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () =>
+      new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: 'The leaves sway gently' }] } }] }), {
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    await encryptCredentials('correct horse', { gemini: 'AIza-secret', replicate: 'r8_secret' }, ITERATIONS);
+    const input = { imageDataUrl: 'data:image/jpeg;base64,AA' };
+    await expect(geminiPromptProvider.generatePrompt(input)).resolves.toContain('leaves');
+
+    useVaultStore.getState().lock();
+    fetchMock.mockClear();
+
+    await expect(geminiPromptProvider.generatePrompt(input)).rejects.toThrow(/locked/);
+    // Jobs that were already running stop at their next request
+    await expect(geminiService.generateVideoPromptFromImage(input.imageDataUrl)).rejects.toMatchObject({ code: 'missing_key' });
+    await expect(veoService.resumeOperation('models/veo/operations/1')).rejects.toMatchObject({ code: 'missing_key' });
+    await expect(replicateService.generateVideo('The leaves sway', input.imageDataUrl)).rejects.toMatchObject({
+      code: 'missing_key',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fires once the user has been idle for the timeout', () => {
+    vi.useFakeTimers();
+    const onIdle = vi.fn();
+    const stop = watchIdle(60000, onIdle);
+
+    vi.advanceTimersByTime(50000);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(50000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10000);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+
+    stop();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useProviderStore } from '../store/providerStore';
+import {
+  providerRegistry,
+  DEFAULT_VIDEO_OPTIONS,
+  validateVideoOptions,
+  describeVideoOptions,
+  applyVideoQuality,
+} from '../services/providers';
+import type { VideoProvider, VideoGenerationOptions } from '../services/providers';
+import { mockConfig, mockVideoProvider, MOCK_MOTION_PROMPT } from '../services/providers/mockProviders';
+import { toVeoParameters } from '../services/veoService';
+
+const withOptions = (options: Partial<VideoGenerationOptions>): VideoGenerationOptions => ({
+  ...DEFAULT_VIDEO_OPTIONS,
+  ...options,
+});
+
+describe('video generation options', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockConfig.latencyMs = 0;
+    useProviderStore.setState({ mockMode: true, fallbackEnabled: true });
+  });
+
+  it('accepts the defaults on every built-in video provider', () => {
+    for (const provider of providerRegistry.list('video')) {
+      expect(validateVideoOptions(DEFAULT_VIDEO_OPTIONS, provider.capabilities)).toEqual([]);
+    }
+  });
+
+  it('reports what a provider cannot honour', () => {
+    const veo = providerRegistry.get('veo-3')!;
+    const problems = validateVideoOptions(
+      withOptions({ aspectRatio: '9:16', durationSeconds: 5, audio: false, personGeneration: 'allow_all' }),
+      veo.capabilities
+    );
+    expect(problems).toEqual([
+      'supports 16:9 only',
+      'makes 8s clips only',
+      'cannot enforce the people policy',
+      'always adds audio',
+    ]);
+
+    const seedance = providerRegistry.get('replicate-seedance')!;
+    expect(validateVideoOptions(withOptions({ negativePrompt: 'blur', seed: 42 }), seedance.capabilities)).toEqual([
+      'has no negative prompt',
+    ]);
+  });
+
+  it('maps only the options that are set onto VEO parameters', () => {
+    expect(toVeoParameters(DEFAULT_VIDEO_OPTIONS)).toEqual({ aspectRatio: '16:9' });
+    expect(
+      toVeoParameters(withOptions({ durationSeconds: 8, negativePrompt: ' blur ', seed: 7, audio: true }))
+    ).toEqual({ aspectRatio: '16:9', durationSeconds: 8, negativePrompt: 'blur', seed: 7, generateAudio: true });
+  });
+
+  it('skips providers that cannot make the requested video', async () => {
+    const squareOnly: VideoProvider = {
+      ...mockVideoProvider,
+      id: 'mock-square',
+      label: 'Square mock',
+      capabilities: { ...mockVideoProvider.capabilities, aspectRatios: ['1:1'] },
+    };
+    providerRegistry.register(squareOnly);
+    useProviderStore.getState().setProviderOrder('video', ['mock-square', 'mock-video']);
+
+    try {
+      const options = withOptions({ aspectRatio: '9:16', durationSeconds: 10 });
+      const { providerId, result } = await providerRegistry.run('video', (provider) =>
+        provider.generateVideo({ imageDataUrl: 'data:image/png;base64,', prompt: MOCK_MOTION_PROMPT, options })
+      );
+      expect(providerId).toBe('mock-video');
+      expect(result).toMatch(/^data:video\/mp4;base64,/);
+      expect(describeVideoOptions(options)).toBe('≈ 10s, 9:16');
+    } finally {
+      providerRegistry.unregister(squareOnly.id);
+      useProviderStore.getState().resetPreferences();
+    }
+  });
+
+  it('picks the resolution from the video quality setting when it is left to the provider', () => {
+    const veo = providerRegistry.get('veo-3') as VideoProvider;
+
+    expect(applyVideoQuality(mockVideoProvider, DEFAULT_VIDEO_OPTIONS, 'high').resolution).toBe('1080p');
+    expect(applyVideoQuality(mockVideoProvider, DEFAULT_VIDEO_OPTIONS, 'medium').resolution).toBe('720p');
+    // VEO renders 720p only: the best it has, or its lowest when asked for less
+    expect(applyVideoQuality(veo, DEFAULT_VIDEO_OPTIONS, 'high').resolution).toBe('720p');
+    expect(applyVideoQuality(veo, DEFAULT_VIDEO_OPTIONS, 'low').resolution).toBe('720p');
+    // An explicit choice wins
+    expect(applyVideoQuality(mockVideoProvider, withOptions({ resolution: '480p' }), 'high').resolution).toBe('480p');
+  });
+});
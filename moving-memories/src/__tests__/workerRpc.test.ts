@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WorkerClient } from '../utils/workerRpc';
+import type { WorkerRequest, WorkerResponse } from '../utils/workerRpc';
+
+// Stands in for a worker; replies are sent by hand from the test
+class FakeWorker {
+  onmessage: ((event: MessageEvent<WorkerResponse<number>>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  received: WorkerRequest<{ n: number }>[] = [];
+  terminate = vi.fn();
+
+  postMessage(request: WorkerRequest<{ n: number }>) {
+    this.received.push(request);
+  }
+
+  reply(response: WorkerResponse<number>) {
+    this.onmessage?.(new MessageEvent('message', { data: response }));
+  }
+}
+
+describe('worker client', () => {
+  beforeEach(() => {
+    // jsdom has no workers, which would make the client run everything inline
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const setup = () => {
+    const workers: FakeWorker[] = [];
+    const client = new WorkerClient<{ n: number }, number>({
+      createWorker: () => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker;
+      },
+      runInline: async ({ n }) => n,
+      task: 'Doubling',
+    });
+    return { client, workers };
+  };
+
+  it('matches replies to their requests by id', async () => {
+    const { client, workers } = setup();
+    const first = client.run({ n: 1 });
+    const second = client.run({ n: 2 });
+    expect(workers).toHaveLength(1);
+
+    const [a, b] = workers[0].received;
+    workers[0].reply({ id: b.id, result: b.payload.n * 2 });
+    workers[0].reply({ id: a.id, error: 'odd number' });
+
+    await expect(second).resolves.toBe(4);
+    await expect(first).rejects.toThrow('odd number');
+  });
+
+  it('fails everything in flight when the worker crashes and starts a new one next time', async () => {
+    const { client, workers } = setup();
+    const pending = client.run({ n: 1 });
+    workers[0].onerror?.(new ErrorEvent('error'));
+
+    await expect(pending).rejects.toThrow('Doubling worker failed');
+    expect(workers[0].terminate).toHaveBeenCalled();
+
+    client.run({ n: 3 });
+    expect(workers).toHaveLength(2);
+  });
+});
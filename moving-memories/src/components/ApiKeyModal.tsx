@@ -1,48 +1,121 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useMemoryStore } from '../store/memoryStore';
+import { useProxyStore } from '../store/proxyStore';
+import { useVaultStore } from '../store/vaultStore';
+import { ProviderSettings } from './ProviderSettings';
+import { WorkflowSettings } from './WorkflowSettings';
+import { GeneralSettings } from './GeneralSettings';
+import { VideoSettings } from './VideoSettings';
+import { KeyServerSettings } from './KeyServerSettings';
+import { VaultSettings } from './VaultSettings';
+import { BudgetSettings } from './BudgetSettings';
+import { PresetSettings } from './PresetSettings';
+import { CapabilityReport } from './CapabilityReport';
+import { clearCredentials, getCredential, getStoredCredentials, saveCredentials } from '../services/providers/credentials';
+import { applyProbeReport, probeCapabilities } from '../services/providers';
+import type { CredentialKind, ProbeReport } from '../services/providers';
+import { isMockMode } from '../store/providerStore';
+import { isAbortError } from '../utils/abort';
+
+const KEY_NAMES: Record<CredentialKind, string> = {
+  gemini: 'Gemini API key',
+  replicate: 'Replicate token',
+};
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
   required?: boolean;
+  // Open with the advanced section (providers, workflow, video) expanded
+  showAdvanced?: boolean;
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, required = false }) => {
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, required = false, showAdvanced = false }) => {
   const [geminiKey, setGeminiKey] = useState('');
   const [replicateToken, setReplicateToken] = useState('');
   const [showGeminiKey, setShowGeminiKey] = useState(false);
   const [showReplicateToken, setShowReplicateToken] = useState(false);
   const [showReplicateSetup, setShowReplicateSetup] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  // Live check of the keys and the models they reach
+  const [checking, setChecking] = useState(false);
+  const [report, setReport] = useState<ProbeReport | null>(null);
+  const [saved, setSaved] = useState(false);
+  const probeAbortRef = useRef<AbortController | null>(null);
 
-  const { apiKey, setApiKey } = useMemoryStore();
+  const apiKey = useMemoryStore((state) => state.apiKey);
+  // Refill the form when the vault is unlocked or locked
+  const vaultSecrets = useVaultStore((state) => state.secrets);
+  const hasVault = useVaultStore((state) => !!state.record);
+  // With a key server the keys below are optional
+  const proxyUrl = useProxyStore((state) => state.url);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validate Gemini key
-    if (!geminiKey.trim()) {
+    if (!geminiKey.trim() && !proxyUrl) {
       setValidationError('Please enter your Gemini API key');
       return;
     }
-    if (!geminiKey.startsWith('AIza')) {
+    if (geminiKey.trim() && !geminiKey.startsWith('AIza')) {
       setValidationError('Invalid Gemini API key format. Keys should start with "AIza"');
       return;
     }
-    
-    // Save Gemini key
-    setApiKey(geminiKey);
-    localStorage.setItem('GEMINI_API_KEY', geminiKey);
-    
-    // Save Replicate token if provided
-    if (replicateToken.trim()) {
-      if (!replicateToken.startsWith('r8_')) {
-        setValidationError('Invalid Replicate token format. Tokens should start with "r8_"');
+    if (replicateToken.trim() && !replicateToken.startsWith('r8_')) {
+      setValidationError('Invalid Replicate token format. Tokens should start with "r8_"');
+      return;
+    }
+
+    const secrets = { gemini: geminiKey.trim() || undefined, replicate: replicateToken.trim() || undefined };
+
+    // Check the keys live; the key server's own keys are checked through it
+    let probe: ProbeReport | null = null;
+    if (!isMockMode()) {
+      const controller = new AbortController();
+      probeAbortRef.current = controller;
+      setChecking(true);
+      setReport(null);
+      try {
+        probe = await probeCapabilities(
+          proxyUrl
+            ? { gemini: getCredential('gemini') ?? undefined, replicate: getCredential('replicate') ?? undefined }
+            : secrets,
+          controller.signal
+        );
+      } catch (err) {
+        if (!isAbortError(err)) setValidationError('Could not check the keys. Please try again.');
+        return;
+      } finally {
+        setChecking(false);
+      }
+      setReport(probe);
+
+      const rejected = (Object.keys(KEY_NAMES) as CredentialKind[]).filter((kind) => probe?.keys[kind] === 'invalid');
+      if (rejected.length > 0) {
+        setValidationError(`Your ${rejected.map((kind) => KEY_NAMES[kind]).join(' and ')} was rejected. Please check it.`);
         return;
       }
-      localStorage.setItem('REPLICATE_API_TOKEN', replicateToken);
     }
-    
+
+    // Save both keys (encrypted when the vault is used)
+    try {
+      await saveCredentials(secrets);
+    } catch (err) {
+      setValidationError(err instanceof Error ? err.message : 'Could not save the keys');
+      return;
+    }
+    if (probe) applyProbeReport(probe);
+
+    // Stay open when a model is out of reach so the user sees which and why
+    if (probe?.capabilities.some((capability) => capability.status === 'unavailable' || capability.status === 'error')) {
+      setSaved(true);
+      return;
+    }
+    finish();
+  };
+
+  const finish = () => {
     setGeminiKey('');
     setReplicateToken('');
     setShowReplicateSetup(false);
@@ -50,9 +123,9 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
   };
 
   const handleClearKeys = () => {
-    useMemoryStore.getState().clearApiKey();
-    localStorage.removeItem('GEMINI_API_KEY');
-    localStorage.removeItem('REPLICATE_API_TOKEN');
+    clearCredentials();
+    setReport(null);
+    setSaved(false);
     setGeminiKey('');
     setReplicateToken('');
     setValidationError(null);
@@ -62,18 +135,32 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
   useEffect(() => {
     if (isOpen) {
       // Load existing keys
-      const existingGeminiKey = apiKey || localStorage.getItem('GEMINI_API_KEY') || '';
-      const existingReplicateToken = localStorage.getItem('REPLICATE_API_TOKEN') || '';
+      const stored = getStoredCredentials();
+      const existingGeminiKey = stored.gemini || '';
+      const existingReplicateToken = stored.replicate || '';
       
       setGeminiKey(existingGeminiKey);
       setReplicateToken(existingReplicateToken);
       
-      // Show Replicate setup if token exists
-      if (existingReplicateToken) {
+      // Show Replicate setup if token exists or advanced settings were asked for
+      if (existingReplicateToken || showAdvanced) {
         setShowReplicateSetup(true);
       }
     }
-  }, [isOpen, apiKey]);
+  }, [isOpen, apiKey, vaultSecrets, showAdvanced]);
+
+  // Each opening starts without a previous check; closing stops a running one
+  useEffect(() => {
+    setReport(null);
+    setSaved(false);
+    return () => probeAbortRef.current?.abort();
+  }, [isOpen]);
+
+  const editKey = (update: () => void) => {
+    update();
+    setValidationError(null);
+    setSaved(false);
+  };
 
   if (!isOpen) return null;
 
@@ -83,24 +170,30 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
       <div className="relative w-full max-w-md rounded-lg border bg-white p-5">
         <div className="mb-4">
           <h2 className="text-base font-semibold">API Configuration</h2>
-          <p className="text-xs text-neutral-600">Your API keys are stored locally in your browser.</p>
+          <p className="text-xs text-neutral-600">
+            {proxyUrl
+              ? 'Requests go through your key server, which adds the API keys.'
+              : hasVault
+                ? 'Your API keys are encrypted with your passphrase.'
+                : 'Your API keys are stored locally in your browser.'}
+          </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Gemini API Key - Primary */}
           <div>
             <label htmlFor="gemini-key" className="mb-1 block text-xs font-medium">
-              Gemini API Key <span className="text-red-500">*</span>
+              Gemini API Key {proxyUrl ? '(Optional)' : <span className="text-red-500">*</span>}
             </label>
             <div className="relative">
               <input
                 id="gemini-key"
                 type={showGeminiKey ? 'text' : 'password'}
                 value={geminiKey}
-                onChange={(e) => { setGeminiKey(e.target.value); setValidationError(null); }}
-                placeholder="AIza..."
+                onChange={(e) => editKey(() => setGeminiKey(e.target.value))}
+                placeholder={proxyUrl ? 'Held by the key server' : 'AIza...'}
                 className="w-full rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
-                required
+                required={!proxyUrl}
               />
               <button 
                 type="button" 
@@ -156,7 +249,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
                   id="replicate-token"
                   type={showReplicateToken ? 'text' : 'password'}
                   value={replicateToken}
-                  onChange={(e) => { setReplicateToken(e.target.value); setValidationError(null); }}
+                  onChange={(e) => editKey(() => setReplicateToken(e.target.value))}
                   placeholder="r8_..."
                   className="w-full rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
                 />
@@ -176,9 +269,51 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
               >
                 Get a Replicate API token →
               </a>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Passphrase protection</p>
+                <VaultSettings secrets={{ gemini: geminiKey.trim() || undefined, replicate: replicateToken.trim() || undefined }} />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Key server</p>
+                <KeyServerSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Appearance and quality</p>
+                <GeneralSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Workflow</p>
+                <WorkflowSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Enhancement presets</p>
+                <PresetSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Video</p>
+                <VideoSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Spending limits</p>
+                <BudgetSettings />
+              </div>
+
+              <div className="mt-3 border-t pt-3">
+                <p className="mb-2 text-xs font-medium">Provider priority</p>
+                <ProviderSettings />
+              </div>
             </div>
           )}
 
+          {report && <CapabilityReport report={report} />}
+
           {validationError && (
             <div className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700">
               {validationError}
@@ -195,7 +330,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
                 Cancel
               </button>
             )}
-            {(geminiKey || replicateToken) && (
+            {(geminiKey || replicateToken || hasVault) && (
               <button 
                 type="button" 
                 onClick={handleClearKeys} 
@@ -204,12 +339,23 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, requi
                 Clear All
               </button>
             )}
-            <button 
-              type="submit" 
-              className="flex-1 rounded bg-neutral-900 px-3 py-2 text-sm text-white hover:bg-neutral-800"
-            >
-              Save Configuration
-            </button>
+            {saved ? (
+              <button
+                type="button"
+                onClick={finish}
+                className="flex-1 rounded bg-neutral-900 px-3 py-2 text-sm text-white hover:bg-neutral-800"
+              >
+                Done
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={checking}
+                className="flex-1 rounded bg-neutral-900 px-3 py-2 text-sm text-white hover:bg-neutral-800 disabled:opacity-50"
+              >
+                {checking ? 'Checking keys...' : 'Save Configuration'}
+              </button>
+            )}
           </div>
         </form>
       </div>
@@ -0,0 +1,214 @@
+import React from 'react';
+import { useBatchStore, MAX_BATCH_CONCURRENCY } from '../store/batchStore';
+import { batchQueue } from '../services/batchQueue';
+import { downloadFile } from '../utils/imageProcessing';
+import { getRecoveryActions } from '../utils/errors';
+import { ErrorRecovery } from './ErrorRecovery';
+import type { BatchJob, BatchJobStatus } from '../types';
+
+const ACTIVE_STATUSES: BatchJobStatus[] = ['queued', 'preparing', 'enhancing', 'prompting', 'generating'];
+
+// Browsers drop downloads that are triggered too quickly in a row
+const DOWNLOAD_INTERVAL_MS = 400;
+
+const baseName = (file: File) => file.name.replace(/\.[^.]+$/, '') || 'memory';
+
+const statusColor = (status: BatchJobStatus) => {
+  switch (status) {
+    case 'done':
+      return 'bg-green-500';
+    case 'failed':
+      return 'bg-red-500';
+    case 'cancelled':
+      return 'bg-gray-400';
+    default:
+      return 'bg-orange-500';
+  }
+};
+
+export const BatchComponent: React.FC = () => {
+  const { jobs, concurrency } = useBatchStore();
+
+  const finished = jobs.filter((job) => job.status === 'done');
+  const failed = jobs.filter((job) => job.status === 'failed' || job.status === 'cancelled');
+  const isRunning = jobs.some((job) => ACTIVE_STATUSES.includes(job.status));
+  const inProgress = jobs.filter((job) => job.status !== 'queued' && ACTIVE_STATUSES.includes(job.status)).length;
+  // Account-level problems (keys, quota, provider) usually fail the whole batch
+  const accountError = failed
+    .map((job) => job.error)
+    .find((error) => error && getRecoveryActions(error).some((a) => a === 'change_key' || a === 'switch_provider'));
+  const overallProgress = jobs.length
+    ? jobs.reduce((sum, job) => sum + (ACTIVE_STATUSES.includes(job.status) ? job.progress : 100), 0) / jobs.length
+    : 0;
+
+  const downloadAll = () => {
+    finished.forEach((job, index) => {
+      setTimeout(() => {
+        if (job.videoUrl) downloadFile(job.videoUrl, `${baseName(job.file)}-memory.mp4`);
+      }, index * DOWNLOAD_INTERVAL_MS);
+    });
+  };
+
+  const renderJob = (job: BatchJob) => {
+    const thumbnail = job.enhancedImageUrl ?? job.renditions?.analysis;
+    const canRetry = job.retryable && (job.status === 'failed' || job.status === 'cancelled');
+    const isActive = ACTIVE_STATUSES.includes(job.status);
+
+    return (
+      <li key={job.id} className="flex items-center gap-3 p-3">
+        <div className="h-12 w-12 flex-shrink-0 overflow-hidden rounded-lg bg-gray-100">
+          {thumbnail && <img src={thumbnail} alt={job.file.name} className="h-full w-full object-cover" />}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div className="flex justify-between gap-2 text-xs">
+            <span className="truncate font-medium text-gray-800">{job.file.name}</span>
+            <span className="flex-shrink-0 text-gray-500">
+              {job.statusMessage}
+              {job.attempts > 1 && ` · attempt ${job.attempts}`}
+            </span>
+          </div>
+          <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-gray-100">
+            <div
+              className={`h-full rounded-full transition-all duration-500 ${statusColor(job.status)}`}
+              style={{ width: `${isActive ? job.progress : 100}%` }}
+            />
+          </div>
+          {job.error && <p className="mt-1 truncate text-xs text-red-700">{job.error.message}</p>}
+        </div>
+
+        <div className="flex flex-shrink-0 gap-2 text-xs font-medium">
+          {isActive && (
+            <button onClick={() => batchQueue.cancel(job.id)} className="text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
+          {canRetry && (
+            <button onClick={() => batchQueue.retry(job.id)} className="text-orange-600 hover:text-orange-700">
+              Retry
+            </button>
+          )}
+          {job.status === 'done' && job.videoUrl && (
+            <button
+              onClick={() => downloadFile(job.videoUrl!, `${baseName(job.file)}-memory.mp4`)}
+              className="text-orange-600 hover:text-orange-700"
+            >
+              Download
+            </button>
+          )}
+          {!isActive && (
+            <button onClick={() => batchQueue.remove(job.id)} className="text-gray-400 hover:text-gray-600">
+              Remove
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-6">
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Batch of {jobs.length} photos</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {finished.length} done
+                {failed.length > 0 && ` · ${failed.length} need attention`}
+                {inProgress > 0 && ` · ${inProgress} in progress`}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              At a time
+              <select
+                value={concurrency}
+                onChange={(e) => batchQueue.setConcurrency(Number(e.target.value))}
+                className="rounded-lg border border-gray-200 bg-white px-2 py-1 text-sm text-gray-800"
+              >
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="mt-4 h-1 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-orange-500 rounded-full transition-all duration-500"
+              style={{ width: `${overallProgress}%` }}
+            />
+          </div>
+        </div>
+
+        {/* Jobs */}
+        <ul className="divide-y divide-gray-100">{jobs.map(renderJob)}</ul>
+      </div>
+
+      {!isRunning && accountError && (
+        <ErrorRecovery error={accountError} onRetry={() => batchQueue.retryAll()} retryLabel="Retry failed" compact />
+      )}
+
+      {/* Summary */}
+      {!isRunning && finished.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-6 space-y-4">
+          <div>
+            <h3 className="text-base font-semibold text-gray-900">Your moving memories</h3>
+            <p className="text-xs text-gray-500 mt-1">Also saved to your gallery in this browser</p>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {finished.map((job) => (
+              <video
+                key={job.id}
+                src={job.videoUrl!}
+                poster={job.enhancedImageUrl || undefined}
+                controls
+                loop
+                muted
+                className="w-full rounded-lg bg-black"
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap gap-3">
+        {finished.length > 0 && (
+          <button
+            onClick={downloadAll}
+            className="flex-1 px-4 py-3 bg-gradient-to-r from-orange-500 to-amber-500 text-white rounded-lg font-medium text-sm hover:from-orange-600 hover:to-amber-600 transition-all"
+          >
+            Download all ({finished.length})
+          </button>
+        )}
+        {failed.some((job) => job.retryable) && (
+          <button
+            onClick={() => batchQueue.retryAll()}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors"
+          >
+            Retry failed
+          </button>
+        )}
+        {isRunning ? (
+          <button
+            onClick={() => batchQueue.cancelAll()}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors"
+          >
+            Cancel all
+          </button>
+        ) : (
+          <button
+            onClick={() => batchQueue.clear()}
+            className="flex-1 px-4 py-3 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors"
+          >
+            New batch
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
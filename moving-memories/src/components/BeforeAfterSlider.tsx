@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  onLoad?: () => void;
+}
+
+const labelClass = 'pointer-events-none absolute bottom-3 rounded-full bg-black/50 px-2 py-0.5 text-xs font-medium text-white';
+
+/**
+ * The enhanced photo with the original showing left of a draggable divider
+ */
+export const BeforeAfterSlider: React.FC<BeforeAfterSliderProps> = ({ before, after, onLoad }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative select-none">
+      <img src={after} alt="Enhanced memory" className="w-full h-auto" draggable={false} onLoad={onLoad} />
+      <img
+        src={before}
+        alt="Original photo"
+        className="absolute inset-0 h-full w-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        draggable={false}
+      />
+
+      {/* Divider */}
+      <div className="pointer-events-none absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}>
+        <div className="absolute top-1/2 left-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-white text-xs text-gray-600 shadow">
+          ⇆
+        </div>
+      </div>
+
+      <span className={`${labelClass} left-3`}>Before</span>
+      <span className={`${labelClass} right-3`}>After</span>
+
+      {/* Invisible range input on top: drag anywhere, or use the arrow keys */}
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label="Compare the original and enhanced photo"
+        className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+      />
+    </div>
+  );
+};
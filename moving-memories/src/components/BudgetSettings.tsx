@@ -0,0 +1,56 @@
+import React from 'react';
+import { useUsageStore } from '../store/usageStore';
+import type { BudgetMode } from '../store/usageStore';
+import type { BudgetPeriod } from '../services/usageTracker';
+
+const LIMIT_LABELS: Record<BudgetPeriod, string> = {
+  daily: 'Daily limit ($)',
+  monthly: 'Monthly limit ($)',
+};
+
+const MODE_LABELS: Record<BudgetMode, string> = {
+  warn: 'Ask before going over',
+  block: 'Never go over',
+};
+
+export const BudgetSettings: React.FC = () => {
+  const { budget, setBudget } = useUsageStore();
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-neutral-500">
+        Checked with estimated prices before each video. Leave empty for no limit.
+      </p>
+
+      {(Object.keys(LIMIT_LABELS) as BudgetPeriod[]).map((period) => (
+        <label key={period} className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          {LIMIT_LABELS[period]}
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={budget[period] ?? ''}
+            placeholder="No limit"
+            onChange={(e) => setBudget({ [period]: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+            className="w-24 rounded border px-2 py-1 text-xs"
+          />
+        </label>
+      ))}
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        When a video would go over
+        <select
+          value={budget.mode}
+          onChange={(e) => setBudget({ mode: e.target.value as BudgetMode })}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {(Object.keys(MODE_LABELS) as BudgetMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
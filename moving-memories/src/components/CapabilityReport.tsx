@@ -0,0 +1,55 @@
+import React from 'react';
+import type { CapabilityStatus, CredentialKind, KeyStatus, ProbeReport } from '../services/providers';
+
+const KEY_LABELS: Record<CredentialKind, string> = {
+  gemini: 'Gemini API key',
+  replicate: 'Replicate token',
+};
+
+const KEY_STATUS: Record<KeyStatus, { text: string; className: string }> = {
+  missing: { text: 'not set', className: 'text-neutral-400' },
+  valid: { text: 'valid', className: 'text-green-700' },
+  invalid: { text: 'rejected', className: 'text-red-600' },
+  unknown: { text: 'could not be checked', className: 'text-amber-700' },
+};
+
+const CAPABILITY_STATUS: Record<CapabilityStatus, { icon: string; text: string; className: string }> = {
+  ok: { icon: '✓', text: 'available', className: 'text-green-700' },
+  unverified: { icon: '?', text: 'found, access checked on first use', className: 'text-amber-700' },
+  no_key: { icon: '–', text: 'no key', className: 'text-neutral-400' },
+  invalid_key: { icon: '✕', text: 'key rejected', className: 'text-red-600' },
+  unavailable: { icon: '✕', text: 'not available for this key, turned off', className: 'text-red-600' },
+  error: { icon: '?', text: 'could not be checked', className: 'text-amber-700' },
+};
+
+interface CapabilityReportProps {
+  report: ProbeReport;
+}
+
+export const CapabilityReport: React.FC<CapabilityReportProps> = ({ report }) => (
+  <div className="space-y-2 rounded border bg-neutral-50 p-2 text-xs">
+    <ul className="space-y-0.5">
+      {(Object.keys(KEY_LABELS) as CredentialKind[]).map((kind) => (
+        <li key={kind} className="flex justify-between gap-2">
+          <span className="font-medium">{KEY_LABELS[kind]}</span>
+          <span className={KEY_STATUS[report.keys[kind]].className}>{KEY_STATUS[report.keys[kind]].text}</span>
+        </li>
+      ))}
+    </ul>
+    <ul className="space-y-0.5 border-t pt-2">
+      {report.capabilities.map((capability) => {
+        const status = CAPABILITY_STATUS[capability.status];
+        return (
+          <li key={capability.providerId} className="flex justify-between gap-2" title={capability.message}>
+            <span className="text-neutral-700">
+              {capability.label} <span className="text-neutral-400">({capability.model})</span>
+            </span>
+            <span className={`shrink-0 ${status.className}`}>
+              {status.icon} {status.text}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
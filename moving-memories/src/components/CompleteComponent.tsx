@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useMemoryStore } from '../store/memoryStore';
+import { galleryService } from '../services/galleryService';
+import { StepNavigation } from './StepNavigation';
 
 export const CompleteComponent: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(true);
@@ -11,8 +13,33 @@ export const CompleteComponent: React.FC = () => {
     userNote,
     motionPrompt,
     resetWorkflow,
+    savedMemoryId,
+    setSavedMemoryId,
   } = useMemoryStore();
 
+  const [saveState, setSaveState] = useState<'saving' | 'saved' | 'error'>(savedMemoryId ? 'saved' : 'saving');
+  const saveStarted = useRef(false);
+
+  useEffect(() => {
+    // Keep every finished memory in the local gallery
+    if (videoUrl && !savedMemoryId && !saveStarted.current) {
+      saveStarted.current = true;
+      saveToGallery();
+    }
+  }, []);
+
+  const saveToGallery = async () => {
+    setSaveState('saving');
+    try {
+      const memory = await galleryService.saveFromState(useMemoryStore.getState());
+      setSavedMemoryId(memory.id);
+      setSaveState('saved');
+    } catch (error) {
+      console.error('[Gallery] Failed to save memory:', error);
+      setSaveState('error');
+    }
+  };
+
   const handleDownloadVideo = () => {
     if (videoUrl) {
       const a = document.createElement('a');
@@ -31,6 +58,18 @@ export const CompleteComponent: React.FC = () => {
     }
   };
 
+  // The photo exactly as it was uploaded, before any resizing or framing
+  const handleDownloadOriginal = () => {
+    if (originalImage) {
+      const url = URL.createObjectURL(originalImage);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = originalImage.name;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+  };
+
   const handleStartOver = () => {
     resetWorkflow();
   };
@@ -117,11 +156,35 @@ export const CompleteComponent: React.FC = () => {
               Download Photo
             </button>
           </div>
+          {originalImage && (
+            <button onClick={handleDownloadOriginal} className="w-full text-xs font-medium text-gray-500 hover:text-gray-700">
+              Download original photo
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Gallery status */}
+      <div className="text-center">
+        {saveState === 'saving' && (
+          <p className="text-xs text-gray-500">Saving to your gallery...</p>
+        )}
+        {saveState === 'saved' && (
+          <p className="text-xs text-green-600">✓ Saved to your gallery on this device</p>
+        )}
+        {saveState === 'error' && (
+          <p className="text-xs text-red-600">
+            Could not save to your gallery.{' '}
+            <button onClick={saveToGallery} className="font-medium underline">
+              Try again
+            </button>
+          </p>
+        )}
+      </div>
+
       {/* Actions */}
-      <div className="flex justify-center">
+      <div className="flex items-center justify-between">
+        <StepNavigation />
         <button
           onClick={handleStartOver}
           className="px-6 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg font-medium hover:from-purple-600 hover:to-pink-600 transition-all flex items-center gap-2"
@@ -139,7 +202,7 @@ export const CompleteComponent: React.FC = () => {
           Created with AI
         </p>
         <p className="text-xs text-gray-400">
-          Your memories are processed privately and not stored on our servers
+          Your memories are processed privately and only stored in this browser
         </p>
       </div>
     </div>
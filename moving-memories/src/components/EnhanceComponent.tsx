@@ -1,118 +1,183 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useMemoryStore } from '../store/memoryStore';
-import { geminiService } from '../services/geminiService';
-import { replicateService } from '../services/replicateService';
+import { useSettingsStore } from '../store/settingsStore';
+import { providerRegistry } from '../services/providers';
+import type { EnhanceProvider } from '../services/providers';
+import { timingService, formatTimeRemaining } from '../services/timingService';
+import { presetService, AUTO_PRESET, RESTORE_PRESET } from '../services/presetService';
+import type { ProgressWatch } from '../services/timingService';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { toPipelineError } from '../utils/errors';
+import { describePhotoDetails, describePhotoContext } from '../utils/exif';
+import { ErrorRecovery } from './ErrorRecovery';
+import { StepNavigation } from './StepNavigation';
+import { BeforeAfterSlider } from './BeforeAfterSlider';
+import { RestorationControls } from './RestorationControls';
+import type { EnhancementOption, ProcessingError } from '../types';
+
+const providerLabel = (providerId: string) => providerRegistry.get(providerId)?.label ?? providerId;
+
+const optionClass = (selected: boolean) =>
+  `rounded-lg border p-1.5 text-left transition-colors ${
+    selected ? 'border-orange-400 ring-2 ring-orange-200' : 'border-gray-200 hover:border-gray-300'
+  }`;
 
 export const EnhanceComponent: React.FC = () => {
   const [isEnhancing, setIsEnhancing] = useState(false);
-  const [enhanceError, setEnhanceError] = useState<string | null>(null);
-  const [userNote, setUserNote] = useState('');
+  const [enhanceError, setEnhanceError] = useState<ProcessingError | null>(null);
+  // Coming back to this step keeps the note written earlier
+  const [userNote, setUserNote] = useState(() => useMemoryStore.getState().userNote);
   const [enhanceProgress, setEnhanceProgress] = useState(0);
+  // Retry and rate-limit notes while the request is in flight
+  const [enhanceStatus, setEnhanceStatus] = useState('');
   const [imageLoaded, setImageLoaded] = useState(false);
-  const enhancementStarted = useRef(false);
-  const autoAdvanceTimer = useRef<number | null>(null);
-  const hasEnhanced = useRef(false);
+  const [isCancelled, setIsCancelled] = useState(false);
+  // Enhancers that failed while others were compared
+  const [failedEnhancers, setFailedEnhancers] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const watchRef = useRef<ProgressWatch | null>(null);
 
   const {
     originalImageDataUrl,
-    setEnhancedImage,
+    renditions,
     enhancedImageUrl,
-    setCurrentStep,
+    enhancementOptions,
+    setEnhancementOptions,
+    chooseEnhancement,
+    appliedPreset,
+    setAppliedPreset,
+    photoMetadata,
     setUserNote: storeUserNote,
+    estimatedTimeRemaining,
+    setEstimatedTime,
   } = useMemoryStore();
+  const { usePhotoDetails, setUsePhotoDetails } = useSettingsStore();
 
+  // Nothing starts on its own: the user can write a note first, and credits
+  // are only spent once they press Enhance photo
   useEffect(() => {
-    // Start enhancement automatically when component mounts
-    // Use ref to prevent double execution in React StrictMode
-    if (originalImageDataUrl && !enhancedImageUrl && !enhancementStarted.current) {
-      enhancementStarted.current = true;
-      // Clear local user note state for new image
-      setUserNote('');
-      storeUserNote('');
-      startEnhancement();
-    }
-    
-    // Cleanup timer on unmount
+    // Cleanup timers and in-flight requests on unmount
     return () => {
-      if (autoAdvanceTimer.current) {
-        clearTimeout(autoAdvanceTimer.current);
-      }
+      watchRef.current?.stop();
+      abortRef.current?.abort();
+      abortRef.current = null;
     };
   }, []);
 
-  const startEnhancement = async () => {
+  // presetId overrides the preset setting for this photo
+  const startEnhancement = async (presetId?: string) => {
     if (!originalImageDataUrl) return;
 
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     setIsEnhancing(true);
+    setIsCancelled(false);
     setEnhanceError(null);
     setEnhanceProgress(0);
+    setEnhanceStatus('');
+    setFailedEnhancers([]);
+
+    // Fill the bar over the time the provider usually takes
+    const startWatch = (expectedMs: number) => {
+      watchRef.current?.stop();
+      watchRef.current = timingService.watch(expectedMs, ({ fraction, remainingSeconds }) => {
+        setEnhanceProgress(fraction * 100);
+        setEstimatedTime(remainingSeconds);
+      });
+    };
+    const stopWatch = () => {
+      watchRef.current?.stop();
+      watchRef.current = null;
+      setEstimatedTime(null);
+    };
 
-    // Simulate progress for better UX
-    const progressInterval = setInterval(() => {
-      setEnhanceProgress(prev => Math.min(prev + 10, 90));
-    }, 400);
+    const available = providerRegistry.listAvailable('enhance');
+    const compare = useSettingsStore.getState().compareEnhancers && available.length > 1;
 
     try {
-      // Try Replicate first if token is available (same token used for video)
-      const replicateToken = localStorage.getItem('REPLICATE_API_TOKEN');
-      
-      let enhancedImageUrl: string;
-      let caption: string;
-      
-      if (replicateToken) {
-        try {
-          console.log('[Enhancement] Using Replicate Nano Banana with existing token...');
-          replicateService.init(replicateToken);
-          const replicateResult = await replicateService.enhanceImage(originalImageDataUrl);
-          enhancedImageUrl = replicateResult.imageUrl;
-          caption = replicateResult.caption || 'Enhanced with AI';
-          console.log('[Enhancement] Replicate successful!');
-        } catch (replicateError) {
-          console.error('[Enhancement] Replicate failed, falling back to Gemini:', replicateError);
-          // Fall back to Gemini (which might not actually enhance)
-          const base64 = originalImageDataUrl.split(',')[1];
-          const mimeType = originalImageDataUrl.match(/data:([^;]+)/)?.[1] || 'image/jpeg';
-          const geminiResult = await geminiService.enhanceImage(base64, mimeType);
-          enhancedImageUrl = geminiResult.images[0];
-          caption = geminiResult.caption;
-        }
+      // Pick the preset first so every enhancer gets the same instruction
+      setEnhanceStatus('Looking at your photo...');
+      const preset = await presetService.resolve(renditions?.analysis ?? originalImageDataUrl, { presetId, signal });
+      throwIfAborted(signal);
+      setEnhanceStatus('');
+      setAppliedPreset(preset);
+
+      const instruction = preset ? presetService.find(preset.presetId)?.instruction : undefined;
+      const userNote = useMemoryStore.getState().userNote;
+      const enhance = (provider: EnhanceProvider) =>
+        provider.enhance({ imageDataUrl: originalImageDataUrl, userNote, instruction, signal, onProgress: setEnhanceStatus });
+
+      let options: Omit<EnhancementOption, 'chosen'>[];
+      if (compare) {
+        // All enhancers at once; the bar follows the slowest
+        startWatch(Math.max(...available.map((provider) => timingService.estimate('enhance', provider.id))));
+        const outcomes = await providerRegistry.runAll('enhance', enhance, { signal });
+        throwIfAborted(signal);
+        options = outcomes.flatMap((outcome) => (outcome.error ? [] : [{ ...outcome.result, providerId: outcome.providerId }]));
+        if (options.length === 0) throw outcomes[0].error;
+        setFailedEnhancers(outcomes.filter((outcome) => outcome.error).map((outcome) => providerLabel(outcome.providerId)));
       } else {
-        // No Replicate token, use Gemini (might just return original)
-        console.log('[Enhancement] No Replicate token, using Gemini (may not enhance)...');
-        const base64 = originalImageDataUrl.split(',')[1];
-        const mimeType = originalImageDataUrl.match(/data:([^;]+)/)?.[1] || 'image/jpeg';
-        const geminiResult = await geminiService.enhanceImage(base64, mimeType);
-        enhancedImageUrl = geminiResult.images[0];
-        caption = geminiResult.caption;
+        // Walk the user's enhance provider chain, falling back on failure
+        const { result, providerId } = await providerRegistry.run('enhance', enhance, {
+          onAttempt: (provider) => startWatch(timingService.estimate('enhance', provider.id)),
+          signal,
+        });
+        throwIfAborted(signal);
+        options = [{ ...result, providerId }];
       }
-      
-      clearInterval(progressInterval);
+
+      stopWatch();
       setEnhanceProgress(100);
+      setImageLoaded(false); // Reset for the new image to load
 
-      // Use the enhanced image
-      if (enhancedImageUrl) {
-        setImageLoaded(false); // Reset for the new image to load
-        setEnhancedImage(enhancedImageUrl, caption);
-        hasEnhanced.current = true;
-
-        // Start auto-advance timer (3.5 seconds to see the animation)
-        if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current);
-        autoAdvanceTimer.current = window.setTimeout(() => {
-          setCurrentStep('generate');
-        }, 3500);
-      } else {
-        throw new Error('No enhanced image was generated');
-      }
+      // Start from the first result that actually changed the photo
+      setEnhancementOptions(options);
+      const preferred = options.findIndex((option) => option.enhanced);
+      chooseEnhancement(preferred === -1 ? 0 : preferred);
+      setIsEnhancing(false);
     } catch (error) {
-      clearInterval(progressInterval);
+      // A newer run or an unmount replaced this one; nothing to report
+      if (abortRef.current !== controller) return;
+
+      stopWatch();
       setEnhanceProgress(0);
-      setEnhanceError(error instanceof Error ? error.message : 'Enhancement failed');
       setIsEnhancing(false);
+      if (isAbortError(error)) {
+        setIsCancelled(true);
+        return;
+      }
+      setEnhanceError(toPipelineError('enhance', error));
     }
   };
 
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // A preset picked for this photo sticks; a detected one is detected again
+  const photoDetails = describePhotoDetails(photoMetadata);
+  const photoContext = describePhotoContext(photoMetadata);
+
+  const chosenPresetId = appliedPreset && !appliedPreset.detected ? appliedPreset.presetId : AUTO_PRESET;
+  const detectedPreset = appliedPreset?.detected ? presetService.find(appliedPreset.presetId) : undefined;
+
   const retry = () => {
-    startEnhancement();
+    startEnhancement(chosenPresetId);
+  };
+
+  const chosenOption = enhancementOptions.find((option) => option.chosen);
+  const keptOriginal = enhancementOptions.length > 0 && !chosenOption;
+  // The model answered without an image, so the "enhanced" photo is the upload itself
+  const notEnhanced = !!chosenOption && !chosenOption.enhanced;
+  const showComparison =
+    !isEnhancing && !!enhancedImageUrl && !!originalImageDataUrl && enhancedImageUrl !== originalImageDataUrl;
+  const onEnhancedLoad = () => {
+    if (enhancedImageUrl && !imageLoaded) {
+      setTimeout(() => setImageLoaded(true), 100);
+    }
   };
 
   return (
@@ -121,7 +186,7 @@ export const EnhanceComponent: React.FC = () => {
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         {/* Header */}
         <div className="p-6 border-b border-gray-100">
-          <h2 className="text-xl font-semibold text-gray-800">Enhancing your photo</h2>
+          <h2 className="text-xl font-semibold text-gray-800">Enhance your photo</h2>
           <p className="text-sm text-gray-600 mt-1">
             Subtle adjustments for a warmer, clearer memory
           </p>
@@ -130,8 +195,15 @@ export const EnhanceComponent: React.FC = () => {
         {/* Image Display */}
         <div className="p-6">
           <div className="relative rounded-xl overflow-hidden bg-gray-50">
-            {/* Display original or enhanced image */}
-            {(enhancedImageUrl || originalImageDataUrl) && (
+            {/* Before/after once there is an enhanced version, else the photo itself */}
+            {showComparison ? (
+              <BeforeAfterSlider
+                key={enhancedImageUrl}
+                before={originalImageDataUrl}
+                after={enhancedImageUrl}
+                onLoad={onEnhancedLoad}
+              />
+            ) : (enhancedImageUrl || originalImageDataUrl) && (
               <div className="relative">
                 <img
                   key={enhancedImageUrl || originalImageDataUrl || ''}
@@ -142,35 +214,41 @@ export const EnhanceComponent: React.FC = () => {
                       ? 'scale-100 brightness-100 contrast-100' 
                       : 'scale-[1.02] brightness-95'
                   }`}
-                  onLoad={() => {
-                    if (enhancedImageUrl && !imageLoaded) {
-                      setTimeout(() => setImageLoaded(true), 100);
-                    }
-                  }}
+                  onLoad={onEnhancedLoad}
                 />
               </div>
             )}
             
             {/* Enhancement overlay */}
-            {isEnhancing && !enhancedImageUrl && (
+            {isEnhancing && (
               <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent flex items-center justify-center">
                 <div className="text-center">
                   <div className="mb-4">
                     <div className="h-12 w-12 mx-auto rounded-full border-2 border-white border-t-transparent animate-spin" />
                   </div>
                   <p className="text-white text-sm font-medium">Enhancing...</p>
+                  {enhanceStatus && <p className="mt-1 text-white/80 text-xs">{enhanceStatus}</p>}
+                  {!enhanceStatus && estimatedTimeRemaining !== null && (
+                    <p className="mt-1 text-white/80 text-xs">{formatTimeRemaining(estimatedTimeRemaining)}</p>
+                  )}
                   <div className="mt-2 w-32 h-1 bg-white/30 rounded-full mx-auto overflow-hidden">
                     <div 
                       className="h-full bg-white rounded-full transition-all duration-300"
                       style={{ width: `${enhanceProgress}%` }}
                     />
                   </div>
+                  <button
+                    onClick={cancel}
+                    className="mt-3 rounded-full bg-white/20 px-3 py-1 text-xs font-medium text-white hover:bg-white/30"
+                  >
+                    Cancel
+                  </button>
                 </div>
               </div>
             )}
 
             {/* Success overlay - simpler animation */}
-            {enhancedImageUrl && imageLoaded && (
+            {enhancedImageUrl && imageLoaded && !isEnhancing && !notEnhanced && !keptOriginal && (
               <div className="absolute inset-0 pointer-events-none">
                 {/* Simple sparkle effect */}
                 <div className="absolute inset-0 animate-pulse">
@@ -188,9 +266,60 @@ export const EnhanceComponent: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {/* Unchanged photo: the model returned nothing, or the original was kept */}
+            {(notEnhanced || keptOriginal) && !isEnhancing && (
+              <div
+                className={`absolute top-4 right-4 px-3 py-1.5 rounded-full text-sm font-medium text-white ${
+                  notEnhanced ? 'bg-amber-500' : 'bg-gray-600'
+                }`}
+              >
+                {notEnhanced ? 'Not enhanced' : 'Original'}
+              </div>
+            )}
           </div>
+
+          {notEnhanced && !isEnhancing && (
+            <p className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              {providerLabel(chosenOption.providerId)} returned no new image, so this is your original photo. Enhance
+              again, pick another version or continue with it as it is.
+            </p>
+          )}
         </div>
 
+        {/* Pick an enhanced version, or keep the original */}
+        {enhancementOptions.length > 0 && !isEnhancing && (
+          <div className="px-6 pb-6">
+            <p className="mb-2 text-sm font-medium text-gray-700">Choose a version</p>
+            <div className="grid grid-cols-3 gap-3">
+              {enhancementOptions.map((option, i) => (
+                <button key={option.providerId} onClick={() => chooseEnhancement(i)} className={optionClass(option.chosen)}>
+                  <img
+                    src={option.imageUrl}
+                    alt={providerLabel(option.providerId)}
+                    className="aspect-square w-full rounded object-cover"
+                  />
+                  <span className="mt-1 block truncate text-xs font-medium text-gray-700">
+                    {providerLabel(option.providerId)}
+                  </span>
+                  {!option.enhanced && <span className="block text-xs text-amber-600">Not enhanced</span>}
+                </button>
+              ))}
+              <button onClick={() => chooseEnhancement(null)} className={optionClass(keptOriginal)}>
+                <img
+                  src={originalImageDataUrl || ''}
+                  alt="Original photo"
+                  className="aspect-square w-full rounded object-cover"
+                />
+                <span className="mt-1 block text-xs font-medium text-gray-700">Keep original</span>
+              </button>
+            </div>
+            {failedEnhancers.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">{failedEnhancers.join(', ')} could not enhance this photo.</p>
+            )}
+          </div>
+        )}
+
         {/* User Note Input */}
         <div className="px-6 pb-6">
           <div className="space-y-2">
@@ -203,14 +332,6 @@ export const EnhanceComponent: React.FC = () => {
                 setUserNote(e.target.value);
                 // Also store in the global store for motion prompt generation
                 storeUserNote(e.target.value);
-                
-                // If enhancement is done, reset the auto-advance timer on each keystroke
-                if (hasEnhanced.current) {
-                  if (autoAdvanceTimer.current) clearTimeout(autoAdvanceTimer.current);
-                  autoAdvanceTimer.current = window.setTimeout(() => {
-                    setCurrentStep('generate');
-                  }, 2000);
-                }
               }}
               placeholder="Share what makes this moment special..."
               className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent placeholder:text-gray-300"
@@ -221,24 +342,105 @@ export const EnhanceComponent: React.FC = () => {
               <span className="text-xs text-gray-400">{userNote.length}/200</span>
             </div>
           </div>
+
+          {/* Details read from the photo file, offered to the prompt writer */}
+          {photoDetails.length > 0 && (
+            <div className="mt-2 rounded-lg bg-gray-50 p-3">
+              <p className="text-xs text-gray-500">{photoDetails.join(' · ')}</p>
+              {photoContext && (
+                <label className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={usePhotoDetails}
+                    onChange={(e) => setUsePhotoDetails(e.target.checked)}
+                  />
+                  Mention "{photoContext}" when describing the motion
+                </label>
+              )}
+            </div>
+          )}
         </div>
 
-        {/* Error state */}
-        {enhanceError && (
+        {/* First run, started by the user */}
+        {!enhancedImageUrl && !isEnhancing && !isCancelled && !enhanceError && (
           <div className="px-6 pb-6">
-            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
-              <p className="text-sm text-red-700">{enhanceError}</p>
+            <button
+              onClick={() => startEnhancement()}
+              disabled={!originalImageDataUrl}
+              className="w-full rounded-lg bg-gradient-to-r from-orange-500 to-amber-500 px-4 py-2 text-sm font-medium text-white hover:from-orange-600 hover:to-amber-600 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Enhance photo
+            </button>
+          </div>
+        )}
+
+        {/* Redo the enhancement, optionally with another preset, without uploading again */}
+        {enhancedImageUrl && !isEnhancing && (
+          <div className="px-6 pb-6 flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Style
+              <select
+                value={chosenPresetId}
+                onChange={(e) => startEnhancement(e.target.value)}
+                className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+              >
+                <option value={AUTO_PRESET}>{detectedPreset ? `Automatic (${detectedPreset.label})` : 'Automatic'}</option>
+                {presetService.list().map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={retry}
+              className="text-sm font-medium text-gray-500 hover:text-gray-700"
+            >
+              Enhance again
+            </button>
+          </div>
+        )}
+
+        {/* Restoration: explain the suggestion and offer colorization */}
+        {appliedPreset?.presetId === RESTORE_PRESET && enhancedImageUrl && !isEnhancing && (
+          <div className="px-6 pb-6">
+            <div className="space-y-2 rounded-lg border border-amber-100 bg-amber-50 p-3">
+              {appliedPreset.detected && (
+                <p className="text-xs text-gray-600">
+                  This looks like an old black-and-white or sepia photo, so it was restored instead of modernized.
+                  Pick another style to enhance it like a recent photo.
+                </p>
+              )}
+              <RestorationControls />
+              <p className="text-xs text-gray-500">Press Enhance again to apply color changes.</p>
+            </div>
+          </div>
+        )}
+
+        {/* Cancelled state */}
+        {isCancelled && (
+          <div className="px-6 pb-6">
+            <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+              <p className="text-sm text-gray-700">Enhancement was cancelled.</p>
               <button
                 onClick={retry}
-                className="mt-2 text-sm font-medium text-red-700 hover:text-red-800"
+                className="mt-2 text-sm font-medium text-gray-700 hover:text-gray-900"
               >
-                Try again →
+                Start again →
               </button>
             </div>
           </div>
         )}
+
+        {/* Error state */}
+        {enhanceError && (
+          <div className="px-6 pb-6">
+            <ErrorRecovery error={enhanceError} onRetry={retry} />
+          </div>
+        )}
       </div>
 
+      <StepNavigation busy={isEnhancing} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+import React from 'react';
+import { useMemoryStore } from '../store/memoryStore';
+import { useUiStore } from '../store/uiStore';
+import { providerRegistry } from '../services/providers';
+import { getRecoveryActions } from '../utils/errors';
+import type { RecoveryAction } from '../utils/errors';
+import type { ProcessingError } from '../types';
+
+interface ErrorRecoveryProps {
+  error: ProcessingError;
+  onRetry?: () => void;
+  retryLabel?: string;
+  compact?: boolean;
+}
+
+const retryHint = (error: ProcessingError) =>
+  error.retryAfterMs
+    ? `Wait about ${Math.ceil(error.retryAfterMs / 1000)}s before trying again.`
+    : 'Wait a minute before trying again.';
+
+/**
+ * Error message with the recovery actions that fit its code
+ */
+export const ErrorRecovery: React.FC<ErrorRecoveryProps> = ({
+  error,
+  onRetry,
+  retryLabel = 'Try again',
+  compact = false,
+}) => {
+  const resetWorkflow = useMemoryStore((state) => state.resetWorkflow);
+  const openSettings = useUiStore((state) => state.openSettings);
+
+  const actions = getRecoveryActions(error).filter(
+    (action) => (action !== 'retry' && action !== 'retry_later') || onRetry
+  );
+  const provider = error.providerId ? providerRegistry.get(error.providerId) : undefined;
+  const textSize = compact ? 'text-xs' : 'text-sm';
+  const buttonClass = `${textSize} font-medium text-red-700 hover:text-red-800`;
+
+  const renderAction = (action: RecoveryAction) => {
+    switch (action) {
+      case 'change_key':
+        return (
+          <button key={action} onClick={() => openSettings()} className={buttonClass}>
+            Update API key →
+          </button>
+        );
+      case 'retry':
+      case 'retry_later':
+        return (
+          <button key={action} onClick={onRetry} className={buttonClass}>
+            {retryLabel} →
+          </button>
+        );
+      case 'different_image':
+        return (
+          <button key={action} onClick={resetWorkflow} className={buttonClass}>
+            Use a different photo →
+          </button>
+        );
+      case 'switch_provider':
+        return (
+          <button key={action} onClick={() => openSettings(true)} className={buttonClass}>
+            Change provider →
+          </button>
+        );
+      case 'adjust_budget':
+        return (
+          <button key={action} onClick={() => openSettings(true)} className={buttonClass}>
+            Change spending limit →
+          </button>
+        );
+    }
+  };
+
+  return (
+    <div className={`rounded-lg border border-red-200 bg-red-50 ${compact ? 'p-3' : 'p-4'}`}>
+      <p className={`${textSize} text-red-700`}>{error.message}</p>
+      {actions.includes('retry_later') && <p className="mt-1 text-xs text-red-600">{retryHint(error)}</p>}
+      {provider && (
+        <p className="mt-1 text-xs text-red-500">
+          {provider.label}
+          {error.status && ` · HTTP ${error.status}`}
+        </p>
+      )}
+      {actions.length > 0 && <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">{actions.map(renderAction)}</div>}
+    </div>
+  );
+};
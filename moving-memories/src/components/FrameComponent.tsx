@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useMemoryStore } from '../store/memoryStore';
+import { useSettingsStore, getImageProcessingOptions } from '../store/settingsStore';
+import { providerRegistry } from '../services/providers';
+import type { VideoAspectRatio } from '../services/providers';
+import { OUTPAINT_INSTRUCTION } from '../config/prompts';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { toPipelineError } from '../utils/errors';
+import { createImageRenditions } from '../utils/imageProcessing';
+import {
+  FRAME_ASPECT_RATIOS,
+  CENTER,
+  aspectValue,
+  closestAspectRatio,
+  cropForAspect,
+  findFocusPoint,
+  getImageSize,
+  renderCrop,
+  renderExtendCanvas,
+} from '../utils/framing';
+import type { FocusPoint } from '../utils/framing';
+import { ErrorRecovery } from './ErrorRecovery';
+import { StepNavigation } from './StepNavigation';
+import type { CropRect, PhotoFraming, ProcessingError } from '../types';
+
+const MAX_ZOOM = 3;
+
+// Rounded so the same framing compares equal after a round trip
+const round = (crop: CropRect): CropRect => ({
+  x: Number(crop.x.toFixed(4)),
+  y: Number(crop.y.toFixed(4)),
+  width: Number(crop.width.toFixed(4)),
+  height: Number(crop.height.toFixed(4)),
+});
+
+const choiceClass = (selected: boolean) =>
+  `rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors ${
+    selected ? 'border-orange-400 bg-orange-50 text-orange-700' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+  }`;
+
+/**
+ * Fit the uploaded photo to the video's shape: crop it, or let the image model
+ * extend it. The framed photo is what gets enhanced and animated.
+ */
+export const FrameComponent: React.FC = () => {
+  const { uploadedImageDataUrl, originalImageDataUrl, framing, setFramedImage } = useMemoryStore();
+  const imageQuality = useSettingsStore((state) => state.qualitySettings.imageQuality);
+
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio | null>(framing?.aspectRatio ?? null);
+  const [mode, setMode] = useState<PhotoFraming['mode']>(framing?.mode ?? 'crop');
+  const [focus, setFocus] = useState<FocusPoint>(CENTER);
+  const [smartFocus, setSmartFocus] = useState<FocusPoint>(CENTER);
+  const [zoom, setZoom] = useState(1);
+  const [isExtending, setIsExtending] = useState(false);
+  const [status, setStatus] = useState('');
+  const [frameError, setFrameError] = useState<ProcessingError | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const dragRef = useRef<{ x: number; y: number; focus: FocusPoint } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  // Video providers in the user's order, to match the shapes they can make
+  const videoProviders = providerRegistry.getChain('video');
+  const supports = (ratio: VideoAspectRatio) =>
+    videoProviders.filter((provider) => !provider.capabilities.aspectRatios || provider.capabilities.aspectRatios.includes(ratio));
+
+  // Measure the photo and find its subject, then restore or suggest a framing
+  useEffect(() => {
+    if (!uploadedImageDataUrl) return;
+    let cancelled = false;
+    // The framing at the time of the upload or of coming back to this step
+    const saved = useMemoryStore.getState().framing;
+
+    Promise.all([getImageSize(uploadedImageDataUrl), findFocusPoint(uploadedImageDataUrl)])
+      .then(([measured, subject]) => {
+        if (cancelled) return;
+        setSize(measured);
+        setSmartFocus(subject);
+
+        if (saved?.crop) {
+          const full = cropForAspect(measured.width, measured.height, aspectValue(saved.aspectRatio));
+          setFocus({ x: saved.crop.x + saved.crop.width / 2, y: saved.crop.y + saved.crop.height / 2 });
+          setZoom(full.width / saved.crop.width);
+        } else {
+          setFocus(subject);
+        }
+        if (!saved) {
+          const first = providerRegistry.getChain('video')[0];
+          const offered = FRAME_ASPECT_RATIOS.filter(
+            (ratio) => !first?.capabilities.aspectRatios || first.capabilities.aspectRatios.includes(ratio)
+          );
+          setAspectRatio(closestAspectRatio(measured.width, measured.height, offered.length ? offered : FRAME_ASPECT_RATIOS));
+        }
+      })
+      .catch((error) => {
+        console.warn('[Frame] Could not read the photo:', error);
+        if (!cancelled) setAspectRatio((current) => current ?? FRAME_ASPECT_RATIOS[0]);
+      });
+
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [uploadedImageDataUrl]);
+
+  const crop = size && aspectRatio ? cropForAspect(size.width, size.height, aspectValue(aspectRatio), focus, zoom) : null;
+  const extended = framing?.mode === 'extend' && framing.aspectRatio === aspectRatio ? originalImageDataUrl : null;
+
+  const chooseAspect = (ratio: VideoAspectRatio) => {
+    setAspectRatio(ratio);
+    setZoom(1);
+    setHint(null);
+  };
+
+  // Dragging moves the crop; it stops at the photo's edges
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!crop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, focus: { x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 } };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+    setFocus({
+      x: Math.max(0, Math.min(1, drag.focus.x + (e.clientX - drag.x) / bounds.width)),
+      y: Math.max(0, Math.min(1, drag.focus.y + (e.clientY - drag.y) / bounds.height)),
+    });
+  };
+  const onPointerUp = () => {
+    dragRef.current = null;
+    // Snap the focus to where the crop actually ended up
+    if (crop) setFocus({ x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 });
+  };
+
+  const extend = async () => {
+    if (!uploadedImageDataUrl || !aspectRatio) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    setIsExtending(true);
+    setFrameError(null);
+    setHint(null);
+    setStatus('Preparing the canvas...');
+
+    try {
+      const canvas = await renderExtendCanvas(uploadedImageDataUrl, aspectValue(aspectRatio), imageQuality);
+      throwIfAborted(signal);
+      setStatus('Extending your photo...');
+      const { result } = await providerRegistry.run(
+        'enhance',
+        (provider) =>
+          provider.enhance({ imageDataUrl: canvas, instruction: OUTPAINT_INSTRUCTION, signal, onProgress: setStatus }),
+        { signal }
+      );
+      throwIfAborted(signal);
+      if (!result.enhanced) {
+        setHint('The image model sent the photo back unchanged. Try again, or crop instead.');
+        return;
+      }
+      const renditions = await createImageRenditions(result.imageUrl, getImageProcessingOptions(videoProviders));
+      throwIfAborted(signal);
+      setFramedImage(renditions, { aspectRatio, mode: 'extend', crop: null });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Extending the photo failed:', error);
+      setFrameError(toPipelineError('frame', error));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsExtending(false);
+        setStatus('');
+      }
+    }
+  };
+
+  // Apply the framing before moving on; unchanged framing keeps later results
+  const applyFraming = async (): Promise<boolean> => {
+    if (!uploadedImageDataUrl || !aspectRatio) return false;
+    if (mode === 'extend') {
+      if (extended) return true;
+      setHint('Press "Extend with AI" first, or switch to Crop.');
+      return false;
+    }
+    if (!crop) return false;
+
+    const next: PhotoFraming = { aspectRatio, mode: 'crop', crop: round(crop) };
+    if (JSON.stringify(next) === JSON.stringify(framing)) return true;
+    try {
+      const cropped = await renderCrop(uploadedImageDataUrl, next.crop!, imageQuality);
+      setFramedImage(await createImageRenditions(cropped, getImageProcessingOptions(videoProviders)), next);
+      return true;
+    } catch (error) {
+      console.error('Cropping the photo failed:', error);
+      setFrameError(toPipelineError('frame', error));
+      return false;
+    }
+  };
+
+  const chosenProviders = aspectRatio ? supports(aspectRatio) : [];
+  const firstProvider = videoProviders[0];
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-6">
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+        {/* Header */}
+        <div className="p-6 border-b border-gray-100">
+          <h2 className="text-xl font-semibold text-gray-800">Frame your photo</h2>
+          <p className="text-sm text-gray-600 mt-1">Pick the shape of the video, then crop the photo or let AI extend it</p>
+        </div>
+
+        {/* Shape and mode */}
+        <div className="px-6 pt-6 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {FRAME_ASPECT_RATIOS.map((ratio) => (
+              <button key={ratio} onClick={() => chooseAspect(ratio)} disabled={isExtending} className={choiceClass(ratio === aspectRatio)}>
+                {ratio}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setMode('crop')} disabled={isExtending} className={choiceClass(mode === 'crop')}>
+              Crop
+            </button>
+            <button onClick={() => setMode('extend')} disabled={isExtending} className={choiceClass(mode === 'extend')}>
+              Extend with AI
+            </button>
+          </div>
+          {aspectRatio && firstProvider && chosenProviders[0] !== firstProvider && (
+            <p className="text-xs text-amber-700">
+              {chosenProviders.length > 0
+                ? `${firstProvider.label} cannot make ${aspectRatio} videos, so ${chosenProviders[0].label} will be used.`
+                : `None of your video providers can make ${aspectRatio} videos.`}
+            </p>
+          )}
+        </div>
+
+        {/* Photo */}
+        <div className="p-6">
+          {mode === 'crop' ? (
+            <div ref={frameRef} className="relative overflow-hidden rounded-xl bg-gray-50 select-none">
+              {uploadedImageDataUrl && (
+                <img src={uploadedImageDataUrl} alt="Your photo" className="w-full h-auto" draggable={false} />
+              )}
+              {crop && (
+                <div
+                  className="absolute cursor-move touch-none border-2 border-white"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                  }}
+                  onPointerDown={onPointerDown}
+                  onPointerMove={onPointerMove}
+                  onPointerUp={onPointerUp}
+                  aria-label="Crop area, drag to move"
+                />
+              )}
+            </div>
+          ) : (
+            <div
+              className="relative overflow-hidden rounded-xl bg-gray-100 flex items-center justify-center"
+              style={{ aspectRatio: aspectRatio ? aspectValue(aspectRatio) : undefined }}
+            >
+              {extended ? (
+                <img src={extended} alt="Extended photo" className="h-full w-full object-cover" />
+              ) : (
+                uploadedImageDataUrl && (
+                  <img src={uploadedImageDataUrl} alt="Your photo" className="max-h-full max-w-full object-contain" />
+                )
+              )}
+              {isExtending && (
+                <div className="absolute inset-0 bg-black/30 flex flex-col items-center justify-center gap-2">
+                  <div className="h-10 w-10 rounded-full border-2 border-white border-t-transparent animate-spin" />
+                  {status && <p className="text-white text-sm font-medium">{status}</p>}
+                  <button
+                    onClick={() => abortRef.current?.abort()}
+                    className="rounded-full bg-white/20 px-3 py-1 text-xs font-medium text-white hover:bg-white/30"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Controls */}
+        <div className="px-6 pb-6 space-y-2">
+          {mode === 'crop' ? (
+            <div className="flex items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                Zoom
+                <input
+                  type="range"
+                  min={1}
+                  max={MAX_ZOOM}
+                  step={0.1}
+                  value={zoom}
+                  onChange={(e) => setZoom(Number(e.target.value))}
+                  className="w-32"
+                />
+              </label>
+              <button
+                onClick={() => {
+                  setFocus(smartFocus);
+                  setZoom(1);
+                }}
+                className="text-sm font-medium text-gray-500 hover:text-gray-700"
+              >
+                Smart framing
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">The image model paints the missing space; this is billed as one enhancement.</p>
+              <button
+                onClick={extend}
+                disabled={isExtending || !aspectRatio}
+                className="shrink-0 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {extended ? 'Extend again' : 'Extend with AI'}
+              </button>
+            </div>
+          )}
+          {hint && <p className="text-xs text-amber-700">{hint}</p>}
+        </div>
+
+        {frameError && (
+          <div className="px-6 pb-6">
+            <ErrorRecovery error={frameError} onRetry={mode === 'extend' ? extend : () => setFrameError(null)} />
+          </div>
+        )}
+      </div>
+
+      <StepNavigation busy={isExtending} onNext={applyFraming} />
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { galleryService } from '../services/galleryService';
+import { providerRegistry } from '../services/providers';
+import { downloadFile, generateFilename } from '../utils/imageProcessing';
+import { describePhotoDetails } from '../utils/exif';
+import type { SavedMemory } from '../types';
+
+interface GalleryComponentProps {
+  onClose: () => void;
+}
+
+interface GalleryItem {
+  memory: SavedMemory;
+  thumbnailUrl: string | null;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+const extensionFor = (blob: Blob, fallback: string) => blob.type.split('/')[1]?.split('+')[0] || fallback;
+
+export const GalleryComponent: React.FC<GalleryComponentProps> = ({ onClose }) => {
+  const [items, setItems] = useState<GalleryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<GalleryItem | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: GalleryItem[] = [];
+
+    galleryService
+      .list()
+      .then((memories) => {
+        if (cancelled) return;
+        created = memories.map((memory) => {
+          const thumbnail = memory.enhancedImage ?? memory.originalImage;
+          return { memory, thumbnailUrl: thumbnail ? URL.createObjectURL(thumbnail) : null };
+        });
+        setItems(created);
+      })
+      .catch((error) => {
+        console.error('[Gallery] Failed to load memories:', error);
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Failed to load your gallery');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    // Release thumbnail blob URLs
+    return () => {
+      cancelled = true;
+      created.forEach((item) => item.thumbnailUrl && URL.revokeObjectURL(item.thumbnailUrl));
+    };
+  }, []);
+
+  // One blob URL for the video that is currently open
+  useEffect(() => {
+    if (!selected) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.memory.video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const downloadBlob = (blob: Blob, prefix: string, fallbackExtension: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadFile(url, generateFilename(prefix, extensionFor(blob, fallbackExtension)));
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleDelete = async (item: GalleryItem) => {
+    if (!window.confirm('Delete this memory from your gallery? This cannot be undone.')) return;
+
+    try {
+      await galleryService.delete(item.memory.id);
+      if (item.thumbnailUrl) URL.revokeObjectURL(item.thumbnailUrl);
+      setItems((prev) => prev.filter((other) => other.memory.id !== item.memory.id));
+      setSelected(null);
+    } catch (error) {
+      console.error('[Gallery] Failed to delete memory:', error);
+      setLoadError('Failed to delete this memory. Please try again.');
+    }
+  };
+
+  const providerLabel = (id?: string) => (id ? providerRegistry.get(id)?.label ?? id : null);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Your Memories</h2>
+          <p className="text-sm text-gray-600 mt-1">Saved in this browser only</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          ← Back
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+          <p className="text-sm text-red-700">{loadError}</p>
+        </div>
+      )}
+
+      {isLoading && <p className="text-sm text-gray-500 text-center py-12">Loading your memories...</p>}
+
+      {!isLoading && !loadError && items.length === 0 && (
+        <div className="rounded-2xl border-2 border-dashed border-gray-200 bg-white p-12 text-center">
+          <p className="text-sm text-gray-600">No memories yet. Finished videos will appear here.</p>
+        </div>
+      )}
+
+      {/* Grid */}
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {items.map((item) => (
+            <button
+              key={item.memory.id}
+              onClick={() => setSelected(item)}
+              className="group text-left bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:border-orange-300 transition-colors"
+            >
+              <div className="aspect-square bg-gray-50 overflow-hidden">
+                {item.thumbnailUrl && (
+                  <img
+                    src={item.thumbnailUrl}
+                    alt={item.memory.userNote || 'Memory'}
+                    className="h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+                  />
+                )}
+              </div>
+              <div className="p-3">
+                <p className="text-xs text-gray-500">{formatDate(item.memory.createdAt)}</p>
+                <p className="text-sm text-gray-800 truncate">
+                  {item.memory.userNote || item.memory.caption || 'Untitled memory'}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Detail */}
+      {selected && (
+        <div className="fixed inset-0 z-50 grid place-items-center p-4">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setSelected(null)} />
+          <div className="relative w-full max-w-2xl max-h-full overflow-y-auto bg-white rounded-2xl shadow-xl">
+            <div className="bg-black">
+              {videoUrl && (
+                <video src={videoUrl} controls autoPlay loop className="w-full h-auto" poster={selected.thumbnailUrl || undefined}>
+                  Your browser does not support the video tag.
+                </video>
+              )}
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-xs text-gray-500">
+                {['Created ' + formatDate(selected.memory.createdAt), ...describePhotoDetails(selected.memory.photoMetadata)].join(' · ')}
+              </p>
+
+              {selected.memory.userNote && (
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500 mb-1">Your memory:</p>
+                  <p className="text-sm text-gray-700 italic">"{selected.memory.userNote}"</p>
+                </div>
+              )}
+
+              {selected.memory.motionPrompt && (
+                <div className="bg-blue-50 rounded-lg p-4">
+                  <p className="text-xs font-medium text-blue-600 mb-1">Motion description:</p>
+                  <p className="text-sm text-gray-700 font-mono">{selected.memory.motionPrompt}</p>
+                </div>
+              )}
+
+              {!!selected.memory.promptCandidates?.length && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-500">Motion options considered:</p>
+                  <ul className="space-y-1">
+                    {selected.memory.promptCandidates.map((candidate, index) => (
+                      <li
+                        key={index}
+                        className={`rounded-lg p-2 text-xs ${
+                          candidate.chosen ? 'bg-orange-50 text-gray-800' : 'bg-gray-50 text-gray-500'
+                        }`}
+                      >
+                        <span className="font-medium capitalize">{candidate.style}</span>
+                        {candidate.score !== null && ` · ${candidate.score}/10`}
+                        {candidate.chosen && ' · chosen'}: {candidate.prompt}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                {(['enhance', 'prompt', 'video'] as const).map((stage) => {
+                  const label = providerLabel(selected.memory.providersUsed[stage]);
+                  return label ? (
+                    <span key={stage} className="rounded-full bg-gray-100 px-2 py-0.5">
+                      {stage}: {label}
+                    </span>
+                  ) : null;
+                })}
+              </div>
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={() => downloadBlob(selected.memory.video, 'memory', 'mp4')}
+                  className="flex-1 px-4 py-2.5 bg-gradient-to-r from-orange-500 to-amber-500 text-white rounded-lg font-medium text-sm hover:from-orange-600 hover:to-amber-600 transition-all"
+                >
+                  Download Video
+                </button>
+                {selected.memory.enhancedImage && (
+                  <button
+                    onClick={() => downloadBlob(selected.memory.enhancedImage!, 'enhanced-memory', 'jpg')}
+                    className="flex-1 px-4 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors"
+                  >
+                    Download Photo
+                  </button>
+                )}
+                {selected.memory.originalImage && (
+                  <button
+                    onClick={() => downloadBlob(selected.memory.originalImage!, 'original-memory', 'jpg')}
+                    className="flex-1 px-4 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors"
+                  >
+                    Download Original
+                  </button>
+                )}
+              </div>
+
+              <div className="flex justify-between pt-2">
+                <button
+                  onClick={() => handleDelete(selected)}
+                  className="text-sm font-medium text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => setSelected(null)}
+                  className="text-sm font-medium text-gray-600 hover:text-gray-800"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
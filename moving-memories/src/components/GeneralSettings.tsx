@@ -0,0 +1,132 @@
+import React from 'react';
+import { useSettingsStore } from '../store/settingsStore';
+import type { AppSettings } from '../types';
+
+type Theme = AppSettings['theme'];
+type VideoQuality = AppSettings['qualitySettings']['videoQuality'];
+
+const THEME_LABELS: Record<Theme, string> = {
+  auto: 'Match system',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+const VIDEO_QUALITY_LABELS: Record<VideoQuality, string> = {
+  low: 'Low (480p)',
+  medium: 'Medium (720p)',
+  high: 'High (up to 1080p)',
+};
+
+// Longest side of the photo sent to the providers
+const IMAGE_SIZES = [768, 1024, 1536, 2048];
+
+const IMAGE_QUALITIES = [0.7, 0.8, 0.9, 1];
+
+export const GeneralSettings: React.FC = () => {
+  const {
+    theme,
+    setTheme,
+    animationsEnabled,
+    setAnimationsEnabled,
+    autoProcessing,
+    setAutoProcessing,
+    qualitySettings,
+    setQualitySettings,
+  } = useSettingsStore();
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        Theme
+        <select
+          value={theme}
+          onChange={(e) => setTheme(e.target.value as Theme)}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {(Object.keys(THEME_LABELS) as Theme[]).map((value) => (
+            <option key={value} value={value}>
+              {THEME_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={!animationsEnabled}
+          onChange={(e) => setAnimationsEnabled(!e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Reduce motion
+          <span className="block text-neutral-500">Stop the moving background and other animations</span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={autoProcessing}
+          onChange={(e) => setAutoProcessing(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Show the finished memory as soon as it is ready
+          <span className="block text-neutral-500">When off, the video waits on the Generate step until you continue</span>
+        </span>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        <span>
+          Photo size
+          <span className="block text-neutral-500">Sent for enhancement; larger keeps more detail but uploads slower</span>
+        </span>
+        <select
+          value={qualitySettings.maxImageSize}
+          onChange={(e) => setQualitySettings({ maxImageSize: Number(e.target.value) })}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {IMAGE_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size}px
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        Photo quality
+        <select
+          value={qualitySettings.imageQuality}
+          onChange={(e) => setQualitySettings({ imageQuality: Number(e.target.value) })}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {IMAGE_QUALITIES.map((quality) => (
+            <option key={quality} value={quality}>
+              {Math.round(quality * 100)}%
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        <span>
+          Video quality
+          <span className="block text-neutral-500">Used when the resolution is left to the provider</span>
+        </span>
+        <select
+          value={qualitySettings.videoQuality}
+          onChange={(e) => setQualitySettings({ videoQuality: e.target.value as VideoQuality })}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {(Object.keys(VIDEO_QUALITY_LABELS) as VideoQuality[]).map((value) => (
+            <option key={value} value={value}>
+              {VIDEO_QUALITY_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -1,213 +1,328 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useMemoryStore } from '../store/memoryStore';
-import { veoService } from '../services/veoService';
-import { geminiService } from '../services/geminiService';
+import { useMemoryStore, createProcessingError } from '../store/memoryStore';
+import { useSettingsStore, getPhotoContext } from '../store/settingsStore';
+import { useUsageStore } from '../store/usageStore';
+import { providerRegistry, describeVideoOptions, applyVideoQuality } from '../services/providers';
+import { usageTracker } from '../services/usageTracker';
+import { timingService, formatTimeRemaining } from '../services/timingService';
+import type { ProgressWatch } from '../services/timingService';
+import { galleryService } from '../services/galleryService';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { toPipelineError } from '../utils/errors';
+import { imageFingerprint, imageForUse } from '../utils/imageProcessing';
+import { FALLBACK_MOTION_PROMPT } from '../config/prompts';
+import { formatCost } from '../config/pricing';
+import { ErrorRecovery } from './ErrorRecovery';
+import { StepNavigation } from './StepNavigation';
+import type { VideoProvider } from '../services/providers';
+import type { PendingVideoOperation, ProcessingError } from '../types';
 
 export const GenerateComponent: React.FC = () => {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generateError, setGenerateError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [statusMessage, setStatusMessage] = useState('Initializing...');
-  const timerRef = useRef<number | null>(null);
-  const generationStarted = useRef(false);
+  const [generateError, setGenerateError] = useState<ProcessingError | null>(null);
+  // Coming back to this step shows the video made earlier
+  const [progress, setProgress] = useState(() => (useMemoryStore.getState().videoUrl ? 100 : 0));
+  const [statusMessage, setStatusMessage] = useState(() =>
+    useMemoryStore.getState().videoUrl ? 'Your memory is ready!' : 'Ready when you are'
+  );
+  const [isCancelled, setIsCancelled] = useState(false);
+  // Provider whose video job had already started when the run was cancelled.
+  // Only VEO reports started jobs and it has no cancel call, so cancelling just
+  // stops waiting; Replicate predictions are cancelled on Replicate instead.
+  const [unstoppedJob, setUnstoppedJob] = useState<string | null>(null);
+  const startedJobRef = useRef<string | null>(null);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  const watchRef = useRef<ProgressWatch | null>(null);
+  const startDelayRef = useRef<number | null>(null);
+  const advanceRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const resumeStarted = useRef(false);
 
   const {
     enhancedImageUrl,
+    renditions,
     motionPrompt,
     setVideoUrl,
     videoUrl,
     setCurrentStep,
     userNote,
     enhancedImageCaption,
+    photoMetadata,
+    pendingVideoOperation,
+    resumingVideo,
+    setPendingVideoOperation,
+    setMotionPrompt,
+    setProviderUsed,
+    estimatedTimeRemaining,
+    setEstimatedTime,
   } = useMemoryStore();
+  const savedVideoOptions = useSettingsStore((state) => state.videoOptions);
+  const framing = useMemoryStore((state) => state.framing);
+  // The shape chosen on the Frame step wins over the video setting
+  const videoOptions = framing ? { ...savedVideoOptions, aspectRatio: framing.aspectRatio } : savedVideoOptions;
+  const videoQuality = useSettingsStore((state) => state.qualitySettings.videoQuality);
+  // What each provider is sent once the quality setting picks a resolution
+  const optionsFor = (provider: VideoProvider) => applyVideoQuality(provider, videoOptions, videoQuality);
+  const estimateFirstVideoCost = () => {
+    const provider = providerRegistry.getChain('video')[0];
+    return usageTracker.estimateVideoCost(provider, provider ? optionsFor(provider) : videoOptions);
+  };
+
+  const cleanup = () => {
+    watchRef.current?.stop();
+    if (startDelayRef.current) window.clearTimeout(startDelayRef.current);
+    if (advanceRef.current) window.clearTimeout(advanceRef.current);
+    // Leaving the step (unmount or reset) stops requests and polling
+    abortRef.current?.abort();
+    abortRef.current = null;
+    // Allow a StrictMode remount to start again
+    resumeStarted.current = false;
+  };
 
   useEffect(() => {
-    // Start generation automatically when component mounts
-    // Since we're in the Generate step, the user can no longer type
-    if (!videoUrl && enhancedImageUrl && !generationStarted.current) {
-      generationStarted.current = true;
-      
-      // If user has provided a note, give a small delay to show we're using it
-      if (userNote && userNote.trim().length > 0) {
-        setStatusMessage('Processing your note...');
-        setTimeout(() => {
-          startGeneration();
-        }, 500);
-      } else {
-        // No note, start immediately
-        startGeneration();
-      }
+    // Nothing is generated until the user asks for it. A job from before a
+    // reload is already paid for and still running, so it is picked up, but
+    // only for the image it was made from or when the user chose to resume it.
+    // Deferred so a StrictMode remount clears it before any request goes out.
+    const ownJob =
+      resumingVideo ||
+      (!!enhancedImageUrl && imageFingerprint(enhancedImageUrl) === pendingVideoOperation?.sourceImageId);
+    if (!videoUrl && pendingVideoOperation && ownJob && !resumeStarted.current) {
+      resumeStarted.current = true;
+      const pending = pendingVideoOperation;
+      startDelayRef.current = window.setTimeout(() => {
+        resumeGeneration(pending);
+      }, 0);
     }
 
-    return () => {
-      if (timerRef.current) window.clearInterval(timerRef.current);
-    };
+    return cleanup;
   }, []);
 
-  // Gentle progress animation: reach ~90% over ~50s while generating
-  const startGentleProgress = () => {
-    if (timerRef.current) window.clearInterval(timerRef.current);
-    
-    const startTime = Date.now();
-    const startProgress = 10;
-    const endProgress = 90;
-    const duration = 50000; // 50 seconds in milliseconds
-    
-    timerRef.current = window.setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const percentComplete = Math.min(elapsed / duration, 1);
-      
-      // Use easeInOut for smoother animation
-      const eased = percentComplete < 0.5
-        ? 2 * percentComplete * percentComplete
-        : 1 - Math.pow(-2 * percentComplete + 2, 2) / 2;
-      
-      const newProgress = startProgress + (endProgress - startProgress) * eased;
-      setProgress(Math.min(90, newProgress));
-      
-      // Stop when we reach 90%
-      if (newProgress >= 90) {
-        if (timerRef.current) window.clearInterval(timerRef.current);
-      }
-    }, 100); // Update every 100ms for smooth animation
+  // Move the bar from one percentage to another over the time this stage
+  // usually takes; laterMs is expected time for the stages still to come
+  const watchStage = (expectedMs: number, from: number, to: number, laterMs = 0) => {
+    watchRef.current?.stop();
+    watchRef.current = timingService.watch(expectedMs, ({ fraction, remainingSeconds }) => {
+      setProgress(from + (to - from) * fraction);
+      setEstimatedTime(remainingSeconds + laterMs / 1000);
+    });
+  };
+
+  const stopWatch = () => {
+    watchRef.current?.stop();
+    watchRef.current = null;
+    setEstimatedTime(null);
+  };
+
+  // Abort any previous run and hand out a fresh controller
+  const beginRun = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsGenerating(true);
+    setIsCancelled(false);
+    setUnstoppedJob(null);
+    startedJobRef.current = null;
+    setGenerateError(null);
+    setProgress(10);
+    return controller;
+  };
+
+  const finishWithVideo = (url: string) => {
+    stopWatch();
+    setProgress(100);
+    setStatusMessage('Your memory is ready!');
+    setVideoUrl(url);
+    setIsGenerating(false);
+
+    // Without auto-advance the user continues when ready
+    if (!useSettingsStore.getState().autoProcessing) return;
+    advanceRef.current = window.setTimeout(() => {
+      setCurrentStep('complete');
+    }, 1200);
   };
 
-  const stopGentleProgress = () => {
-    if (timerRef.current) {
-      window.clearInterval(timerRef.current);
-      timerRef.current = null;
+  const handleRunError = (error: unknown, controller: AbortController, providerId?: string) => {
+    // A newer run or an unmount replaced this one; nothing to report
+    if (abortRef.current !== controller) return;
+
+    stopWatch();
+    setIsGenerating(false);
+    // The job will not be picked up again
+    setPendingVideoOperation(null);
+    if (isAbortError(error)) {
+      setIsCancelled(true);
+      setUnstoppedJob(startedJobRef.current);
+      setStatusMessage('Generation cancelled');
+      return;
     }
+
+    console.error('Video generation error:', error);
+    const typed = toPipelineError('generate', error);
+    typed.providerId ??= providerId;
+    setGenerateError(typed);
   };
 
-  const startGeneration = async () => {
+  const startGeneration = async (overBudgetConfirmed = false) => {
     if (!enhancedImageUrl) {
-      setGenerateError('Missing required image for video generation');
+      setGenerateError(
+        createProcessingError('generate', 'Missing required image for video generation', false, 'invalid_image')
+      );
       return;
     }
 
-    setIsGenerating(true);
-    setGenerateError(null);
-    setProgress(10);
+    // Check the spending limits before anything is billed
+    setBudgetWarning(null);
+    if (!overBudgetConfirmed) {
+      const overrun = usageTracker.checkBudget(estimateFirstVideoCost());
+      if (overrun) {
+        const message = usageTracker.describeOverrun(overrun);
+        setIsCancelled(false);
+        setStatusMessage('Waiting for your go-ahead');
+        if (useUsageStore.getState().budget.mode === 'block') {
+          setGenerateError(createProcessingError('generate', message, false, 'budget_exceeded'));
+        } else {
+          setGenerateError(null);
+          setBudgetWarning(message);
+        }
+        return;
+      }
+    }
+
+    const controller = beginRun();
+    const { signal } = controller;
     setStatusMessage('Analyzing image for motion...');
-    startGentleProgress();
 
     let prompt = motionPrompt;
+    const videoExpectedMs = (provider: VideoProvider | undefined = providerRegistry.getChain('video')[0]) =>
+      timingService.estimate('video', provider?.id, provider ? optionsFor(provider).resolution : videoOptions.resolution);
 
     try {
       // Generate motion prompt if not already present
       if (!prompt || prompt.trim().length === 0) {
-        console.log('[Generating motion prompt from image with user note:', userNote || 'none', ']');
+        watchStage(timingService.estimate('prompt', providerRegistry.getChain('prompt')[0]?.id), 10, 25, videoExpectedMs());
         
         try {
-          // Call Gemini to analyze the image and generate a motion prompt
-          prompt = await geminiService.generateVideoPromptFromImage(
-            enhancedImageUrl,
-            userNote || undefined
+          // Ask the prompt provider chain to analyze the image
+          const { result, providerId } = await providerRegistry.run(
+            'prompt',
+            (provider) =>
+              provider.generatePrompt({
+                imageDataUrl: imageForUse(enhancedImageUrl, renditions, 'analysis')!,
+                caption: enhancedImageCaption || undefined,
+                userNote: userNote || undefined,
+                photoContext: getPhotoContext(photoMetadata),
+                signal,
+                onProgress: setStatusMessage,
+              }),
+            { signal }
           );
+          prompt = result;
+          setProviderUsed('prompt', providerId);
           
-          console.log('[Generated motion prompt]:', prompt);
           setStatusMessage('Preparing video generation...');
         } catch (promptError) {
+          if (isAbortError(promptError)) throw promptError;
           console.error('Motion prompt generation failed:', promptError);
           // Use fallback prompt if generation fails
-          prompt = 'A gentle, cinematic motion around this cherished memory.';
-          console.log('[Using fallback prompt]:', prompt);
+          prompt = FALLBACK_MOTION_PROMPT;
         }
       }
 
-      // Log the final movement prompt being sent to the AI
-      console.log('[FINAL MOVEMENT PROMPT]:', prompt);
-      console.log('[USER NOTE]:', userNote || 'none');
-      
-      // Check if we have Replicate token - if yes, use it directly
-      const replicateToken = localStorage.getItem('REPLICATE_API_TOKEN');
-      
-      if (replicateToken) {
-        // Skip VEO entirely and use Replicate
-        setStatusMessage('Generating video...');
-        
-        const videoUrl = await veoService.generateVideoWithReplicate(
-          prompt,
-          enhancedImageUrl,
-          5,
-          '480p',
-          '16:9'
-        );
-        
-        stopGentleProgress();
-        setProgress(100);
-        setStatusMessage('Your memory is ready!');
-        setVideoUrl(videoUrl);
-        
-        setTimeout(() => {
-          setCurrentStep('complete');
-        }, 1200);
-      } else {
-        // Try VEO if no Replicate token
-        const veoApiKey = localStorage.getItem('VEO_API_KEY') || localStorage.getItem('GEMINI_API_KEY');
-        if (!veoApiKey) {
-          throw new Error('API key not found. Please set your API key.');
+      // Keep the prompt so retries reuse it and the memory records it
+      setMotionPrompt(prompt);
+
+      // Walk the user's video provider chain, falling back on failure
+      const { result: videoResult, providerId: videoProviderId } = await providerRegistry.run(
+        'video',
+        (provider) =>
+          provider.generateVideo({
+            imageDataUrl: imageForUse(enhancedImageUrl, renditions, 'video')!,
+            prompt,
+            options: optionsFor(provider),
+            onProgress: (status, percent) => {
+              setStatusMessage(status);
+              watchRef.current?.report(percent);
+            },
+            signal,
+            // Remember the paid job so it survives a reload
+            onJobStarted: (operationName) => {
+              startedJobRef.current = provider.label;
+              setPendingVideoOperation({
+                providerId: provider.id,
+                operationName,
+                prompt,
+                sourceImageId: imageFingerprint(enhancedImageUrl),
+                userNote,
+                startedAt: Date.now(),
+              });
+              galleryService.keepVideoSource(operationName, enhancedImageUrl).catch((error) => {
+                console.warn('[Resume] Could not keep the source image:', error);
+              });
+            },
+          }),
+        {
+          onAttempt: (provider) => {
+            setStatusMessage('Generating video...');
+            watchStage(videoExpectedMs(provider), 25, 95);
+          },
+          signal,
+          resolutionFor: (provider) => optionsFor(provider).resolution,
         }
-        
-        veoService.init(veoApiKey);
-        setStatusMessage('Generating video...');
-        
-        const videoResult = await veoService.generateVideoSimple(
-          enhancedImageUrl,
-          prompt
-        );
-        
-        stopGentleProgress();
-        setProgress(100);
-        setStatusMessage('Your memory is ready!');
-        setVideoUrl(videoResult);
-        
-        setTimeout(() => {
-          setCurrentStep('complete');
-        }, 1200);
-      }
+      );
+      throwIfAborted(signal);
+      setProviderUsed('video', videoProviderId);
+      finishWithVideo(videoResult);
     } catch (error) {
-      console.error('Video generation error:', error);
-      const message = error instanceof Error ? error.message : String(error);
-
-      // If Replicate fails too, or if VEO fails and we have no Replicate token
-      const replicateToken = localStorage.getItem('REPLICATE_API_TOKEN');
-      
-      if (replicateToken && !message.includes('Replicate')) {
-        // Try Replicate as fallback
-        try {
-          const fallbackUrl = await veoService.generateVideoWithReplicate(
-            prompt,
-            enhancedImageUrl,
-            5,
-            '480p',
-            '16:9'
-          );
+      handleRunError(error, controller);
+    }
+  };
 
-          stopGentleProgress();
-          setProgress(100);
-          setStatusMessage('Your memory is ready!');
-          setVideoUrl(fallbackUrl);
-
-          setTimeout(() => {
-            setCurrentStep('complete');
-          }, 1200);
-          return;
-        } catch (repErr) {
-          stopGentleProgress();
-          console.error('Replicate fallback failed:', repErr);
-          setGenerateError(repErr instanceof Error ? repErr.message : 'Video generation failed');
-          setIsGenerating(false);
-          return;
-        }
-      }
+  const resumeGeneration = async (pending: PendingVideoOperation) => {
+    const provider = providerRegistry.get(pending.providerId);
+    if (provider?.stage !== 'video' || !provider.resumeVideo) {
+      setPendingVideoOperation(null);
+      setGenerateError(createProcessingError('generate', 'This video can no longer be resumed. Please start again.'));
+      return;
+    }
+
+    const controller = beginRun();
+    const { signal } = controller;
+    startedJobRef.current = provider.label;
+    setStatusMessage('Resuming your video...');
+    // Part of the usual time has already passed while the page was closed
+    const expectedMs = timingService.estimate('video', provider.id, optionsFor(provider).resolution);
+    watchStage(Math.max(expectedMs - (Date.now() - pending.startedAt), 5000), 10, 95);
 
-      stopGentleProgress();
-      setGenerateError(message || 'Video generation failed');
-      setIsGenerating(false);
+    try {
+      const url = await provider.resumeVideo(pending.operationName, {
+        onProgress: (status, percent) => {
+          setStatusMessage(status);
+          watchRef.current?.report(percent);
+        },
+        signal,
+      });
+      throwIfAborted(signal);
+      finishWithVideo(url);
+    } catch (error) {
+      handleRunError(error, controller, pending.providerId);
     }
   };
 
+  const estimatedCost = estimateFirstVideoCost();
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const declineOverBudget = () => {
+    setBudgetWarning(null);
+    setIsCancelled(true);
+    setUnstoppedJob(null);
+    setStatusMessage('Generation cancelled');
+  };
+
   const retry = () => {
     startGeneration();
   };
@@ -224,15 +339,21 @@ export const GenerateComponent: React.FC = () => {
           </p>
         </div>
 
-        {/* Media */}
-        {enhancedImageUrl && (
+        {/* Media: the finished video once there is one */}
+        {videoUrl && !isGenerating ? (
           <div className="relative overflow-hidden bg-gray-50">
-            <img
-              src={enhancedImageUrl}
-              alt="Enhanced memory"
-              className="w-full h-auto"
-            />
+            <video src={videoUrl} controls playsInline className="w-full h-auto" />
           </div>
+        ) : (
+          enhancedImageUrl && (
+            <div className="relative overflow-hidden bg-gray-50">
+              <img
+                src={enhancedImageUrl}
+                alt="Enhanced memory"
+                className="w-full h-auto"
+              />
+            </div>
+          )
         )}
 
         {/* Progress Display */}
@@ -240,7 +361,10 @@ export const GenerateComponent: React.FC = () => {
           <div className="space-y-3">
             <div className="flex justify-between text-xs">
               <span className="text-gray-600">{statusMessage}</span>
-              <span className="text-gray-500">{Math.round(progress)}%</span>
+              <span className="text-gray-500">
+                {isGenerating && estimatedTimeRemaining !== null && `${formatTimeRemaining(estimatedTimeRemaining)} · `}
+                {Math.round(progress)}%
+              </span>
             </div>
             <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
               <div
@@ -249,23 +373,79 @@ export const GenerateComponent: React.FC = () => {
               />
             </div>
 
-            {/* Error State */}
-            {generateError && (
-              <div className="rounded-lg border border-red-200 bg-red-50 p-3">
-                <p className="text-xs text-red-700">{generateError}</p>
+            {isGenerating && (
+              <div className="text-right">
+                <button
+                  onClick={cancel}
+                  className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {/* Nothing is spent until the user starts it */}
+            {!isGenerating && !generateError && !isCancelled && !budgetWarning && (
+              <div className="flex items-center justify-end gap-3">
+                {estimatedCost > 0 && <span className="text-xs text-gray-500">≈ {formatCost(estimatedCost)}</span>}
+                <button
+                  onClick={() => startGeneration()}
+                  className="rounded-lg bg-gradient-to-r from-orange-500 to-amber-500 px-4 py-2 text-sm font-medium text-white hover:from-orange-600 hover:to-amber-600 transition-colors"
+                >
+                  {videoUrl ? 'Generate again' : 'Generate video'}
+                </button>
+              </div>
+            )}
+
+            {/* Over the spending limit, in warn mode */}
+            {budgetWarning && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3">
+                <p className="text-xs text-amber-800">{budgetWarning}</p>
+                <div className="mt-2 flex gap-4">
+                  <button
+                    onClick={() => startGeneration(true)}
+                    className="text-xs font-medium text-amber-800 hover:text-amber-900"
+                  >
+                    Generate anyway →
+                  </button>
+                  <button
+                    onClick={declineOverBudget}
+                    className="text-xs font-medium text-gray-500 hover:text-gray-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Cancelled State */}
+            {isCancelled && (
+              <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                <p className="text-xs text-gray-700">
+                  {unstoppedJob
+                    ? `Generation was cancelled, but ${unstoppedJob} had already started the video. VEO videos cannot be stopped once started, so this one may still be charged.`
+                    : 'Generation was cancelled. No further credits will be used.'}
+                </p>
                 <button
                   onClick={retry}
-                  className="mt-2 text-xs font-medium text-red-700 hover:text-red-800"
+                  className="mt-2 text-xs font-medium text-gray-700 hover:text-gray-900"
                 >
-                  Try again →
+                  Start again →
                 </button>
               </div>
             )}
+
+            {/* Error State */}
+            {generateError && (
+              <ErrorRecovery error={generateError} onRetry={retry} compact />
+            )}
           </div>
         </div>
 
       </div>
 
+      <StepNavigation busy={isGenerating} nextLabel="See your memory" />
+
       {/* Info Cards */}
       <div className="space-y-3">
         <div className="bg-gradient-to-r from-orange-50 to-yellow-50 rounded-xl p-4">
@@ -279,7 +459,7 @@ export const GenerateComponent: React.FC = () => {
             </div>
             <div className="flex-1">
               <p className="text-sm text-gray-700">
-                <span className="font-medium">Video:</span> We generate a short clip (≈ 5s, 480p).
+                <span className="font-medium">Video:</span> We generate a short clip ({describeVideoOptions(videoOptions)}).
               </p>
             </div>
           </div>
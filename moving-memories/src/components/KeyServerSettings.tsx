@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useProxyStore } from '../store/proxyStore';
+import type { ProxyStatus } from '../store/proxyStore';
+
+const STATUS_LABELS: Record<ProxyStatus, string> = {
+  off: 'Not checked',
+  checking: 'Checking...',
+  online: 'Connected',
+  offline: 'Not reachable',
+};
+
+export const KeyServerSettings: React.FC = () => {
+  const { url, status, credentials, setUrl, check } = useProxyStore();
+  const [draft, setDraft] = useState(url);
+
+  useEffect(() => {
+    setDraft(url);
+  }, [url]);
+
+  const connect = () => {
+    // Changing the URL triggers a check in App; re-check an unchanged one here
+    if (draft.trim().replace(/\/+$/, '') === url) {
+      check();
+    } else {
+      setUrl(draft);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-neutral-600">
+        Run <code className="rounded bg-neutral-100 px-1">npm run server</code> to keep your keys out of the browser.
+        Leave empty to call the providers directly.
+      </p>
+      <div className="flex gap-2">
+        <input
+          type="url"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="http://localhost:8787"
+          className="min-w-0 flex-1 rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
+        />
+        <button
+          type="button"
+          onClick={connect}
+          disabled={status === 'checking'}
+          className="rounded border bg-white px-3 py-2 text-sm hover:bg-neutral-50 disabled:opacity-50"
+        >
+          {draft.trim() ? 'Connect' : 'Disconnect'}
+        </button>
+      </div>
+      {url && (
+        <p className={`text-xs ${status === 'offline' ? 'text-red-600' : 'text-neutral-600'}`}>
+          {STATUS_LABELS[status]}
+          {status === 'online' &&
+            ` · Gemini key ${credentials.gemini ? 'set' : 'missing'} · Replicate token ${credentials.replicate ? 'set' : 'missing'}`}
+        </p>
+      )}
+    </div>
+  );
+};
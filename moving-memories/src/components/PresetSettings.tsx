@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useSettingsStore } from '../store/settingsStore';
+import { presetService, AUTO_PRESET } from '../services/presetService';
+import { RestorationControls } from './RestorationControls';
+
+interface PresetDraft {
+  id?: string; // missing for a new preset
+  label: string;
+  instruction: string;
+}
+
+export const PresetSettings: React.FC = () => {
+  const { enhancementPreset, setEnhancementPreset, customPresets, saveCustomPreset, deleteCustomPreset } =
+    useSettingsStore();
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+
+  const save = () => {
+    if (!draft || !draft.label.trim() || !draft.instruction.trim()) return;
+    saveCustomPreset(draft);
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        <span>
+          Enhancement preset
+          <span className="block text-neutral-500">Automatic looks at each photo first and restores old black-and-white or sepia ones</span>
+        </span>
+        <select
+          value={enhancementPreset}
+          onChange={(e) => setEnhancementPreset(e.target.value)}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          <option value={AUTO_PRESET}>Automatic</option>
+          {presetService.list().map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <RestorationControls />
+
+      {customPresets.length > 0 && (
+        <ul className="space-y-1">
+          {customPresets.map((preset) => (
+            <li key={preset.id} className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+              <span className="truncate">{preset.label}</span>
+              <span className="flex shrink-0 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft({ id: preset.id, label: preset.label, instruction: preset.instruction })}
+                  className="underline"
+                >
+                  Edit
+                </button>
+                <button type="button" onClick={() => deleteCustomPreset(preset.id)} className="text-red-600 underline">
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 rounded border p-2">
+          <input
+            type="text"
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder="Name, e.g. Golden hour"
+            maxLength={40}
+            className="w-full rounded border px-2 py-1 text-xs"
+          />
+          <textarea
+            value={draft.instruction}
+            onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+            placeholder="How the photo should be enhanced, e.g. warm late-afternoon light and soft contrast"
+            rows={3}
+            className="w-full resize-none rounded border px-2 py-1 text-xs"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded border bg-white px-3 py-1 text-xs text-neutral-600 hover:bg-neutral-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!draft.label.trim() || !draft.instruction.trim()}
+              className="rounded border bg-white px-3 py-1 text-xs hover:bg-neutral-50 disabled:opacity-50"
+            >
+              Save preset
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft({ label: '', instruction: '' })}
+          className="text-xs underline"
+        >
+          + New preset
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,61 +1,200 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useMemoryStore } from '../store/memoryStore';
-import { geminiService } from '../services/geminiService';
-import { getVideoPrompt } from '../config/prompts';
+import { useSettingsStore, getPhotoContext } from '../store/settingsStore';
+import { providerRegistry } from '../services/providers';
+import { PROMPT_CANDIDATE_STYLES } from '../config/prompts';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { PipelineError, toPipelineError } from '../utils/errors';
+import { imageForUse } from '../utils/imageProcessing';
+import { ErrorRecovery } from './ErrorRecovery';
+import type { ProcessingError } from '../types';
 
 export const PromptComponent: React.FC = () => {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [promptError, setPromptError] = useState<string | null>(null);
+  const [promptError, setPromptError] = useState<ProcessingError | null>(null);
   const [streamedPrompt, setStreamedPrompt] = useState('');
   const [editablePrompt, setEditablePrompt] = useState('');
   const [isEditing, setIsEditing] = useState(false);
+  const [noteDraft, setNoteDraft] = useState(() => useMemoryStore.getState().userNote);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<ProcessingError | null>(null);
+  // Retry and rate-limit notes for the request in flight
+  const [requestStatus, setRequestStatus] = useState('');
+  const startDelayRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const generationStarted = useRef(false);
 
   const {
     enhancedImageCaption,
     enhancedImageUrl,
     originalImageDataUrl,
+    renditions,
+    photoMetadata,
     userNote,
+    setUserNote,
     setMotionPrompt,
     motionPrompt,
     setCurrentStep,
+    goBack,
+    setProviderUsed,
+    promptCandidates,
+    setPromptCandidates,
+    choosePromptCandidate,
   } = useMemoryStore();
+  const promptCandidateCount = useSettingsStore((state) => state.promptCandidateCount);
 
   useEffect(() => {
-    // Start generation automatically when component mounts
-    if (!motionPrompt) {
-      generatePrompt();
-    } else {
-      setEditablePrompt(motionPrompt);
+    // Start generation automatically when component mounts.
+    // Deferred so a StrictMode remount clears it before any request goes out.
+    if (!generationStarted.current) {
+      generationStarted.current = true;
+      if (!motionPrompt) {
+        startDelayRef.current = window.setTimeout(() => generatePrompt(userNote), 0);
+      } else {
+        setEditablePrompt(motionPrompt);
+      }
     }
+
+    // Stop streaming when leaving the step
+    return () => {
+      if (startDelayRef.current) clearTimeout(startDelayRef.current);
+      abortRef.current?.abort();
+      abortRef.current = null;
+      generationStarted.current = false;
+    };
   }, []);
 
-  const generatePrompt = async () => {
+  // Abort any previous request and hand out a fresh controller
+  const beginRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRequestStatus('');
+    return controller;
+  };
+
+  const generatePrompt = async (note: string) => {
+    const imageDataUrl = imageForUse(enhancedImageUrl || originalImageDataUrl, renditions, 'analysis');
+    if (!imageDataUrl) return;
+
+    const controller = beginRequest();
+    const { signal } = controller;
+
     setIsGenerating(true);
+    setIsEditing(false);
     setPromptError(null);
     setStreamedPrompt('');
 
     try {
-      // Use streaming for better UX
-      const generator = geminiService.generateMotionPromptStream(
-        enhancedImageCaption || 'A meaningful photograph',
-        userNote || ''
-      );
+      const input = {
+        imageDataUrl,
+        caption: enhancedImageCaption || undefined,
+        userNote: note || undefined,
+        photoContext: getPhotoContext(photoMetadata),
+        signal,
+        onProgress: setRequestStatus,
+      };
 
-      let finalPrompt = '';
-      for await (const chunk of generator) {
-        setStreamedPrompt(chunk);
-        finalPrompt = chunk;
-      }
+      // Stream from the image itself when the provider supports it
+      const { result, providerId } = await providerRegistry.run(
+        'prompt',
+        async (provider) => {
+          if (!provider.streamPrompt) return provider.generatePrompt(input);
+
+          const stream = provider.streamPrompt(input);
+          let next = await stream.next();
+          while (!next.done) {
+            setStreamedPrompt(next.value);
+            next = await stream.next();
+          }
+          return next.value;
+        },
+        { signal }
+      );
+      throwIfAborted(signal);
 
-      setEditablePrompt(finalPrompt);
-      setMotionPrompt(finalPrompt);
+      setEditablePrompt(result);
+      setMotionPrompt(result);
+      choosePromptCandidate(null);
+      setProviderUsed('prompt', providerId);
       setIsGenerating(false);
     } catch (error) {
-      setPromptError(error instanceof Error ? error.message : 'Failed to generate prompt');
+      // A newer run or an unmount replaced this one; nothing to report
+      if (abortRef.current !== controller) return;
+
       setIsGenerating(false);
+      // A cancelled run keeps the previous prompt
+      if (isAbortError(error)) return;
+      setPromptError(toPipelineError('prompt', error));
+    }
+  };
+
+  // Ask for several styled, ranked alternatives for the user to pick from
+  const suggestAlternatives = async () => {
+    const imageDataUrl = imageForUse(enhancedImageUrl || originalImageDataUrl, renditions, 'analysis');
+    if (!imageDataUrl) return;
+
+    const controller = beginRequest();
+    const { signal } = controller;
+
+    setUserNote(noteDraft);
+    setIsSuggesting(true);
+    setSuggestError(null);
+
+    try {
+      const { result, providerId } = await providerRegistry.run(
+        'prompt',
+        (provider) => {
+          if (!provider.generateCandidates) {
+            throw new PipelineError({
+              step: 'prompt',
+              code: 'unsupported',
+              message: `${provider.label} cannot suggest alternatives`,
+            });
+          }
+          return provider.generateCandidates({
+            imageDataUrl,
+            caption: enhancedImageCaption || undefined,
+            userNote: noteDraft || undefined,
+            photoContext: getPhotoContext(photoMetadata),
+            styles: PROMPT_CANDIDATE_STYLES.slice(0, promptCandidateCount),
+            signal,
+            onProgress: setRequestStatus,
+          });
+        },
+        { signal }
+      );
+      throwIfAborted(signal);
+
+      setPromptCandidates(result);
+      setProviderUsed('prompt', providerId);
+      setIsSuggesting(false);
+    } catch (error) {
+      // A newer run or an unmount replaced this one; nothing to report
+      if (abortRef.current !== controller) return;
+
+      setIsSuggesting(false);
+      if (isAbortError(error)) return;
+      setSuggestError(toPipelineError('prompt', error));
     }
   };
 
+  const handleChoose = (index: number) => {
+    choosePromptCandidate(index);
+    setEditablePrompt(promptCandidates[index].prompt);
+    setIsEditing(false);
+  };
+
+  // Regenerate with whatever note is in the field now
+  const handleRegenerate = () => {
+    setUserNote(noteDraft);
+    generatePrompt(noteDraft);
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleEdit = () => {
     setIsEditing(true);
   };
@@ -93,26 +232,44 @@ export const PromptComponent: React.FC = () => {
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         {/* Header */}
         <div className="p-6 border-b border-gray-100">
-          <h2 className="text-xl font-semibold text-gray-900">Creating Motion Prompt</h2>
+          <h2 className="text-xl font-semibold text-gray-900">Review Motion Prompt</h2>
           <p className="text-sm text-gray-600 mt-1">
-            AI is crafting the perfect description to bring your photo to life
+            Check how your photo will move before the video is generated
           </p>
         </div>
 
         {/* Prompt Display */}
         <div className="p-6 space-y-4">
-          {/* User's Note Display */}
-          {userNote && (
-            <div className="bg-gray-50 rounded-lg p-4">
-              <p className="text-xs font-medium text-gray-500 mb-1">Your memory note:</p>
-              <p className="text-sm text-gray-700 italic">"{userNote}"</p>
-            </div>
-          )}
+          {/* User's Note */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Your memory note <span className="font-normal text-gray-400">(optional)</span>
+            </label>
+            <textarea
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              placeholder="Share what makes this moment special..."
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent placeholder:text-gray-300"
+              rows={2}
+              maxLength={200}
+            />
+            {noteDraft !== userNote && !isGenerating && (
+              <p className="text-xs text-gray-500">Regenerate to use your updated note.</p>
+            )}
+          </div>
 
           {/* Generated Prompt */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <label className="text-sm font-medium text-gray-700">Motion Description</label>
+              {isGenerating && (
+                <button
+                  onClick={cancel}
+                  className="text-sm text-gray-500 hover:text-gray-700 font-medium"
+                >
+                  Stop
+                </button>
+              )}
               {!isGenerating && !isEditing && editablePrompt && (
                 <button
                   onClick={handleEdit}
@@ -135,7 +292,7 @@ export const PromptComponent: React.FC = () => {
               <div className="bg-gray-50 rounded-lg p-4 min-h-[100px]">
                 <p className="text-sm text-gray-700 font-mono leading-relaxed">
                   {streamedPrompt || (
-                    <span className="text-gray-400">Generating motion description...</span>
+                    <span className="text-gray-400">{requestStatus || 'Generating motion description...'}</span>
                   )}
                   <span className="inline-block w-1 h-4 bg-gray-400 animate-pulse ml-1" />
                 </p>
@@ -163,17 +320,66 @@ export const PromptComponent: React.FC = () => {
             )}
           </div>
 
-          {/* Error state */}
-          {promptError && (
-            <div className="rounded-lg border border-red-200 bg-red-50 p-4">
-              <p className="text-sm text-red-700">{promptError}</p>
+          {/* Alternatives */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700">Alternatives</label>
               <button
-                onClick={generatePrompt}
-                className="mt-2 text-sm font-medium text-red-700 hover:text-red-800"
+                onClick={isSuggesting ? cancel : suggestAlternatives}
+                disabled={isGenerating}
+                className="text-sm text-orange-600 hover:text-orange-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Regenerate →
+                {isSuggesting
+                  ? 'Stop'
+                  : promptCandidates.length > 0
+                    ? 'Suggest again'
+                    : `Suggest ${promptCandidateCount} styles`}
               </button>
             </div>
+
+            {isSuggesting && (
+              <p className="text-xs text-gray-500">{requestStatus || 'Writing and ranking alternatives...'}</p>
+            )}
+
+            {promptCandidates.length > 0 && (
+              <ul className="space-y-2">
+                {promptCandidates.map((candidate, index) => (
+                  <li key={`${candidate.style}-${index}`}>
+                    <button
+                      onClick={() => handleChoose(index)}
+                      disabled={isGenerating || isSuggesting}
+                      className={`w-full text-left rounded-lg border p-3 transition-colors disabled:opacity-60 ${
+                        candidate.chosen
+                          ? 'border-orange-400 bg-orange-50'
+                          : 'border-gray-200 hover:border-orange-300'
+                      }`}
+                    >
+                      <div className="mb-1 flex items-center justify-between text-xs">
+                        <span className="rounded-full bg-gray-100 px-2 py-0.5 font-medium capitalize text-gray-700">
+                          {candidate.style}
+                        </span>
+                        {candidate.score !== null && (
+                          <span className="text-gray-500">
+                            {candidate.score}/10
+                            {candidate.subjectScore !== null && ` · subject ${candidate.subjectScore}`}
+                            {candidate.noteScore !== null && ` · note ${candidate.noteScore}`}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 font-mono leading-relaxed">{candidate.prompt}</p>
+                      {candidate.reason && <p className="mt-1 text-xs text-gray-500">{candidate.reason}</p>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {suggestError && <ErrorRecovery error={suggestError} onRetry={suggestAlternatives} compact />}
+          </div>
+
+          {/* Error state */}
+          {promptError && (
+            <ErrorRecovery error={promptError} onRetry={handleRegenerate} retryLabel="Regenerate" />
           )}
         </div>
 
@@ -181,18 +387,25 @@ export const PromptComponent: React.FC = () => {
         <div className="px-6 pb-6">
           <div className="flex gap-3">
             <button
-              onClick={generatePrompt}
-              disabled={isGenerating}
+              onClick={goBack}
+              disabled={isGenerating || isSuggesting}
+              className="px-4 py-2.5 bg-white border border-gray-200 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              ← Back
+            </button>
+            <button
+              onClick={handleRegenerate}
+              disabled={isGenerating || isSuggesting}
               className="flex-1 px-4 py-2.5 bg-white border border-gray-300 text-gray-700 rounded-lg font-medium text-sm hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Regenerate
             </button>
             <button
               onClick={handleProceed}
-              disabled={!editablePrompt || isGenerating}
+              disabled={!editablePrompt || isGenerating || isSuggesting}
               className="flex-1 px-4 py-2.5 bg-gradient-to-r from-orange-500 to-amber-500 text-white rounded-lg font-medium text-sm hover:from-orange-600 hover:to-amber-600 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Generate Video →
+              Continue →
             </button>
           </div>
         </div>
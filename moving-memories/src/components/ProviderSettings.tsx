@@ -0,0 +1,130 @@
+import React from 'react';
+import { useProviderStore, MOCK_MODE_FORCED } from '../store/providerStore';
+import { providerRegistry } from '../services/providers';
+import type { PipelineStage } from '../services/providers';
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  enhance: 'Photo enhancement',
+  prompt: 'Motion prompt',
+  video: 'Video generation',
+};
+
+export const ProviderSettings: React.FC = () => {
+  const {
+    order,
+    fallbackEnabled,
+    mockMode,
+    disabled,
+    moveProvider,
+    setProviderEnabled,
+    setFallbackEnabled,
+    setMockMode,
+    resetPreferences,
+  } = useProviderStore();
+
+  const orderedProviders = (stage: PipelineStage) => {
+    const preferred = order[stage] ?? [];
+    const rank = (id: string) => {
+      const index = preferred.indexOf(id);
+      return index === -1 ? preferred.length : index;
+    };
+    // Only list providers that belong to the current mode
+    return providerRegistry
+      .list(stage)
+      .filter((p) => !!p.capabilities.mock === (mockMode || MOCK_MODE_FORCED))
+      .sort((a, b) => rank(a.id) - rank(b.id));
+  };
+
+  const handleMove = (stage: PipelineStage, id: string, direction: -1 | 1) => {
+    // Make sure every listed provider has a slot before reordering,
+    // keeping the saved order of providers from the other mode
+    const ids = orderedProviders(stage).map((p) => p.id);
+    const others = (order[stage] ?? []).filter((other) => !ids.includes(other));
+    useProviderStore.getState().setProviderOrder(stage, [...ids, ...others]);
+    moveProvider(stage, id, direction);
+  };
+
+  return (
+    <div className="space-y-3">
+      {(Object.keys(STAGE_LABELS) as PipelineStage[]).map((stage) => {
+        const providers = orderedProviders(stage);
+        return (
+          <div key={stage}>
+            <p className="mb-1 text-xs font-medium">{STAGE_LABELS[stage]}</p>
+            <ol className="space-y-1">
+              {providers.map((provider, index) => {
+                const available = providerRegistry.isAvailable(provider);
+                const enabled = !disabled.includes(provider.id);
+                return (
+                  <li
+                    key={provider.id}
+                    className="flex items-center justify-between rounded border px-2 py-1 text-xs"
+                  >
+                    <label className={`flex items-center gap-1.5 ${available ? 'text-neutral-800' : 'text-neutral-400'}`}>
+                      <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => setProviderEnabled(provider.id, e.target.checked)}
+                        aria-label={`Use ${provider.label}`}
+                      />
+                      {index + 1}. {provider.label}
+                      {!enabled ? ' (off)' : !available && ' (no key)'}
+                    </label>
+                    <span className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => handleMove(stage, provider.id, -1)}
+                        disabled={index === 0}
+                        className="px-1 text-neutral-500 hover:text-neutral-900 disabled:opacity-30"
+                        aria-label={`Move ${provider.label} up`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleMove(stage, provider.id, 1)}
+                        disabled={index === providers.length - 1}
+                        className="px-1 text-neutral-500 hover:text-neutral-900 disabled:opacity-30"
+                        aria-label={`Move ${provider.label} down`}
+                      >
+                        ↓
+                      </button>
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        );
+      })}
+
+      <label className="flex items-center gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={mockMode || MOCK_MODE_FORCED}
+          disabled={MOCK_MODE_FORCED}
+          onChange={(e) => setMockMode(e.target.checked)}
+        />
+        Offline mock mode (no API calls{MOCK_MODE_FORCED ? ', forced by VITE_MOCK_PROVIDERS' : ''})
+      </label>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs text-neutral-700">
+          <input
+            type="checkbox"
+            checked={fallbackEnabled}
+            onChange={(e) => setFallbackEnabled(e.target.checked)}
+          />
+          Fall back to the next provider on failure
+        </label>
+        <button
+          type="button"
+          onClick={resetPreferences}
+          className="text-xs text-neutral-500 hover:text-neutral-700"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useSettingsStore } from '../store/settingsStore';
+
+/**
+ * Whether restored photos are colorized, and how strongly
+ */
+export const RestorationControls: React.FC = () => {
+  const { restoration, setRestoration } = useSettingsStore();
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={restoration.colorize}
+          onChange={(e) => setRestoration({ colorize: e.target.checked })}
+          className="mt-0.5"
+        />
+        <span>
+          Colorize restored photos
+          <span className="block text-neutral-500">When off, black-and-white and sepia photos keep their tones</span>
+        </span>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        Color intensity
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={10}
+          value={restoration.colorIntensity}
+          disabled={!restoration.colorize}
+          onChange={(e) => setRestoration({ colorIntensity: Number(e.target.value) })}
+          className="w-32 disabled:opacity-40"
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { useMemoryStore } from '../store/memoryStore';
+import { galleryService } from '../services/galleryService';
+
+export const ResumeVideoBanner: React.FC = () => {
+  const { pendingVideoOperation, currentStep, resumePendingVideo, setPendingVideoOperation } = useMemoryStore();
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const operationName = pendingVideoOperation?.operationName;
+
+  // The source image is kept in IndexedDB, not with the job
+  useEffect(() => {
+    if (!operationName) return;
+    let url: string | null = null;
+    let cancelled = false;
+    galleryService
+      .getVideoSource(operationName)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setThumbnailUrl(url);
+      })
+      .catch((error) => console.warn('[Resume] Could not load the source image:', error));
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setThumbnailUrl(null);
+    };
+  }, [operationName]);
+
+  // Only offer it outside an active generation
+  if (!pendingVideoOperation || currentStep === 'generate' || currentStep === 'complete') {
+    return null;
+  }
+
+  const startedAt = new Date(pendingVideoOperation.startedAt).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start gap-3">
+        {thumbnailUrl && (
+          <img
+            src={thumbnailUrl}
+            alt="Unfinished memory"
+            className="h-14 w-14 flex-shrink-0 rounded-lg object-cover"
+          />
+        )}
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">You have an unfinished video</p>
+          <p className="text-xs text-gray-600 mt-0.5">
+            Started at {startedAt}. It may still be rendering — resume to download it without paying again.
+          </p>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={resumePendingVideo}
+              className="rounded-lg bg-gradient-to-r from-orange-500 to-amber-500 px-3 py-1.5 text-xs font-medium text-white hover:from-orange-600 hover:to-amber-600 transition-all"
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => setPendingVideoOperation(null)}
+              className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { useMemoryStore, getNextStep, getPreviousStep } from '../store/memoryStore';
+import { useSettingsStore } from '../store/settingsStore';
+
+interface StepNavigationProps {
+  // A request is running; moving away would cancel it
+  busy?: boolean;
+  nextLabel?: string;
+  // Runs before moving on, e.g. to apply an edit; false stays on this step
+  onNext?: () => Promise<boolean>;
+}
+
+const buttonClass = 'rounded-lg px-4 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-40';
+
+/**
+ * Back and Next for the guided flow. Next is only enabled once the current
+ * step has produced what the next one needs.
+ */
+export const StepNavigation: React.FC<StepNavigationProps> = ({ busy = false, nextLabel = 'Next', onNext }) => {
+  const { currentStep, goBack, goNext, canProceedToStep } = useMemoryStore();
+  // Re-render when framing or prompt review adds or removes a step
+  useSettingsStore((state) => state.reviewPrompt);
+  useSettingsStore((state) => state.framePhotos);
+
+  const previous = getPreviousStep(currentStep);
+  const next = getNextStep(currentStep);
+
+  return (
+    <div className="flex items-center justify-between">
+      {previous ? (
+        <button
+          onClick={goBack}
+          disabled={busy}
+          className={`${buttonClass} border border-gray-200 bg-white text-gray-700 hover:bg-gray-50`}
+        >
+          ← Back
+        </button>
+      ) : (
+        <span />
+      )}
+      {next && (
+        <button
+          onClick={async () => {
+            if (!onNext || (await onNext())) goNext();
+          }}
+          disabled={busy || !canProceedToStep(next)}
+          className={`${buttonClass} bg-gradient-to-r from-orange-500 to-amber-500 text-white hover:from-orange-600 hover:to-amber-600`}
+        >
+          {nextLabel} →
+        </button>
+      )}
+    </div>
+  );
+};
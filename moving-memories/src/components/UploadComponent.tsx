@@ -1,6 +1,10 @@
 import React, { useState, useCallback, useRef } from 'react';
 import { useMemoryStore } from '../store/memoryStore';
-import { validateImageFile, processImageForGemini } from '../utils/imageProcessing';
+import { getImageProcessingOptions } from '../store/settingsStore';
+import { batchQueue } from '../services/batchQueue';
+import { providerRegistry } from '../services/providers';
+import { StepNavigation } from './StepNavigation';
+import { validateImageFile, processImageForGemini, ACCEPTED_IMAGE_TYPES } from '../utils/imageProcessing';
 
 export const UploadComponent: React.FC = () => {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -10,7 +14,7 @@ export const UploadComponent: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
-  const { setOriginalImage, originalImage, originalImageUrl } = useMemoryStore();
+  const { setOriginalImage, originalImage, originalImageUrl, originalImageDataUrl } = useMemoryStore();
 
   const handleFile = useCallback(async (file: File) => {
     setUploadError(null);
@@ -21,8 +25,11 @@ export const UploadComponent: React.FC = () => {
         setUploadError(validation.error || 'Invalid file');
         return;
       }
-      const { dataUrl } = await processImageForGemini(file);
-      setOriginalImage(file, dataUrl);
+      const { renditions, metadata } = await processImageForGemini(
+        file,
+        getImageProcessingOptions(providerRegistry.getChain('video'))
+      );
+      setOriginalImage(file, renditions, metadata);
     } catch (err) {
       setUploadError(err instanceof Error ? err.message : 'Failed to process image.');
     } finally {
@@ -30,18 +37,26 @@ export const UploadComponent: React.FC = () => {
     }
   }, [setOriginalImage]);
 
+  // Several photos go to the batch queue, a single one through the guided flow
+  const handleFiles = useCallback(async (files: File[]) => {
+    if (files.length > 1) {
+      batchQueue.addFiles(files);
+    } else if (files.length === 1) {
+      await handleFile(files[0]);
+    }
+  }, [handleFile]);
+
   const onDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) await handleFile(files[0]);
-  }, [handleFile]);
+    await handleFiles(Array.from(e.dataTransfer.files));
+  }, [handleFiles]);
 
   const onSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (files && files.length > 0) await handleFile(files[0]);
+    if (files) await handleFiles(Array.from(files));
     if (e.target) e.target.value = '';
-  }, [handleFile]);
+  }, [handleFiles]);
 
   return (
     <div className="w-full max-w-2xl mx-auto">
@@ -73,11 +88,11 @@ export const UploadComponent: React.FC = () => {
         <p className="mb-1 text-sm text-gray-600">
           Upload a photo to transform it into a beautiful moving memory.
         </p>
-        <p className="text-xs text-gray-500">JPEG, PNG, or WebP • Max 10MB</p>
+        <p className="text-xs text-gray-500">JPEG, PNG, WebP, HEIC or RAW (DNG, CR2, NEF) • Max 10MB, RAW 100MB</p>
         
         {/* Drag text */}
         <p className="mt-4 text-sm text-gray-400">
-          Drag & drop your photo, or click to browse
+          Drag & drop your photo, or click to browse. Select several to animate a whole album.
         </p>
 
         {/* Preview */}
@@ -135,8 +150,15 @@ export const UploadComponent: React.FC = () => {
         </div>
       )}
 
+      {/* Continue with the photo already uploaded after coming back */}
+      {originalImageDataUrl && (
+        <div className="mt-6">
+          <StepNavigation busy={isProcessing} />
+        </div>
+      )}
+
       {/* Hidden inputs */}
-      <input ref={fileInputRef} type="file" accept="image/*" onChange={onSelect} className="hidden" />
+      <input ref={fileInputRef} type="file" accept={ACCEPTED_IMAGE_TYPES} multiple onChange={onSelect} className="hidden" />
       <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" onChange={onSelect} className="hidden" />
     </div>
   );
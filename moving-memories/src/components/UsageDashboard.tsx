@@ -0,0 +1,197 @@
+import React from 'react';
+import { useUsageStore } from '../store/usageStore';
+import { usageTracker } from '../services/usageTracker';
+import { formatCost } from '../config/pricing';
+import type { ModelPrice, UsageAmounts } from '../config/pricing';
+
+interface UsageDashboardProps {
+  onClose: () => void;
+}
+
+type PriceField = Exclude<keyof ModelPrice, 'label'>;
+
+const PRICE_FIELDS: Record<PriceField, string> = {
+  inputPerMillionTokens: 'per 1M input tokens',
+  outputPerMillionTokens: 'per 1M output tokens',
+  perImage: 'per image',
+  perVideoSecond: 'per video second',
+};
+
+const CHART_DAYS = 14;
+const RECENT_CALLS = 10;
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const describeAmounts = (record: UsageAmounts) =>
+  [
+    record.inputTokens !== undefined && `${record.inputTokens.toLocaleString()} in`,
+    record.outputTokens !== undefined && `${record.outputTokens.toLocaleString()} out`,
+    record.imageCount !== undefined && `${record.imageCount} image${record.imageCount === 1 ? '' : 's'}`,
+    record.videoSeconds !== undefined && `${record.videoSeconds}s video`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ onClose }) => {
+  // Subscribing to the records keeps the totals below current
+  const { records, prices, budget, setPrice, resetPrices, clearRecords } = useUsageStore();
+
+  const now = Date.now();
+  const spend = usageTracker.getSpend(now);
+  const days = usageTracker.getDailySpend(CHART_DAYS, now);
+  const highestDay = Math.max(...days.map((day) => day.cost), 0.01);
+  const today = new Date(now);
+  const byModel = usageTracker.getSpendByModel(new Date(today.getFullYear(), today.getMonth(), 1).getTime());
+  const recent = records.slice(-RECENT_CALLS).reverse();
+
+  const handleClear = () => {
+    if (!window.confirm('Clear the usage history? Spending limits will count from zero again.')) return;
+    clearRecords();
+  };
+
+  const summary = [
+    { label: 'Today', cost: spend.daily, limit: budget.daily },
+    { label: 'This month', cost: spend.monthly, limit: budget.monthly },
+  ];
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Usage</h2>
+          <p className="text-sm text-gray-600 mt-1">Estimated from the prices below; your provider's bill is authoritative</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          ← Back
+        </button>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-4">
+        {summary.map(({ label, cost, limit }) => (
+          <div key={label} className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+            <p className="text-xs text-gray-500">{label}</p>
+            <p className="mt-1 text-2xl font-semibold text-gray-900">{formatCost(cost)}</p>
+            <p className={`mt-1 text-xs ${limit !== null && cost > limit ? 'text-red-600' : 'text-gray-500'}`}>
+              {limit === null ? 'No limit' : `of ${formatCost(limit)} limit`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Daily spend */}
+      <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+        <p className="mb-3 text-sm font-medium text-gray-900">Last {CHART_DAYS} days</p>
+        <div className="flex h-32 items-end gap-1">
+          {days.map((day) => (
+            <div
+              key={day.date}
+              className="flex h-full flex-1 flex-col justify-end"
+              title={`${formatDay(day.date)}: ${formatCost(day.cost)}`}
+            >
+              <div
+                className="rounded-t bg-orange-400"
+                style={{ height: `${(day.cost / highestDay) * 100}%`, minHeight: day.cost > 0 ? 2 : 0 }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-gray-400">
+          <span>{formatDay(days[0].date)}</span>
+          <span>Today</span>
+        </div>
+      </div>
+
+      {/* Per model */}
+      <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+        <p className="mb-2 text-sm font-medium text-gray-900">This month by model</p>
+        {byModel.length === 0 ? (
+          <p className="text-xs text-gray-500">No paid calls this month.</p>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {byModel.map((entry) => (
+              <li key={entry.model} className="flex justify-between gap-2">
+                <span className="text-gray-700">
+                  {entry.label} <span className="text-gray-400">({entry.calls} call{entry.calls === 1 ? '' : 's'})</span>
+                </span>
+                <span className="font-medium text-gray-900">{formatCost(entry.cost)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Recent calls */}
+      {recent.length > 0 && (
+        <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+          <p className="mb-2 text-sm font-medium text-gray-900">Recent calls</p>
+          <ul className="space-y-1 text-xs">
+            {recent.map((record) => (
+              <li key={record.id} className="flex justify-between gap-2">
+                <span className="text-gray-700">
+                  {formatTime(record.timestamp)} · {prices[record.model]?.label ?? record.model}
+                  <span className="text-gray-400">
+                    {' '}
+                    ({[describeAmounts(record), `${(record.durationMs / 1000).toFixed(1)}s`].filter(Boolean).join(', ')})
+                  </span>
+                </span>
+                <span className="shrink-0 text-gray-900">{formatCost(record.cost)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Price table */}
+      <div className="rounded-2xl border border-gray-100 bg-white p-4 shadow-sm">
+        <div className="mb-2 flex items-center justify-between">
+          <p className="text-sm font-medium text-gray-900">Prices (US$)</p>
+          <button onClick={resetPrices} className="text-xs font-medium text-gray-500 hover:text-gray-700">
+            Reset to defaults
+          </button>
+        </div>
+        <div className="space-y-3">
+          {Object.entries(prices).map(([model, price]) => (
+            <div key={model} className="text-xs">
+              <p className="text-gray-700">
+                {price.label} <span className="text-gray-400">({model})</span>
+              </p>
+              <div className="mt-1 flex flex-wrap gap-3">
+                {(Object.keys(PRICE_FIELDS) as PriceField[])
+                  .filter((field) => price[field] !== undefined)
+                  .map((field) => (
+                    <label key={field} className="flex items-center gap-1 text-gray-500">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={price[field]}
+                        onChange={(e) => e.target.value && setPrice(model, { [field]: Math.max(0, Number(e.target.value)) })}
+                        className="w-20 rounded border px-2 py-1 text-xs text-gray-900"
+                      />
+                      {PRICE_FIELDS[field]}
+                    </label>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {records.length > 0 && (
+        <div className="text-right">
+          <button onClick={handleClear} className="text-xs font-medium text-red-600 hover:text-red-700">
+            Clear usage history
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useVaultStore } from '../store/vaultStore';
+import { decryptCredentials, encryptCredentials } from '../services/providers/credentials';
+import { WrongPassphraseError } from '../utils/vault';
+import type { VaultSecrets } from '../utils/vault';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const IDLE_OPTIONS = [5, 15, 30, 60, 0];
+
+interface VaultSettingsProps {
+  // Keys currently entered in the form, encrypted when the vault is created
+  secrets: VaultSecrets;
+}
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ secrets }) => {
+  const { record, secrets: unlockedSecrets, idleMinutes, unlock, lock, setIdleMinutes } = useVaultStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasKeys = !!(secrets.gemini || secrets.replicate);
+  const canCreate = hasKeys && passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation;
+
+  // Key derivation takes a moment, so actions show a busy state
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? 'Wrong passphrase' : err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The settings form around this section must not submit on Enter
+  const onEnter = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    action();
+  };
+
+  if (!record) {
+    const create = () => canCreate && run(() => encryptCredentials(passphrase, secrets));
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-neutral-600">
+          Encrypt your keys with a passphrase instead of storing them in plain text. You enter it once per session.
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={onEnter(create)}
+          placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+          autoComplete="new-password"
+          className="w-full rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
+        />
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          onKeyDown={onEnter(create)}
+          placeholder="Repeat passphrase"
+          autoComplete="new-password"
+          className="w-full rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
+        />
+        {confirmation && passphrase !== confirmation && (
+          <p className="text-xs text-red-600">The passphrases do not match</p>
+        )}
+        <button
+          type="button"
+          onClick={create}
+          disabled={!canCreate || busy}
+          className="rounded border bg-white px-3 py-2 text-sm hover:bg-neutral-50 disabled:opacity-50"
+        >
+          {busy ? 'Encrypting...' : 'Encrypt keys'}
+        </button>
+        {!hasKeys && <p className="text-xs text-neutral-500">Enter a key above first.</p>}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  if (!unlockedSecrets) {
+    const submit = () => passphrase && run(() => unlock(passphrase));
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-neutral-600">Your keys are locked. Unlock them to view or change them.</p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={onEnter(submit)}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            className="min-w-0 flex-1 rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
+          />
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!passphrase || busy}
+            className="rounded border bg-white px-3 py-2 text-sm hover:bg-neutral-50 disabled:opacity-50"
+          >
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-neutral-600">Your keys are encrypted and unlocked for this session.</p>
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        Lock after inactivity
+        <select
+          value={idleMinutes}
+          onChange={(e) => setIdleMinutes(Number(e.target.value))}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {IDLE_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes === 0 ? 'Never' : `${minutes} min`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={lock}
+          className="rounded border bg-white px-3 py-2 text-sm hover:bg-neutral-50"
+        >
+          Lock now
+        </button>
+        <button
+          type="button"
+          onClick={() => run(decryptCredentials)}
+          disabled={busy}
+          className="rounded border bg-white px-3 py-2 text-sm text-neutral-600 hover:bg-neutral-50 disabled:opacity-50"
+        >
+          Stop encrypting
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
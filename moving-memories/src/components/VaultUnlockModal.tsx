@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { useVaultStore } from '../store/vaultStore';
+import { clearCredentials } from '../services/providers/credentials';
+import { WrongPassphraseError } from '../utils/vault';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+}
+
+export const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({ isOpen }) => {
+  const unlock = useVaultStore((state) => state.unlock);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? 'Wrong passphrase. Please try again.' : 'Could not unlock your keys.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (!window.confirm('Remove your encrypted keys? You will need to enter them again.')) return;
+    clearCredentials();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center p-4">
+      <div className="absolute inset-0 bg-black/40" />
+      <div className="relative w-full max-w-sm rounded-lg border bg-white p-5">
+        <div className="mb-4">
+          <h2 className="text-base font-semibold">Unlock your API keys</h2>
+          <p className="text-xs text-neutral-600">Your keys are encrypted. Enter your passphrase to use them this session.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setError(null); }}
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full rounded border px-3 py-2 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-400"
+          />
+
+          {error && (
+            <div className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleForget}
+              className="rounded border border-red-200 bg-white px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+            >
+              Forgot passphrase
+            </button>
+            <button
+              type="submit"
+              disabled={!passphrase || unlocking}
+              className="flex-1 rounded bg-neutral-900 px-3 py-2 text-sm text-white hover:bg-neutral-800 disabled:opacity-50"
+            >
+              {unlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
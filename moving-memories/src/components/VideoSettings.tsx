@@ -0,0 +1,161 @@
+import React from 'react';
+import { useSettingsStore } from '../store/settingsStore';
+import { providerRegistry, validateVideoOptions } from '../services/providers';
+import type { PersonGeneration, VideoAspectRatio, VideoResolution } from '../services/providers';
+
+const ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16', '4:3', '3:4', '1:1', '21:9', '9:21'];
+const RESOLUTIONS: VideoResolution[] = ['480p', '720p', '1080p'];
+const DURATIONS = [5, 8, 10];
+
+const PERSON_GENERATION_LABELS: Record<PersonGeneration, string> = {
+  allow_all: 'Allow everyone',
+  allow_adult: 'Adults only',
+  dont_allow: 'No people',
+};
+
+const selectClass = 'rounded border px-2 py-1 text-xs';
+
+export const VideoSettings: React.FC = () => {
+  const { videoOptions, setVideoOptions, resetVideoOptions } = useSettingsStore();
+
+  // Providers in the user's chain that would be skipped with these settings
+  const chain = providerRegistry.getChain('video');
+  const skipped = chain
+    .map((provider) => ({ provider, problems: validateVideoOptions(videoOptions, provider.capabilities) }))
+    .filter(({ problems }) => problems.length > 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          Aspect ratio
+          <select
+            value={videoOptions.aspectRatio}
+            onChange={(e) => setVideoOptions({ aspectRatio: e.target.value as VideoAspectRatio })}
+            className={selectClass}
+          >
+            {ASPECT_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>
+                {ratio}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          Length
+          <select
+            value={videoOptions.durationSeconds ?? ''}
+            onChange={(e) => setVideoOptions({ durationSeconds: e.target.value ? Number(e.target.value) : null })}
+            className={selectClass}
+          >
+            <option value="">Default</option>
+            {DURATIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds}s
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          Resolution
+          <select
+            value={videoOptions.resolution ?? ''}
+            onChange={(e) => setVideoOptions({ resolution: (e.target.value || null) as VideoResolution | null })}
+            className={selectClass}
+          >
+            <option value="">Default</option>
+            {RESOLUTIONS.map((resolution) => (
+              <option key={resolution} value={resolution}>
+                {resolution}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          Audio
+          <select
+            value={videoOptions.audio === null ? '' : String(videoOptions.audio)}
+            onChange={(e) => setVideoOptions({ audio: e.target.value ? e.target.value === 'true' : null })}
+            className={selectClass}
+          >
+            <option value="">Default</option>
+            <option value="true">On</option>
+            <option value="false">Off</option>
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          People
+          <select
+            value={videoOptions.personGeneration ?? ''}
+            onChange={(e) =>
+              setVideoOptions({ personGeneration: (e.target.value || null) as PersonGeneration | null })
+            }
+            className={selectClass}
+          >
+            <option value="">Default</option>
+            {(Object.keys(PERSON_GENERATION_LABELS) as PersonGeneration[]).map((policy) => (
+              <option key={policy} value={policy}>
+                {PERSON_GENERATION_LABELS[policy]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          Seed
+          <input
+            type="number"
+            min={0}
+            value={videoOptions.seed ?? ''}
+            onChange={(e) => setVideoOptions({ seed: e.target.value ? Math.max(0, Math.round(Number(e.target.value))) : null })}
+            placeholder="Random"
+            className="w-24 rounded border px-2 py-1 text-xs"
+          />
+        </label>
+      </div>
+
+      <label className="block text-xs text-neutral-700">
+        Avoid in the video
+        <input
+          type="text"
+          value={videoOptions.negativePrompt}
+          onChange={(e) => setVideoOptions({ negativePrompt: e.target.value })}
+          placeholder="e.g. text, blur, distorted faces"
+          className="mt-1 w-full rounded border px-2 py-1 text-xs"
+        />
+      </label>
+
+      {/* Compatibility with the current provider chain */}
+      {skipped.length > 0 && (
+        <div
+          className={`rounded border p-2 text-xs ${
+            skipped.length === chain.length
+              ? 'border-red-200 bg-red-50 text-red-700'
+              : 'border-amber-200 bg-amber-50 text-amber-800'
+          }`}
+        >
+          {skipped.length === chain.length && <p className="mb-1 font-medium">No video provider can make this video.</p>}
+          {skipped.map(({ provider, problems }) => (
+            <p key={provider.id}>
+              {provider.label} will be skipped: {problems.join('; ')}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="text-right">
+        <button
+          type="button"
+          onClick={resetVideoOptions}
+          className="text-xs text-neutral-500 hover:text-neutral-700"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React from 'react';
+import { useSettingsStore, MIN_PROMPT_CANDIDATES, MAX_RETRIES } from '../store/settingsStore';
+import { PROMPT_CANDIDATE_STYLES } from '../config/prompts';
+import type { CredentialKind } from '../services/providers';
+
+const RATE_LIMIT_LABELS: Record<CredentialKind, string> = {
+  gemini: 'Gemini requests per minute',
+  replicate: 'Replicate requests per minute',
+};
+
+export const WorkflowSettings: React.FC = () => {
+  const {
+    framePhotos,
+    setFramePhotos,
+    reviewPrompt,
+    setReviewPrompt,
+    compareEnhancers,
+    setCompareEnhancers,
+    usePhotoDetails,
+    setUsePhotoDetails,
+    promptCandidateCount,
+    setPromptCandidateCount,
+    maxRetries,
+    setMaxRetries,
+    requestsPerMinute,
+    setRequestsPerMinute,
+  } = useSettingsStore();
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={framePhotos}
+          onChange={(e) => setFramePhotos(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Frame photos before enhancing
+          <span className="block text-neutral-500">Crop or extend each photo to the shape of the video; when off, the video settings decide</span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={reviewPrompt}
+          onChange={(e) => setReviewPrompt(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Review the motion prompt before generating
+          <span className="block text-neutral-500">Edit or regenerate it before any video credits are used</span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={compareEnhancers}
+          onChange={(e) => setCompareEnhancers(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Compare enhancers
+          <span className="block text-neutral-500">Run every enhancer your keys allow at once and pick a result; each one is billed</span>
+        </span>
+      </label>
+
+      <label className="flex items-start gap-2 text-xs text-neutral-700">
+        <input
+          type="checkbox"
+          checked={usePhotoDetails}
+          onChange={(e) => setUsePhotoDetails(e.target.checked)}
+          className="mt-0.5"
+        />
+        <span>
+          Use photo details in prompts
+          <span className="block text-neutral-500">When and where a photo was taken, read from the file, helps describe its motion</span>
+        </span>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        Alternative prompts to suggest
+        <select
+          value={promptCandidateCount}
+          onChange={(e) => setPromptCandidateCount(Number(e.target.value))}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {PROMPT_CANDIDATE_STYLES.slice(MIN_PROMPT_CANDIDATES - 1).map((_, i) => (
+            <option key={i} value={MIN_PROMPT_CANDIDATES + i}>
+              {MIN_PROMPT_CANDIDATES + i}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+        <span>
+          Automatic retries
+          <span className="block text-neutral-500">For rate limits, timeouts and outages</span>
+        </span>
+        <select
+          value={maxRetries}
+          onChange={(e) => setMaxRetries(Number(e.target.value))}
+          className="rounded border px-2 py-1 text-xs"
+        >
+          {Array.from({ length: MAX_RETRIES + 1 }, (_, n) => (
+            <option key={n} value={n}>
+              {n === 0 ? 'Off' : n}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {(Object.keys(RATE_LIMIT_LABELS) as CredentialKind[]).map((kind) => (
+        <label key={kind} className="flex items-center justify-between gap-2 text-xs text-neutral-700">
+          {RATE_LIMIT_LABELS[kind]}
+          <input
+            type="number"
+            min={1}
+            value={requestsPerMinute[kind]}
+            onChange={(e) => e.target.value && setRequestsPerMinute(kind, Number(e.target.value))}
+            className="w-20 rounded border px-2 py-1 text-xs"
+          />
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import { getProxyUrl } from '../store/proxyStore';
+
+export const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com';
+
+// Replicate does not allow browser calls; without the key server they go
+// through the Vite dev server proxy, which only exists in development
+const REPLICATE_DEV_PROXY = '/replicate';
+
+/**
+ * Base URL for Gemini and VEO requests
+ */
+export const getGeminiBaseUrl = (): string => {
+  const proxy = getProxyUrl();
+  return proxy ? `${proxy}/gemini` : GEMINI_API_ORIGIN;
+};
+
+/**
+ * Base URL for Replicate API v1 requests
+ */
+export const getReplicateApiBase = (): string => {
+  const proxy = getProxyUrl();
+  return `${proxy ? `${proxy}/replicate` : REPLICATE_DEV_PROXY}/v1`;
+};
+
+/**
+ * Route a Gemini file URL (e.g. a generated video) through the key server when it is used
+ */
+export const toGeminiFileUrl = (fileUri: string): string =>
+  getProxyUrl() && fileUri.startsWith(GEMINI_API_ORIGIN)
+    ? `${getGeminiBaseUrl()}${fileUri.slice(GEMINI_API_ORIGIN.length)}`
+    : fileUri;
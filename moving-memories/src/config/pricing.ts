@@ -0,0 +1,63 @@
+// Default prices per model, in US dollars. Editable in the Usage view, since
+// providers change them more often than this app is released.
+
+export interface ModelPrice {
+  label: string;
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perVideoSecond?: number;
+}
+
+// What one call consumed; only the fields that apply to the model are set
+export interface UsageAmounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+  videoSeconds?: number;
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  // Image output is billed as tokens (about 1290 per image)
+  'gemini-2.5-flash-image-preview': {
+    label: 'Gemini 2.5 Flash Image',
+    inputPerMillionTokens: 0.3,
+    outputPerMillionTokens: 30,
+  },
+  'gemini-2.5-flash': {
+    label: 'Gemini 2.5 Flash',
+    inputPerMillionTokens: 0.3,
+    outputPerMillionTokens: 2.5,
+  },
+  'veo-3.0-generate-preview': {
+    label: 'VEO 3 Preview',
+    perVideoSecond: 0.75,
+  },
+  'google/nano-banana': {
+    label: 'Replicate Nano Banana',
+    perImage: 0.039,
+  },
+  'bytedance/seedance-1-pro': {
+    label: 'Replicate Seedance 1 Pro',
+    perVideoSecond: 0.15,
+  },
+};
+
+/**
+ * Estimated cost of one call. Models without a price cost nothing.
+ */
+export function estimateCost(price: ModelPrice | undefined, amounts: UsageAmounts): number {
+  if (!price) return 0;
+  return (
+    ((amounts.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0)) / 1_000_000 +
+    ((amounts.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0)) / 1_000_000 +
+    (amounts.imageCount ?? 0) * (price.perImage ?? 0) +
+    (amounts.videoSeconds ?? 0) * (price.perVideoSecond ?? 0)
+  );
+}
+
+/**
+ * Dollar amount for display, with more precision for fractions of a cent
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
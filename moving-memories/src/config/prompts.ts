@@ -1,5 +1,6 @@
 // Editable prompts for the generation pipeline
 // These can be easily modified to change the behavior of the AI
+import type { RestorationOptions } from '../types';
 
 export const PROMPTS = {
   // Image enhancement prompt - sent to Gemini 2.5 Flash Image Preview
@@ -9,6 +10,16 @@ export const PROMPTS = {
     `,
   },
 
+  // Old photo restoration - replaces the modern look of imageEnhancement for heirloom scans
+  restoration: {
+    base: `Restore this old photograph. Repair dust, scratches, creases, stains and tears, fill in small missing areas,
+    and recover detail in faded areas with gentle contrast. Preserve its period character: film grain, clothing, hairstyles
+    and photographic style stay true to the era. Do not make it look like a modern digital photo.`,
+    keepTones: 'Keep its original black-and-white or sepia tones; do not add color.',
+    colorize: (strength: string) =>
+      `Colorize it with ${strength} colors that are believable for the era and the scene, keeping skin tones natural.`,
+  },
+
   // Video generation prompt - creates motion description
   videoGeneration: {
     base: `Look at the image and describe what could realistically happen in the next 5 seconds, boring is fine. IF a 
@@ -22,11 +33,96 @@ export const PROMPTS = {
   }
 };
 
-// Helper to get the appropriate prompt
-export const getEnhancementPrompt = (_userNote?: string): string => {
-  return PROMPTS.imageEnhancement.base;
+// Fills the blurred border left around a photo when it is extended to the
+// video's shape instead of cropped
+export const OUTPAINT_INSTRUCTION = `The original photo sits in the middle of a larger canvas; the blurred area around it is only a placeholder.
+Extend the scene into that area so the result looks like one photo taken with a wider frame: continue the background, light, perspective and grain seamlessly.
+Do not change anything inside the original photo and do not add people or objects that draw attention.`;
+
+// Used when no motion prompt could be generated for a photo
+export const FALLBACK_MOTION_PROMPT = 'A gentle, cinematic motion around this cherished memory.';
+
+// Enhancement presets for different kinds of photos. Automatic mode picks
+// one by classifying the photo first.
+export const IMAGE_ENHANCEMENT_PROMPTS = {
+  portrait: 'Enhance this portrait with warm, natural lighting and gentle color grading. Bring out the subject\'s natural beauty while preserving authentic skin tones and genuine expressions. Add a subtle nostalgic quality.',
+  
+  landscape: 'Enhance this landscape with rich, natural colors and improved dynamic range. Bring out details in both shadows and highlights, add subtle warmth, and create a sense of peaceful, timeless beauty.',
+  
+  family: 'Enhance this family photo with warm, inviting tones that emphasize connection and joy. Improve lighting naturally, enhance facial expressions, and add a cozy, heartfelt quality that celebrates the relationship.',
+  
+  event: 'Enhance this special moment with vibrant yet natural colors. Improve lighting and contrast to highlight the celebration, while maintaining the authentic energy and emotion of the occasion.',
+  
+  nature: 'Enhance this nature scene with rich, saturated colors and improved clarity. Bring out natural textures and details, add subtle warmth to create an inviting, serene atmosphere.',
+  
+  vintage: 'Enhance this image while preserving its vintage character. Improve clarity and contrast gently, add warm nostalgic tones, and maintain the authentic period feel.',
+} as const;
+
+export type EnhancementPresetId = keyof typeof IMAGE_ENHANCEMENT_PROMPTS;
+
+export const ENHANCEMENT_PRESET_LABELS: Record<EnhancementPresetId, string> = {
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+  family: 'Family',
+  event: 'Event',
+  nature: 'Nature',
+  vintage: 'Vintage',
+};
+
+// Helper to get the appropriate prompt. A preset instruction replaces the
+// general one; the user note is folded in either way.
+export const getEnhancementPrompt = (userNote?: string, presetInstruction?: string): string => {
+  if (!presetInstruction && !userNote?.trim()) return PROMPTS.imageEnhancement.base;
+
+  const instruction = presetInstruction
+    ? `${presetInstruction.trim()}\nKeep the people and the scene exactly as they are. Return only the updated image and nothing else.`
+    : PROMPTS.imageEnhancement.base.trim();
+  return userNote?.trim()
+    ? `${instruction}\nThe person who shared this photo says: "${userNote.trim()}". Let it guide the mood and colors, without adding or removing anything.`
+    : instruction;
 };
 
-export const getVideoPrompt = (userNote?: string): string => {
-  return userNote ? PROMPTS.videoGeneration.withUserNote(userNote) : PROMPTS.videoGeneration.base;
-};
\ No newline at end of file
+// Restoration instruction; colorIntensity picks how strong the added color is
+export const getRestorationPrompt = ({ colorize, colorIntensity }: RestorationOptions): string => {
+  if (!colorize) return `${PROMPTS.restoration.base}\n${PROMPTS.restoration.keepTones}`;
+  const strength = colorIntensity < 34 ? 'subtle, muted' : colorIntensity < 67 ? 'natural, period-appropriate' : 'rich but realistic';
+  return `${PROMPTS.restoration.base}\n${PROMPTS.restoration.colorize(strength)}`;
+};
+
+// Sort a photo into one of the preset categories before it is enhanced
+export const getClassificationPrompt = (categories: string[]): string =>
+  `Look at the photo and decide which kind of photo it is: ${categories.join(', ')}.
+Pick "vintage" only for old or faded photos, "family" for several people who appear close, "portrait" for one or two people in focus.
+Return JSON with a single "category" field set to one of the listed values.`;
+
+// photoContext is when and where the photo was taken, read from its EXIF,
+// e.g. "winter 1994, near 43.70°N 7.27°E"
+export const getVideoPrompt = (userNote?: string, photoContext?: string): string => {
+  const prompt = userNote ? PROMPTS.videoGeneration.withUserNote(userNote) : PROMPTS.videoGeneration.base;
+  return photoContext?.trim()
+    ? `${prompt}\nThe photo was taken in ${photoContext.trim()}. Let the season, the era and the place shape the light, the weather and the clothing, without changing what is in the photo.`
+    : prompt;
+};
+
+// Style labels offered when suggesting alternative motion prompts
+export const PROMPT_CANDIDATE_STYLES = ['subtle', 'playful', 'cinematic', 'nostalgic', 'lively'];
+
+// Several motion descriptions at once, one per style
+export const getPromptCandidatesPrompt = (styles: string[], userNote?: string, photoContext?: string): string =>
+  `${getVideoPrompt(userNote, photoContext)}
+
+Write ${styles.length} distinct alternatives, one for each of these styles: ${styles.join(', ')}.
+Keep every alternative realistic, keep the people and scene exactly as they are, and keep each under 60 words.
+Return a JSON array of objects with "style" and "prompt".`;
+
+// Ask the model to judge candidates against the photo and the user note
+export const getPromptRankingPrompt = (prompts: string[], userNote?: string): string =>
+  `You are reviewing motion descriptions for turning the attached photo into a 5 second video.
+For each numbered description give:
+- "subjectScore" (0-10): how well it preserves the subject's identity, appearance and the scene
+- "noteScore" (0-10): how well it follows the user's note${userNote ? `: "${userNote}"` : ' (there is no note, use null)'}
+- "reason": one short sentence
+
+${prompts.map((prompt, i) => `${i + 1}. ${prompt}`).join('\n')}
+
+Return a JSON array with one object per description, in the same order.`;
@@ -0,0 +1,287 @@
+import { useBatchStore } from '../store/batchStore';
+import { useSettingsStore, getImageProcessingOptions, getPhotoContext } from '../store/settingsStore';
+import { providerRegistry, applyVideoQuality } from './providers';
+import { galleryService } from './galleryService';
+import { usageTracker } from './usageTracker';
+import { presetService } from './presetService';
+import { FALLBACK_MOTION_PROMPT } from '../config/prompts';
+import { imageForUse, processImageForGemini, validateImageFile } from '../utils/imageProcessing';
+import { createAbortError, isAbortError, throwIfAborted } from '../utils/abort';
+import { createProcessingError, toPipelineError } from '../utils/errors';
+import type { VideoProvider } from './providers';
+import type { BatchJob, BatchJobStatus, ProcessingStep } from '../types';
+
+const getJob = (id: string) => useBatchStore.getState().jobs.find((job) => job.id === id);
+const updateJob = (id: string, patch: Partial<BatchJob>) => useBatchStore.getState().updateJob(id, patch);
+
+// Workflow step a running job is in, for errors raised outside the provider chain
+const STATUS_STEPS: Partial<Record<BatchJobStatus, ProcessingStep>> = {
+  preparing: 'upload',
+  enhancing: 'enhance',
+  prompting: 'prompt',
+  generating: 'generate',
+};
+
+/**
+ * Runs many photos through enhance → prompt → video without supervision.
+ * Job state lives in the batch store; this class owns the running work.
+ * Batch video jobs are not resumable after a reload.
+ */
+class BatchQueue {
+  private controllers = new Map<string, AbortController>();
+
+  /**
+   * Queue photos for processing. Files that can never be processed are
+   * added as failed jobs so the summary still accounts for them.
+   */
+  addFiles(files: File[]): void {
+    const jobs = files.map((file): BatchJob => {
+      const validation = validateImageFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        status: validation.isValid ? 'queued' : 'failed',
+        statusMessage: validation.isValid ? 'Waiting...' : 'Skipped',
+        progress: 0,
+        error: validation.isValid
+          ? null
+          : createProcessingError('upload', validation.error || 'Invalid file', false, 'invalid_image'),
+        retryable: validation.isValid,
+        attempts: 0,
+        renditions: null,
+        photoMetadata: null,
+        enhancedImageUrl: null,
+        caption: null,
+        motionPrompt: '',
+        videoUrl: null,
+        providersUsed: {},
+        savedMemoryId: null,
+      };
+    });
+
+    useBatchStore.getState().addJobs(jobs);
+    this.pump();
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue. Finished stages are kept.
+   */
+  retry(id: string): void {
+    const job = getJob(id);
+    if (!job || !job.retryable || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    updateJob(id, { status: 'queued', statusMessage: 'Waiting...', error: null });
+    this.pump();
+  }
+
+  /**
+   * Retry every failed or cancelled job
+   */
+  retryAll(): void {
+    useBatchStore.getState().jobs.forEach((job) => this.retry(job.id));
+  }
+
+  /**
+   * Cancel one job, whether it is running or still waiting
+   */
+  cancel(id: string): void {
+    const controller = this.controllers.get(id);
+    if (controller) {
+      controller.abort();
+    } else if (getJob(id)?.status === 'queued') {
+      updateJob(id, { status: 'cancelled', statusMessage: 'Cancelled' });
+    }
+  }
+
+  /**
+   * Cancel every running and waiting job
+   */
+  cancelAll(): void {
+    useBatchStore.getState().jobs.forEach((job) => this.cancel(job.id));
+  }
+
+  /**
+   * Remove a job from the batch, cancelling it first
+   */
+  remove(id: string): void {
+    this.cancel(id);
+    useBatchStore.getState().removeJob(id);
+  }
+
+  /**
+   * Cancel everything and empty the batch
+   */
+  clear(): void {
+    this.cancelAll();
+    useBatchStore.getState().clearJobs();
+  }
+
+  /**
+   * Change how many photos run at once. Raising it starts waiting jobs
+   * right away; lowering it lets running jobs finish.
+   */
+  setConcurrency(concurrency: number): void {
+    useBatchStore.getState().setConcurrency(concurrency);
+    this.pump();
+  }
+
+  // Start waiting jobs in upload order until the concurrency limit is reached
+  private pump(): void {
+    const { jobs, concurrency } = useBatchStore.getState();
+    for (const job of jobs) {
+      if (this.controllers.size >= concurrency) break;
+      if (job.status === 'queued' && !this.controllers.has(job.id)) {
+        void this.start(job);
+      }
+    }
+  }
+
+  private async start(job: BatchJob): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    updateJob(job.id, { attempts: job.attempts + 1, error: null });
+
+    try {
+      await this.process(job.id, controller.signal);
+      updateJob(job.id, { status: 'done', statusMessage: 'Done', progress: 100 });
+      await this.saveToGallery(job.id);
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateJob(job.id, { status: 'cancelled', statusMessage: 'Cancelled' });
+      } else {
+        console.error(`[Batch] ${job.file.name} failed:`, error);
+        const step = STATUS_STEPS[getJob(job.id)?.status ?? 'preparing'] ?? 'upload';
+        updateJob(job.id, { status: 'failed', statusMessage: 'Failed', error: toPipelineError(step, error) });
+      }
+    } finally {
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+
+  // Run the stages this job has not finished yet
+  private async process(id: string, signal: AbortSignal): Promise<void> {
+    const current = () => {
+      const job = getJob(id);
+      // Removed from the batch while running
+      if (!job) throw createAbortError('Job removed');
+      return job;
+    };
+
+    if (!current().renditions) {
+      updateJob(id, { status: 'preparing', statusMessage: 'Preparing photo...', progress: 5 });
+      const { renditions, metadata } = await processImageForGemini(
+        current().file,
+        getImageProcessingOptions(providerRegistry.getChain('video'))
+      );
+      throwIfAborted(signal);
+      updateJob(id, { renditions, photoMetadata: metadata });
+    }
+
+    if (!current().enhancedImageUrl) {
+      updateJob(id, { status: 'enhancing', statusMessage: 'Enhancing photo...', progress: 15 });
+      const preset = await presetService.resolve(current().renditions!.analysis, { signal });
+      throwIfAborted(signal);
+      const { result, providerId } = await providerRegistry.run(
+        'enhance',
+        (provider) =>
+          provider.enhance({
+            imageDataUrl: current().renditions!.enhance,
+            instruction: preset ? presetService.find(preset.presetId)?.instruction : undefined,
+            onProgress: (status) => updateJob(id, { statusMessage: status }),
+            signal,
+          }),
+        { signal }
+      );
+      throwIfAborted(signal);
+      updateJob(id, {
+        enhancedImageUrl: result.imageUrl,
+        caption: result.caption,
+        providersUsed: { ...current().providersUsed, enhance: providerId },
+      });
+    }
+
+    if (!current().motionPrompt) {
+      updateJob(id, { status: 'prompting', statusMessage: 'Writing motion prompt...', progress: 35 });
+      try {
+        const { result, providerId } = await providerRegistry.run(
+          'prompt',
+          (provider) =>
+            provider.generatePrompt({
+              imageDataUrl: imageForUse(current().enhancedImageUrl, current().renditions, 'analysis')!,
+              caption: current().caption || undefined,
+              photoContext: getPhotoContext(current().photoMetadata),
+              onProgress: (status) => updateJob(id, { statusMessage: status }),
+              signal,
+            }),
+          { signal }
+        );
+        updateJob(id, {
+          motionPrompt: result,
+          providersUsed: { ...current().providersUsed, prompt: providerId },
+        });
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) throw error;
+        console.error('[Batch] Motion prompt generation failed:', error);
+        updateJob(id, { motionPrompt: FALLBACK_MOTION_PROMPT });
+      }
+    }
+
+    // Nobody is there to confirm going over a limit, so warn mode refuses too
+    const options = useSettingsStore.getState().videoOptions;
+    const optionsFor = (provider: VideoProvider) =>
+      applyVideoQuality(provider, options, useSettingsStore.getState().qualitySettings.videoQuality);
+    const firstProvider = providerRegistry.getChain('video')[0];
+    const overrun = usageTracker.checkBudget(
+      usageTracker.estimateVideoCost(firstProvider, firstProvider ? optionsFor(firstProvider) : options)
+    );
+    if (overrun) {
+      throw createProcessingError('generate', usageTracker.describeOverrun(overrun), false, 'budget_exceeded');
+    }
+
+    updateJob(id, { status: 'generating', statusMessage: 'Generating video...', progress: 50 });
+    const { result, providerId } = await providerRegistry.run(
+      'video',
+      (provider) =>
+        provider.generateVideo({
+          imageDataUrl: imageForUse(current().enhancedImageUrl, current().renditions, 'video')!,
+          prompt: current().motionPrompt,
+          options: optionsFor(provider),
+          onProgress: (status) => updateJob(id, { statusMessage: status }),
+          signal,
+        }),
+      { signal, resolutionFor: (provider) => optionsFor(provider).resolution }
+    );
+    throwIfAborted(signal);
+    updateJob(id, {
+      videoUrl: result,
+      providersUsed: { ...current().providersUsed, video: providerId },
+    });
+  }
+
+  // A failed save does not fail the job; its video can still be downloaded
+  private async saveToGallery(id: string): Promise<void> {
+    const job = getJob(id);
+    if (!job?.videoUrl) return;
+
+    try {
+      const memory = await galleryService.saveResult({
+        id: job.savedMemoryId ?? undefined,
+        originalImage: job.file,
+        enhancedImageUrl: job.enhancedImageUrl,
+        videoUrl: job.videoUrl,
+        caption: job.caption,
+        userNote: '',
+        motionPrompt: job.motionPrompt,
+        photoMetadata: job.photoMetadata,
+        providersUsed: job.providersUsed,
+      });
+      updateJob(id, { savedMemoryId: memory.id });
+    } catch (error) {
+      console.error(`[Batch] Failed to save ${job.file.name} to the gallery:`, error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const batchQueue = new BatchQueue();
@@ -0,0 +1,185 @@
+import type { MemoryState, SavedMemory } from '../types';
+
+const DB_NAME = 'moving-memories';
+const DB_VERSION = 2;
+const STORE_NAME = 'memories';
+// Source images of unfinished video jobs, by operation name
+const SOURCES_STORE_NAME = 'videoSources';
+
+// What a finished run hands over to be saved
+interface FinishedMemory {
+  id?: string; // replaces an earlier save of the same run
+  originalImage: File | null;
+  enhancedImageUrl: string | null;
+  videoUrl: string;
+  caption: string | null;
+  userNote: string;
+  motionPrompt: string;
+  promptCandidates?: SavedMemory['promptCandidates'];
+  photoMetadata?: SavedMemory['photoMetadata'];
+  providersUsed: SavedMemory['providersUsed'];
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Fetch any displayable URL (blob:, data: or http) into a Blob
+ */
+async function urlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read media (HTTP ${response.status})`);
+  }
+  return response.blob();
+}
+
+class GalleryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Open (and on first use create) the gallery database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('This browser does not support local storage of memories.'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('createdAt', 'createdAt');
+          }
+          if (!db.objectStoreNames.contains(SOURCES_STORE_NAME)) {
+            db.createObjectStore(SOURCES_STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error ?? new Error('Failed to open the memory gallery'));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async objectStore(mode: IDBTransactionMode, name = STORE_NAME): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  /**
+   * Add or replace a memory
+   */
+  async save(memory: SavedMemory): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(memory));
+  }
+
+  /**
+   * All memories, newest first
+   */
+  async list(): Promise<SavedMemory[]> {
+    const store = await this.objectStore('readonly');
+    const memories = await promisify<SavedMemory[]>(store.index('createdAt').getAll());
+    return memories.reverse();
+  }
+
+  /**
+   * Get a single memory by id
+   */
+  async get(id: string): Promise<SavedMemory | undefined> {
+    const store = await this.objectStore('readonly');
+    return promisify<SavedMemory | undefined>(store.get(id));
+  }
+
+  /**
+   * Delete a memory by id
+   */
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.delete(id));
+  }
+
+  /**
+   * Keep the image a video job was started from, so it can be shown and
+   * restored when the job is resumed after a reload
+   */
+  async keepVideoSource(operationName: string, imageUrl: string): Promise<void> {
+    const blob = await urlToBlob(imageUrl);
+    const store = await this.objectStore('readwrite', SOURCES_STORE_NAME);
+    await promisify(store.put(blob, operationName));
+  }
+
+  async getVideoSource(operationName: string): Promise<Blob | undefined> {
+    const store = await this.objectStore('readonly', SOURCES_STORE_NAME);
+    return promisify<Blob | undefined>(store.get(operationName));
+  }
+
+  async dropVideoSource(operationName: string): Promise<void> {
+    const store = await this.objectStore('readwrite', SOURCES_STORE_NAME);
+    await promisify(store.delete(operationName));
+  }
+
+  /**
+   * Save a finished memory. Media URLs are read back into Blobs so they
+   * outlive the session.
+   */
+  async saveResult(result: FinishedMemory): Promise<SavedMemory> {
+    const memory: SavedMemory = {
+      id: result.id ?? crypto.randomUUID(),
+      createdAt: Date.now(),
+      photoLastModified: result.originalImage?.lastModified ?? null,
+      originalImage: result.originalImage,
+      enhancedImage: result.enhancedImageUrl ? await urlToBlob(result.enhancedImageUrl) : null,
+      video: await urlToBlob(result.videoUrl),
+      caption: result.caption ?? '',
+      userNote: result.userNote,
+      motionPrompt: result.motionPrompt,
+      promptCandidates: result.promptCandidates ?? [],
+      photoMetadata: result.photoMetadata ?? null,
+      providersUsed: result.providersUsed,
+    };
+
+    await this.save(memory);
+    return memory;
+  }
+
+  /**
+   * Save the finished memory from the current workflow state
+   */
+  async saveFromState(state: MemoryState): Promise<SavedMemory> {
+    if (!state.videoUrl) {
+      throw new Error('There is no finished video to save yet.');
+    }
+
+    return this.saveResult({
+      id: state.savedMemoryId ?? undefined,
+      originalImage: state.originalImage,
+      enhancedImageUrl: state.enhancedImageUrl,
+      videoUrl: state.videoUrl,
+      caption: state.enhancedImageCaption,
+      userNote: state.userNote,
+      motionPrompt: state.motionPrompt,
+      promptCandidates: state.promptCandidates,
+      photoMetadata: state.photoMetadata,
+      providersUsed: state.providersUsed,
+    });
+  }
+}
+
+// Export a singleton instance
+export const galleryService = new GalleryService();
@@ -1,6 +1,18 @@
-import { GoogleGenAI } from '@google/genai';
-import type { GeminiImageResponse } from '../types';
-import { getEnhancementPrompt, getVideoPrompt } from '../config/prompts';
+import { GenerateContentResponse, GoogleGenAI, Type } from '@google/genai';
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import type { GeminiImageResponse, ProcessingStep } from '../types';
+import {
+  getEnhancementPrompt,
+  getClassificationPrompt,
+  getVideoPrompt,
+  getPromptCandidatesPrompt,
+  getPromptRankingPrompt,
+} from '../config/prompts';
+import { rethrowIfAborted } from '../utils/abort';
+import { PipelineError, fromGoogleError } from '../utils/errors';
+import { requestLayer } from './requestLayer';
+import { usageTracker } from './usageTracker';
+import { getGeminiBaseUrl } from '../config/api';
 
 type CandidatePart = {
   text?: string;
@@ -10,35 +22,132 @@ type CandidatePart = {
   };
 };
 
-type StreamChunk = {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string;
-      }>;
-    };
-  }>;
-};
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const TEXT_MODEL = 'gemini-2.5-flash';
+// Video models answer predictLongRunning only, not generateContent or countTokens
+const VEO_MODEL_PREFIX = 'veo-';
+
+// Finish reasons that mean the output was withheld by a content filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII'];
+
+/**
+ * Throw when Gemini refused the request or withheld its answer
+ */
+function assertNotBlocked(step: ProcessingStep, response: GenerateContentResponse): void {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new PipelineError({ step, code: 'safety_blocked' });
+  }
+}
+
+const notInitialized = (step: ProcessingStep) =>
+  new PipelineError({ step, code: 'missing_key', message: 'Gemini service not initialized. Please provide an API key.' });
 
 class GeminiService {
   private ai: GoogleGenAI | null = null;
   
   /**
-   * Initialize the service with an API key
+   * Initialize the service with an API key. Requests go to the key server
+   * when one is configured; it replaces the key with its own.
    */
   init(providedApiKey?: string): void {
     if (!providedApiKey) {
-      throw new Error('API key is required. Please provide your Gemini API key.');
+      throw new PipelineError({
+        step: 'enhance',
+        code: 'missing_key',
+        message: 'API key is required. Please provide your Gemini API key.',
+      });
     }
-    this.ai = new GoogleGenAI({ apiKey: providedApiKey });
+    this.ai = new GoogleGenAI({ apiKey: providedApiKey, httpOptions: { baseUrl: getGeminiBaseUrl() } });
   }
   
+  /**
+   * Drop the client holding the key, e.g. when the key vault locks
+   */
+  clearKey(): void {
+    this.ai = null;
+  }
+
   /**
    * Check if the service is initialized
    */
   isInitialized(): boolean {
     return this.ai !== null;
   }
+
+  /**
+   * Send a request through the shared request layer (rate limit and retries),
+   * converting API failures to typed errors so transient ones are retried.
+   * The tokens a successful call used are recorded.
+   */
+  private async request<T>(
+    step: ProcessingStep,
+    model: string,
+    call: (ai: GoogleGenAI, model: string) => Promise<T>,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<T> {
+    if (!this.ai) throw notInitialized(step);
+
+    const startedAt = Date.now();
+    const result = await requestLayer.run(
+      'gemini',
+      async () => {
+        // Looked up on every attempt: retries stop once the key is cleared
+        const ai = this.ai;
+        if (!ai) throw notInitialized(step);
+        try {
+          return await call(ai, model);
+        } catch (error) {
+          rethrowIfAborted(error, signal);
+          throw fromGoogleError(step, error);
+        }
+      },
+      { signal, onProgress }
+    );
+    // Streams report their usage in the last chunk instead
+    if (result instanceof GenerateContentResponse) {
+      this.recordUsage(step, model, startedAt, result.usageMetadata);
+    }
+    return result;
+  }
+
+  /**
+   * Same as request for streaming calls; usage is recorded once the stream ends
+   */
+  private async *requestStream(
+    step: ProcessingStep,
+    model: string,
+    call: (ai: GoogleGenAI, model: string) => Promise<AsyncIterable<GenerateContentResponse>>,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): AsyncGenerator<GenerateContentResponse, void, unknown> {
+    const startedAt = Date.now();
+    const stream = await this.request(step, model, call, signal, onProgress);
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usageMetadata ?? usage;
+      yield chunk;
+    }
+    this.recordUsage(step, model, startedAt, usage);
+  }
+
+  // Thinking tokens are billed as output
+  private recordUsage(
+    step: ProcessingStep,
+    model: string,
+    startedAt: number,
+    usage?: GenerateContentResponseUsageMetadata
+  ): void {
+    usageTracker.record({
+      account: 'gemini',
+      model,
+      step,
+      startedAt,
+      inputTokens: usage?.promptTokenCount ?? 0,
+      outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+    });
+  }
   
   /**
    * Enhance an image using Gemini 2.5 Flash Image Preview
@@ -46,14 +155,16 @@ class GeminiService {
   async enhanceImage(
     base64Image: string, 
     mimeType: string = 'image/jpeg',
-    userNote?: string
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void,
+    presetInstruction?: string
   ): Promise<GeminiImageResponse> {
     if (!this.ai) {
-      throw new Error('Gemini service not initialized. Please provide an API key.');
+      throw notInitialized('enhance');
     }
     
-    const instruction = getEnhancementPrompt(userNote);
-    console.log('[Gemini] enhancement prompt:', instruction);
+    const instruction = getEnhancementPrompt(userNote, presetInstruction);
     
     try {
       // Try different content structures - array format like in the docs
@@ -67,70 +178,94 @@ class GeminiService {
         }
       ];
       
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: prompt
-      });
+      const response = await this.request('enhance', IMAGE_MODEL, (ai, model) => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { abortSignal: signal },
+      }), signal, onProgress);
 
-      console.log('[Gemini] Full API response:', JSON.stringify(response, null, 2));
+      assertNotBlocked('enhance', response);
       const parts = (response.candidates?.[0]?.content?.parts as CandidatePart[] | undefined) || [];
-      console.log('[Gemini] Response parts count:', parts.length);
       
       const images: string[] = [];
       let caption = '';
       
       for (const part of parts) {
-        console.log('[Gemini] Processing part:', {
-          hasText: !!part.text,
-          hasInlineData: !!part.inlineData,
-          inlineDataKeys: part.inlineData ? Object.keys(part.inlineData) : []
-        });
-        
         if (part.text) {
           caption += part.text + '\n';
         }
         
         const inline = part.inlineData;
         if (inline && inline.data && inline.mimeType) {
-          console.log('[Gemini] Found image data! MimeType:', inline.mimeType);
           const dataUrl = `data:${inline.mimeType};base64,${inline.data}`;
           images.push(dataUrl);
         }
       }
       
-      if (images.length === 0) {
-        console.warn('[Gemini] No enhanced images returned from API, using original image');
-        console.log('[Gemini] API response parts:', parts);
+      const enhanced = images.length > 0;
+      if (!enhanced) {
+        console.warn('[Gemini] No enhanced images returned from API, returning the original image');
         const enhancedUrl = `data:${mimeType};base64,${base64Image}`;
         images.push(enhancedUrl);
         
         if (!caption) {
           caption = 'Image processed successfully';
         }
-      } else {
-        console.log('[Gemini] Successfully received', images.length, 'enhanced image(s)');
       }
       
       return {
         images,
         caption: caption.trim(),
+        enhanced,
       };
       
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('quota')) {
-          throw new Error('API quota exceeded. Please check your Gemini API usage limits.');
-        }
-        if (error.message.includes('safety')) {
-          throw new Error('Image was rejected for safety reasons. Please try a different image.');
-        }
-        if (error.message.includes('key')) {
-          throw new Error('Invalid API key. Please check your Gemini API key.');
-        }
+      rethrowIfAborted(error, signal);
+      console.error('[Gemini] enhanceImage error:', error);
+      throw fromGoogleError('enhance', error);
+    }
+  }
+
+  /**
+   * Read a data URL or http(s) image into inline base64 data for a request
+   */
+  private async loadInlineImage(
+    imageDataUrl: string,
+    signal?: AbortSignal
+  ): Promise<{ mimeType: string; base64: string }> {
+    if (imageDataUrl.startsWith('data:')) {
+      // It's a data URL
+      const mimeMatch = imageDataUrl.match(/^data:([^;]+);base64,/i);
+      const base64 = imageDataUrl.split(',')[1] || '';
+      if (!base64) {
+        throw new PipelineError({ step: 'prompt', code: 'invalid_image', message: 'Invalid data URL: missing base64 data' });
       }
-      
-      throw new Error('Failed to enhance image. Please try again.');
+      return { mimeType: mimeMatch?.[1] || 'image/jpeg', base64 };
     }
+
+    if (imageDataUrl.startsWith('http')) {
+      // It's a regular URL - need to fetch and convert to base64
+      const response = await fetch(imageDataUrl, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch image: ${response.status}`);
+      }
+      const blob = await response.blob();
+
+      // Convert blob to base64
+      const reader = new FileReader();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+      });
+      return { mimeType: blob.type || 'image/jpeg', base64: dataUrl.split(',')[1] || '' };
+    }
+
+    throw new PipelineError({
+      step: 'prompt',
+      code: 'invalid_image',
+      message: 'Invalid image format: must be either a data URL or HTTP URL',
+    });
   }
 
   /**
@@ -138,53 +273,23 @@ class GeminiService {
    */
   async generateVideoPromptFromImage(
     imageDataUrl: string,
-    userNote?: string
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void,
+    photoContext?: string
   ): Promise<string> {
     if (!this.ai) {
-      throw new Error('Gemini service not initialized. Please provide an API key.');
+      throw notInitialized('prompt');
     }
 
-    const prompt = getVideoPrompt(userNote);
-    console.log('[Gemini] video prompt (from image):', prompt);
+    const prompt = getVideoPrompt(userNote, photoContext);
 
     try {
-      let base64: string;
-      let mimeType: string;
-
-      if (imageDataUrl.startsWith('data:')) {
-        // It's a data URL
-        const mimeMatch = imageDataUrl.match(/^data:([^;]+);base64,/i);
-        mimeType = mimeMatch?.[1] || 'image/jpeg';
-        base64 = imageDataUrl.split(',')[1] || '';
-        
-        if (!base64) {
-          throw new Error('Invalid data URL: missing base64 data');
-        }
-      } else if (imageDataUrl.startsWith('http')) {
-        // It's a regular URL - need to fetch and convert to base64
-        console.log('[Gemini] Fetching image from URL:', imageDataUrl);
-        const response = await fetch(imageDataUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch image: ${response.status}`);
-        }
-        const blob = await response.blob();
-        mimeType = blob.type || 'image/jpeg';
-        
-        // Convert blob to base64
-        const reader = new FileReader();
-        const dataUrl = await new Promise<string>((resolve, reject) => {
-          reader.onloadend = () => resolve(reader.result as string);
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
-        base64 = dataUrl.split(',')[1] || '';
-      } else {
-        throw new Error('Invalid image format: must be either a data URL or HTTP URL');
-      }
+      const { mimeType, base64 } = await this.loadInlineImage(imageDataUrl, signal);
 
       // Use the correct API format for Gemini
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+      const response = await this.request('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContent({
+        model,
         contents: [
           {
             parts: [
@@ -198,21 +303,17 @@ class GeminiService {
             ]
           }
         ],
-      });
+        config: { abortSignal: signal },
+      }), signal, onProgress);
 
+      assertNotBlocked('prompt', response);
       const text = response.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || '';
       if (!text) throw new Error('No motion prompt was generated');
       return text.replace(/^["']|["']$/g, '').replace(/\n+/g, ' ').trim();
     } catch (error) {
+      rethrowIfAborted(error, signal);
       console.error('[Gemini] generateVideoPromptFromImage error:', error);
-      if (error instanceof Error) {
-        // Don't wrap the error again if it's already properly formatted
-        if (error.message.startsWith('ApiError:')) {
-          throw error;
-        }
-        throw new Error(`ApiError: ${JSON.stringify({error: {code: 400, message: error.message, status: 'INVALID_ARGUMENT'}})}`);
-      }
-      throw error;
+      throw fromGoogleError('prompt', error);
     }
   }
   
@@ -221,20 +322,21 @@ class GeminiService {
    */
   async generateMotionPrompt(
     imageDescription: string,
-    userNote: string = ''
+    userNote: string = '',
+    signal?: AbortSignal
   ): Promise<string> {
     if (!this.ai) {
-      throw new Error('Gemini service not initialized. Please provide an API key.');
+      throw notInitialized('prompt');
     }
     
     const promptTemplate = getVideoPrompt(userNote);
-    console.log('[Gemini] video prompt (text-only):', promptTemplate);
     
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+      const response = await this.request('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContent({
+        model,
         contents: [promptTemplate, imageDescription],
-      });
+        config: { abortSignal: signal },
+      }), signal);
       
       const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
       
@@ -250,11 +352,8 @@ class GeminiService {
       return cleanPrompt;
       
     } catch (err) {
-      if (err instanceof Error && err.message.includes('quota')) {
-        throw new Error('API quota exceeded. Please check your Gemini API usage limits.');
-      }
-      
-      throw new Error('Failed to generate motion prompt. Please try again.');
+      rethrowIfAborted(err, signal);
+      throw fromGoogleError('prompt', err);
     }
   }
   
@@ -263,24 +362,25 @@ class GeminiService {
    */
   async *generateMotionPromptStream(
     imageDescription: string,
-    userNote: string = ''
+    userNote: string = '',
+    signal?: AbortSignal
   ): AsyncGenerator<string, string, unknown> {
     if (!this.ai) {
-      throw new Error('Gemini service not initialized. Please provide an API key.');
+      throw notInitialized('prompt');
     }
     
     const promptTemplate = getVideoPrompt(userNote);
-    console.log('[Gemini] video prompt (stream):', promptTemplate);
     
     try {
-      const stream = await this.ai.models.generateContentStream({
-        model: 'gemini-2.5-flash',
+      const stream = this.requestStream('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContentStream({
+        model,
         contents: [promptTemplate, imageDescription],
-      });
+        config: { abortSignal: signal },
+      }), signal);
       
       let fullText = '';
       
-      for await (const chunk of stream as unknown as AsyncIterable<StreamChunk>) {
+      for await (const chunk of stream) {
         const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
         if (chunkText) {
           fullText += chunkText;
@@ -290,28 +390,253 @@ class GeminiService {
       
       return fullText.trim();
       
-    } catch {
-      throw new Error('Failed to generate motion prompt. Please try again.');
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      throw fromGoogleError('prompt', error);
     }
   }
   
   /**
-   * Test the API key by making a simple request
+   * Stream a motion description while Gemini looks at the image itself
    */
-  async testApiKey(): Promise<boolean> {
+  async *generateVideoPromptFromImageStream(
+    imageDataUrl: string,
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void,
+    photoContext?: string
+  ): AsyncGenerator<string, string, unknown> {
     if (!this.ai) {
-      return false;
+      throw notInitialized('prompt');
     }
-    
+
+    const prompt = getVideoPrompt(userNote, photoContext);
+
     try {
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: ['Hello'],
-      });
-      
-      return !!(response.candidates && response.candidates.length > 0);
-    } catch {
-      return false;
+      const { mimeType, base64 } = await this.loadInlineImage(imageDataUrl, signal);
+      const stream = this.requestStream('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContentStream({
+        model,
+        contents: [
+          {
+            parts: [
+              { text: prompt },
+              { inlineData: { mimeType, data: base64 } },
+            ],
+          },
+        ],
+        config: { abortSignal: signal },
+      }), signal, onProgress);
+
+      let fullText = '';
+
+      for await (const chunk of stream) {
+        assertNotBlocked('prompt', chunk);
+        const chunkText = chunk.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        if (chunkText) {
+          fullText += chunkText;
+          yield fullText.replace(/\n+/g, ' ').trim();
+        }
+      }
+
+      const text = fullText.replace(/^["']|["']$/g, '').replace(/\n+/g, ' ').trim();
+      if (!text) throw new Error('No motion prompt was generated');
+      return text;
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.error('[Gemini] generateVideoPromptFromImageStream error:', error);
+      throw fromGoogleError('prompt', error);
+    }
+  }
+  
+  /**
+   * Write one motion description per style label for the same image
+   */
+  async generateMotionPromptCandidates(
+    imageDataUrl: string,
+    styles: string[],
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void,
+    photoContext?: string
+  ): Promise<Array<{ style: string; prompt: string }>> {
+    if (!this.ai) {
+      throw notInitialized('prompt');
+    }
+
+    const prompt = getPromptCandidatesPrompt(styles, userNote, photoContext);
+
+    try {
+      const { mimeType, base64 } = await this.loadInlineImage(imageDataUrl, signal);
+      const response = await this.request('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContent({
+        model,
+        contents: [{ parts: [{ text: prompt }, { inlineData: { mimeType, data: base64 } }] }],
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                style: { type: Type.STRING },
+                prompt: { type: Type.STRING },
+              },
+              required: ['style', 'prompt'],
+            },
+          },
+        },
+      }), signal, onProgress);
+
+      const candidates = JSON.parse(response.text || '[]') as Array<{ style: string; prompt: string }>;
+      const cleaned = candidates
+        .map((candidate) => ({ style: candidate.style.trim().toLowerCase(), prompt: candidate.prompt.trim() }))
+        .filter((candidate) => candidate.prompt);
+      if (cleaned.length === 0) throw new Error('No motion prompts were generated');
+      return cleaned;
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.error('[Gemini] generateMotionPromptCandidates error:', error);
+      throw fromGoogleError('prompt', error);
+    }
+  }
+
+  /**
+   * Score motion descriptions for how well they preserve the subject and
+   * follow the user note. Results are in the same order as the prompts.
+   */
+  async rankMotionPrompts(
+    imageDataUrl: string,
+    prompts: string[],
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<Array<{ subjectScore: number; noteScore: number | null; reason: string }>> {
+    if (!this.ai) {
+      throw notInitialized('prompt');
+    }
+
+    try {
+      const { mimeType, base64 } = await this.loadInlineImage(imageDataUrl, signal);
+      const response = await this.request('prompt', TEXT_MODEL, (ai, model) => ai.models.generateContent({
+        model,
+        contents: [
+          {
+            parts: [
+              { text: getPromptRankingPrompt(prompts, userNote) },
+              { inlineData: { mimeType, data: base64 } },
+            ],
+          },
+        ],
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                subjectScore: { type: Type.NUMBER },
+                noteScore: { type: Type.NUMBER, nullable: true },
+                reason: { type: Type.STRING },
+              },
+              required: ['subjectScore', 'reason'],
+            },
+          },
+        },
+      }), signal, onProgress);
+
+      const scores = JSON.parse(response.text || '[]') as Array<{
+        subjectScore: number;
+        noteScore?: number | null;
+        reason: string;
+      }>;
+      if (scores.length !== prompts.length) {
+        throw new Error(`Expected ${prompts.length} scores, got ${scores.length}`);
+      }
+
+      const clamp = (value: number) => Math.max(0, Math.min(10, value));
+      return scores.map((score) => ({
+        subjectScore: clamp(score.subjectScore),
+        noteScore: userNote && typeof score.noteScore === 'number' ? clamp(score.noteScore) : null,
+        reason: score.reason?.trim() || '',
+      }));
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.error('[Gemini] rankMotionPrompts error:', error);
+      throw fromGoogleError('prompt', error);
+    }
+  }
+
+  /**
+   * Decide which of the given categories a photo belongs to, e.g. to pick an
+   * enhancement preset. Answers outside the list are rejected.
+   */
+  async classifyImage(
+    imageDataUrl: string,
+    categories: string[],
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<string> {
+    if (!this.ai) {
+      throw notInitialized('enhance');
+    }
+
+    try {
+      const { mimeType, base64 } = await this.loadInlineImage(imageDataUrl, signal);
+      const response = await this.request('enhance', TEXT_MODEL, (ai, model) => ai.models.generateContent({
+        model,
+        contents: [
+          {
+            parts: [
+              { text: getClassificationPrompt(categories) },
+              { inlineData: { mimeType, data: base64 } },
+            ],
+          },
+        ],
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              category: { type: Type.STRING, enum: categories },
+            },
+            required: ['category'],
+          },
+        },
+      }), signal, onProgress);
+
+      const { category } = JSON.parse(response.text || '{}') as { category?: string };
+      const match = categories.find((candidate) => candidate === category?.trim().toLowerCase());
+      if (!match) throw new Error(`Unexpected photo category: ${category}`);
+      return match;
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      console.error('[Gemini] classifyImage error:', error);
+      throw fromGoogleError('enhance', error);
+    }
+  }
+
+  /**
+   * Check that the key may use a model, without spending any quota on it.
+   * Counting tokens needs the same access as generating; VEO cannot count
+   * tokens, so for it only the model lookup is checked and false is returned.
+   * Throws a typed error (e.g. invalid_key, or 403/404 for a model the key
+   * has no access to).
+   */
+  async probeModel(model: string, step: ProcessingStep, signal?: AbortSignal): Promise<boolean> {
+    if (!this.ai) throw notInitialized(step);
+
+    try {
+      if (model.startsWith(VEO_MODEL_PREFIX)) {
+        await this.ai.models.get({ model, config: { abortSignal: signal } });
+        return false;
+      }
+      await this.ai.models.countTokens({ model, contents: 'ping', config: { abortSignal: signal } });
+      return true;
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      throw fromGoogleError(step, error);
     }
   }
 }
@@ -331,18 +656,3 @@ export function getImageDescription(caption: string, userNote: string = ''): str
   
   return 'A meaningful photograph that holds special memories';
 }
-
-// Enhanced prompts for different image types
-export const IMAGE_ENHANCEMENT_PROMPTS = {
-  portrait: 'Enhance this portrait with warm, natural lighting and gentle color grading. Bring out the subject\'s natural beauty while preserving authentic skin tones and genuine expressions. Add a subtle nostalgic quality.',
-  
-  landscape: 'Enhance this landscape with rich, natural colors and improved dynamic range. Bring out details in both shadows and highlights, add subtle warmth, and create a sense of peaceful, timeless beauty.',
-  
-  family: 'Enhance this family photo with warm, inviting tones that emphasize connection and joy. Improve lighting naturally, enhance facial expressions, and add a cozy, heartfelt quality that celebrates the relationship.',
-  
-  event: 'Enhance this special moment with vibrant yet natural colors. Improve lighting and contrast to highlight the celebration, while maintaining the authentic energy and emotion of the occasion.',
-  
-  nature: 'Enhance this nature scene with rich, saturated colors and improved clarity. Bring out natural textures and details, add subtle warmth to create an inviting, serene atmosphere.',
-  
-  vintage: 'Enhance this image while preserving its vintage character. Improve clarity and contrast gently, add warm nostalgic tones, and maintain the authentic period feel.',
-} as const;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { decodeToJpeg, getDecodeKind } from '../utils/imageDecoding';
+import { PipelineError } from '../utils/errors';
+import { WorkerClient } from '../utils/workerRpc';
+import type { DecodeRequest } from '../workers/imageDecode.worker';
+
+// Quality of the intermediate JPEG; the resize step compresses it again
+const DECODE_QUALITY = 0.95;
+
+const FAILURE_MESSAGES = {
+  heic: 'This HEIC photo could not be read. Please export it as JPEG and try again.',
+  raw: 'No preview image was found in this RAW file. Please export it as JPEG and try again.',
+};
+
+/**
+ * Turns HEIC/HEIF photos and DNG, CR2 and NEF files into JPEGs in a web
+ * worker, so large files do not block the page. Other files pass through.
+ */
+class ImageDecoder {
+  private client = new WorkerClient<DecodeRequest, Blob>({
+    createWorker: () => new Worker(new URL('../workers/imageDecode.worker.ts', import.meta.url), { type: 'module' }),
+    runInline: ({ file, kind, quality }) => decodeToJpeg(file, kind, quality),
+    task: 'Decoding',
+  });
+
+  async decode(file: File): Promise<File> {
+    const kind = getDecodeKind(file);
+    if (!kind) return file;
+
+    try {
+      const blob = await this.client.run({ file, kind, quality: DECODE_QUALITY });
+      const name = `${file.name.replace(/\.[^.]+$/, '')}.jpg`;
+      return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+    } catch (error) {
+      console.error(`[Decode] Failed to decode ${file.name}:`, error);
+      throw new PipelineError({ step: 'upload', code: 'invalid_image', message: FAILURE_MESSAGES[kind], cause: error });
+    }
+  }
+}
+
+// Export a singleton instance
+export const imageDecoder = new ImageDecoder();
@@ -0,0 +1,25 @@
+import { renderRenditions } from '../utils/imageResizing';
+import type { RenditionKind } from '../utils/imageResizing';
+import { WorkerClient } from '../utils/workerRpc';
+import type { ResizeRequest } from '../workers/imageResize.worker';
+
+type Renditions = Record<RenditionKind, Blob>;
+
+/**
+ * Resizes photos into one JPEG per consumer in a web worker, so large photos
+ * do not block the page
+ */
+class ImageResizer {
+  private client = new WorkerClient<ResizeRequest, Renditions>({
+    createWorker: () => new Worker(new URL('../workers/imageResize.worker.ts', import.meta.url), { type: 'module' }),
+    runInline: ({ image, sizes, quality }) => renderRenditions(image, sizes, quality),
+    task: 'Resizing',
+  });
+
+  createRenditions(image: Blob, sizes: Record<RenditionKind, number>, quality: number): Promise<Renditions> {
+    return this.client.run({ image, sizes, quality });
+  }
+}
+
+// Export a singleton instance
+export const imageResizer = new ImageResizer();
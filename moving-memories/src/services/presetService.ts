@@ -0,0 +1,84 @@
+import { ENHANCEMENT_PRESET_LABELS, IMAGE_ENHANCEMENT_PROMPTS, getRestorationPrompt } from '../config/prompts';
+import type { EnhancementPresetId } from '../config/prompts';
+import { useSettingsStore } from '../store/settingsStore';
+import { providerRegistry } from './providers';
+import { rethrowIfAborted, throwIfAborted } from '../utils/abort';
+import { detectPhotoTone } from '../utils/imageProcessing';
+import type { AppliedPreset, EnhancementPreset } from '../types';
+
+// Preset setting that classifies each photo instead of using a fixed preset
+export const AUTO_PRESET = 'auto';
+
+// Old photo restoration, with its instruction built from the restoration settings
+export const RESTORE_PRESET = 'restore';
+
+const BUILT_IN_PRESETS: EnhancementPreset[] = (Object.keys(IMAGE_ENHANCEMENT_PROMPTS) as EnhancementPresetId[]).map(
+  (id) => ({ id, label: ENHANCEMENT_PRESET_LABELS[id], instruction: IMAGE_ENHANCEMENT_PROMPTS[id], custom: false })
+);
+
+interface ResolveOptions {
+  // Overrides the preset setting for this photo
+  presetId?: string;
+  signal?: AbortSignal;
+  onProgress?: (status: string) => void;
+}
+
+/**
+ * Enhancement presets: the built-in ones per kind of photo plus the user's
+ * own, and picking one for a photo.
+ */
+class PresetService {
+  list(): EnhancementPreset[] {
+    const { restoration, customPresets } = useSettingsStore.getState();
+    const restore: EnhancementPreset = {
+      id: RESTORE_PRESET,
+      label: 'Restore old photo',
+      instruction: getRestorationPrompt(restoration),
+      custom: false,
+    };
+    return [restore, ...BUILT_IN_PRESETS, ...customPresets];
+  }
+
+  find(id: string): EnhancementPreset | undefined {
+    return this.list().find((preset) => preset.id === id);
+  }
+
+  /**
+   * The preset to enhance a photo with. In automatic mode black-and-white and
+   * sepia photos are restored, and the first prompt provider that can classify
+   * images picks a built-in preset for the rest; null means the general
+   * enhancement prompt, e.g. when classification fails.
+   */
+  async resolve(imageDataUrl: string, options: ResolveOptions = {}): Promise<AppliedPreset | null> {
+    const presetId = options.presetId ?? useSettingsStore.getState().enhancementPreset;
+    if (presetId !== AUTO_PRESET) {
+      return this.find(presetId) ? { presetId, detected: false } : null;
+    }
+
+    // Checked locally, so heirloom scans never get the modern look
+    const tone = await detectPhotoTone(imageDataUrl);
+    throwIfAborted(options.signal);
+    if (tone !== 'color') return { presetId: RESTORE_PRESET, detected: true };
+
+    const classifier = providerRegistry.getChain('prompt').find((provider) => provider.classifyImage);
+    if (!classifier?.classifyImage) return null;
+
+    try {
+      const category = await classifier.classifyImage({
+        imageDataUrl,
+        categories: BUILT_IN_PRESETS.map((preset) => preset.id),
+        signal: options.signal,
+        onProgress: options.onProgress,
+      });
+      return { presetId: category, detected: true };
+    } catch (error) {
+      // Enhancing without a preset beats not enhancing at all
+      rethrowIfAborted(error, options.signal);
+      console.warn('[Presets] Could not classify the photo:', error);
+      return null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const presetService = new PresetService();
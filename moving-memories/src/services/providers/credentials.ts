@@ -0,0 +1,125 @@
+import { useMemoryStore } from '../../store/memoryStore';
+import { useProxyStore, PROXY_CREDENTIAL } from '../../store/proxyStore';
+import { useVaultStore, isVaultLocked } from '../../store/vaultStore';
+import { PipelineError } from '../../utils/errors';
+import type { VaultSecrets } from '../../utils/vault';
+import type { ProcessingStep } from '../../types';
+import type { CredentialKind } from './types';
+
+/**
+ * Keys saved in plain text (localStorage), as before the vault existed
+ */
+function getPlainCredential(kind: CredentialKind): string | null {
+  switch (kind) {
+    case 'gemini':
+      return (
+        useMemoryStore.getState().apiKey ||
+        localStorage.getItem('VEO_API_KEY') ||
+        localStorage.getItem('GEMINI_API_KEY')
+      );
+    case 'replicate':
+      return localStorage.getItem('REPLICATE_API_TOKEN');
+    default:
+      return null;
+  }
+}
+
+function clearPlainCredentials(): void {
+  useMemoryStore.getState().clearApiKey();
+  localStorage.removeItem('GEMINI_API_KEY');
+  localStorage.removeItem('VEO_API_KEY');
+  localStorage.removeItem('REPLICATE_API_TOKEN');
+}
+
+/**
+ * Look up a stored credential for the given provider family. With a key
+ * server configured, only the keys it reported holding are available; with
+ * the vault, only the keys it holds once unlocked.
+ */
+export function getCredential(kind: CredentialKind): string | null {
+  const proxy = useProxyStore.getState();
+  if (proxy.url) {
+    return proxy.credentials[kind] ? PROXY_CREDENTIAL : null;
+  }
+
+  const vault = useVaultStore.getState();
+  if (vault.record) {
+    return vault.secrets?.[kind] || null;
+  }
+
+  return getPlainCredential(kind);
+}
+
+/**
+ * The user's own keys (ignoring the key server), e.g. to fill in the settings form
+ */
+export function getStoredCredentials(): VaultSecrets {
+  const vault = useVaultStore.getState();
+  if (vault.record) return { ...vault.secrets };
+  return { gemini: getPlainCredential('gemini') ?? undefined, replicate: getPlainCredential('replicate') ?? undefined };
+}
+
+/**
+ * Save the user's keys: into the vault when it is used, otherwise in plain text.
+ * Empty values remove a key.
+ */
+export async function saveCredentials(secrets: VaultSecrets): Promise<void> {
+  if (useVaultStore.getState().record) {
+    await useVaultStore.getState().save(secrets);
+    return;
+  }
+
+  clearPlainCredentials();
+  if (secrets.gemini) {
+    useMemoryStore.getState().setApiKey(secrets.gemini);
+    localStorage.setItem('GEMINI_API_KEY', secrets.gemini);
+  }
+  if (secrets.replicate) {
+    localStorage.setItem('REPLICATE_API_TOKEN', secrets.replicate);
+  }
+}
+
+/**
+ * Forget all keys, including the vault
+ */
+export function clearCredentials(): void {
+  clearPlainCredentials();
+  useVaultStore.getState().remove();
+}
+
+/**
+ * Move the keys into a new passphrase-encrypted vault and wipe the plain text copies
+ */
+export async function encryptCredentials(passphrase: string, secrets: VaultSecrets, iterations?: number): Promise<void> {
+  await useVaultStore.getState().create(passphrase, secrets, iterations);
+  clearPlainCredentials();
+}
+
+/**
+ * Stop using the vault: store the (unlocked) keys in plain text again
+ */
+export async function decryptCredentials(): Promise<void> {
+  const { secrets } = useVaultStore.getState();
+  if (!secrets) throw new Error('Unlock the key vault first');
+  useVaultStore.getState().remove();
+  await saveCredentials(secrets);
+}
+
+/**
+ * Same as getCredential but throws when the credential is missing
+ */
+export function requireCredential(kind: CredentialKind, step: ProcessingStep): string {
+  const value = getCredential(kind);
+  if (!value) {
+    throw new PipelineError({
+      step,
+      code: 'missing_key',
+      message: isVaultLocked()
+        ? 'Your API keys are locked. Enter your passphrase to unlock them.'
+        : kind === 'gemini'
+          ? 'API key not found. Please set your API key.'
+          : 'Missing Replicate API token. Add it in the API configuration.',
+    });
+  }
+  return value;
+}
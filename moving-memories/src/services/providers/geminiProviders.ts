@@ -0,0 +1,127 @@
+import { geminiService } from '../geminiService';
+import { veoService } from '../veoService';
+import { parseDataUrl } from '../../utils/imageProcessing';
+import { requireCredential } from './credentials';
+import { overallScore, rankCandidates } from './ranking';
+import { assertVideoOptionsSupported } from './videoOptions';
+import { rethrowIfAborted } from '../../utils/abort';
+import type { ProcessingStep } from '../../types';
+import type { EnhanceProvider, PromptProvider, VideoProvider } from './types';
+
+// Point the shared Gemini client at the current key (or key server) before a
+// provider uses it; creating the client is cheap
+const ensureGemini = (step: ProcessingStep) => {
+  geminiService.init(requireCredential('gemini', step));
+};
+
+export const geminiEnhanceProvider: EnhanceProvider = {
+  id: 'gemini-flash-image',
+  label: 'Gemini 2.5 Flash Image',
+  stage: 'enhance',
+  capabilities: { credential: 'gemini', model: 'gemini-2.5-flash-image-preview', returnsCaption: true },
+
+  async enhance({ imageDataUrl, userNote, instruction, signal, onProgress }) {
+    ensureGemini('enhance');
+    const { base64, mimeType } = parseDataUrl(imageDataUrl);
+    const result = await geminiService.enhanceImage(base64, mimeType, userNote, signal, onProgress, instruction);
+    return { imageUrl: result.images[0], caption: result.caption, enhanced: result.enhanced };
+  },
+};
+
+export const geminiPromptProvider: PromptProvider = {
+  id: 'gemini-flash',
+  label: 'Gemini 2.5 Flash',
+  stage: 'prompt',
+  capabilities: {
+    credential: 'gemini',
+    model: 'gemini-2.5-flash',
+    streaming: true,
+    candidates: true,
+    classification: true,
+  },
+
+  async generatePrompt({ imageDataUrl, userNote, photoContext, signal, onProgress }) {
+    ensureGemini('prompt');
+    return geminiService.generateVideoPromptFromImage(imageDataUrl, userNote || undefined, signal, onProgress, photoContext);
+  },
+
+  streamPrompt({ imageDataUrl, userNote, photoContext, signal, onProgress }) {
+    ensureGemini('prompt');
+    return geminiService.generateVideoPromptFromImageStream(
+      imageDataUrl,
+      userNote || undefined,
+      signal,
+      onProgress,
+      photoContext
+    );
+  },
+
+  async classifyImage({ imageDataUrl, categories, signal, onProgress }) {
+    ensureGemini('enhance');
+    return geminiService.classifyImage(imageDataUrl, categories, signal, onProgress);
+  },
+
+  async generateCandidates({ imageDataUrl, userNote, photoContext, styles, signal, onProgress }) {
+    ensureGemini('prompt');
+    const candidates = await geminiService.generateMotionPromptCandidates(
+      imageDataUrl,
+      styles,
+      userNote || undefined,
+      signal,
+      onProgress,
+      photoContext
+    );
+
+    try {
+      const scores = await geminiService.rankMotionPrompts(
+        imageDataUrl,
+        candidates.map((candidate) => candidate.prompt),
+        userNote || undefined,
+        signal,
+        onProgress
+      );
+      return rankCandidates(
+        candidates.map((candidate, i) => ({
+          ...candidate,
+          score: overallScore(scores[i].subjectScore, scores[i].noteScore),
+          subjectScore: scores[i].subjectScore,
+          noteScore: scores[i].noteScore,
+          reason: scores[i].reason,
+        }))
+      );
+    } catch (error) {
+      // Unranked suggestions are still useful
+      rethrowIfAborted(error, signal);
+      return candidates.map((candidate) => ({ ...candidate, score: null, subjectScore: null, noteScore: null }));
+    }
+  },
+};
+
+export const veoVideoProvider: VideoProvider = {
+  id: 'veo-3',
+  label: 'VEO 3 Preview',
+  stage: 'video',
+  capabilities: {
+    credential: 'gemini',
+    model: 'veo-3.0-generate-preview',
+    aspectRatios: ['16:9'],
+    maxImageSize: 1280,
+    resolutions: ['720p'],
+    durations: [8],
+    negativePrompt: true,
+    seed: true,
+    personGeneration: ['allow_adult'], // the only policy VEO allows for image input
+    audio: 'always',
+  },
+
+  async generateVideo({ imageDataUrl, prompt, options, onProgress, signal, onJobStarted }) {
+    assertVideoOptionsSupported(this, options);
+    veoService.init(requireCredential('gemini', 'generate'));
+    return veoService.generateVideoSimple(imageDataUrl, prompt, onProgress, signal, onJobStarted, options);
+  },
+
+  async resumeVideo(operationName, { onProgress, signal }) {
+    veoService.init(requireCredential('gemini', 'generate'));
+    return veoService.resumeOperation(operationName, onProgress, signal);
+  },
+};
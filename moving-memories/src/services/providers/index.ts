@@ -0,0 +1,24 @@
+import { providerRegistry } from './registry';
+import { geminiEnhanceProvider, geminiPromptProvider, veoVideoProvider } from './geminiProviders';
+import { replicateEnhanceProvider, replicateVideoProvider } from './replicateProviders';
+import { mockEnhanceProvider, mockPromptProvider, mockVideoProvider } from './mockProviders';
+
+// Built-in providers. Add new models here; the pipeline picks them up
+// through the registry and the user's priority order.
+providerRegistry.register(replicateEnhanceProvider);
+providerRegistry.register(geminiEnhanceProvider);
+providerRegistry.register(geminiPromptProvider);
+providerRegistry.register(replicateVideoProvider);
+providerRegistry.register(veoVideoProvider);
+
+// Offline mocks, only active in mock mode
+providerRegistry.register(mockEnhanceProvider);
+providerRegistry.register(mockPromptProvider);
+providerRegistry.register(mockVideoProvider);
+
+export { providerRegistry };
+export type { ProviderRunResult, ProviderRunOutcome } from './registry';
+export { probeCapabilities, applyProbeReport } from './probe';
+export type { CapabilityResult, CapabilityStatus, KeyStatus, ProbeReport } from './probe';
+export { DEFAULT_VIDEO_OPTIONS, validateVideoOptions, describeVideoOptions, applyVideoQuality } from './videoOptions';
+export * from './types';
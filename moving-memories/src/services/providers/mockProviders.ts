@@ -0,0 +1,188 @@
+import { sleep, throwIfAborted } from '../../utils/abort';
+import { overallScore, rankCandidates } from './ranking';
+import { assertVideoOptionsSupported } from './videoOptions';
+import type { EnhanceProvider, PromptProvider, VideoProvider } from './types';
+
+// Offline stand-ins for every pipeline stage. They never touch the network
+// and always return the same output, so the full flow can run in CI.
+
+export const mockConfig = {
+  // Artificial delay per call so the UI progress states are visible
+  latencyMs: 600,
+  // Duration written into the placeholder video
+  videoDurationSeconds: 5,
+  // Hand the photo back unchanged, like Gemini does when it returns no image
+  enhanceUnchanged: false,
+};
+
+export const MOCK_CAPTION = 'A warm, softly lit photograph of a cherished moment.';
+
+export const MOCK_MOTION_PROMPT =
+  'The scene breathes gently: a light breeze stirs the background, ' +
+  'the subject blinks and smiles softly while the camera slowly pushes in.';
+
+// Every photo looks like a portrait to the mock classifier
+export const MOCK_IMAGE_CATEGORY = 'portrait';
+
+export const MOCK_OPERATION_NAME = 'models/mock-video/operations/mock-operation';
+
+export const MOCK_ENHANCED_IMAGE_URL =
+  'data:image/svg+xml;base64,' +
+  btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="576" viewBox="0 0 1024 576">' +
+      '<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">' +
+      '<stop offset="0" stop-color="#fed7aa"/><stop offset="1" stop-color="#fde68a"/>' +
+      '</linearGradient></defs>' +
+      '<rect width="1024" height="576" fill="url(#g)"/>' +
+      '<text x="512" y="300" font-family="sans-serif" font-size="40" text-anchor="middle" fill="#9a3412">' +
+      'Mock enhanced photo</text>' +
+      '</svg>'
+  );
+
+const wait = async (ms: number, signal?: AbortSignal) => {
+  throwIfAborted(signal);
+  if (ms > 0) await sleep(ms, signal);
+};
+
+// ISO-BMFF box: 32-bit size + 4-char type + payload
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const size = 8 + payload.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, size);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  let offset = 8;
+  for (const part of payload) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+/**
+ * Build a minimal, structurally valid MP4 (ftyp + moov/mvhd) with the given
+ * duration. It carries no frames; players show the poster image instead.
+ */
+export function createPlaceholderMp4(durationSeconds: number): Uint8Array {
+  const ftyp = box('ftyp', ascii('isom'), new Uint8Array([0, 0, 2, 0]), ascii('isomiso2mp41'));
+
+  const mvhd = new Uint8Array(100);
+  const view = new DataView(mvhd.buffer);
+  const timescale = 1000;
+  view.setUint32(12, timescale);
+  view.setUint32(16, Math.round(durationSeconds * timescale));
+  view.setUint32(20, 0x00010000); // playback rate 1.0
+  view.setUint16(24, 0x0100); // full volume
+  // Identity transformation matrix
+  view.setUint32(36, 0x00010000);
+  view.setUint32(52, 0x00010000);
+  view.setUint32(68, 0x40000000);
+  view.setUint32(96, 1); // next track id
+
+  return Uint8Array.from([...ftyp, ...box('moov', box('mvhd', mvhd))]);
+}
+
+/**
+ * Placeholder video as a data URL (no blob URL so it also works outside browsers)
+ */
+export function createPlaceholderVideoUrl(durationSeconds = mockConfig.videoDurationSeconds): string {
+  const bytes = createPlaceholderMp4(durationSeconds);
+  return `data:video/mp4;base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+export const mockEnhanceProvider: EnhanceProvider = {
+  id: 'mock-enhance',
+  label: 'Mock enhancer (offline)',
+  stage: 'enhance',
+  capabilities: { credential: null, mock: true, returnsCaption: true },
+
+  async enhance({ imageDataUrl, signal }) {
+    await wait(mockConfig.latencyMs, signal);
+    if (mockConfig.enhanceUnchanged) return { imageUrl: imageDataUrl, caption: MOCK_CAPTION, enhanced: false };
+    return { imageUrl: MOCK_ENHANCED_IMAGE_URL, caption: MOCK_CAPTION, enhanced: true };
+  },
+};
+
+export const mockPromptProvider: PromptProvider = {
+  id: 'mock-prompt',
+  label: 'Mock prompt writer (offline)',
+  stage: 'prompt',
+  capabilities: { credential: null, mock: true, streaming: true, candidates: true, classification: true },
+
+  async generatePrompt({ signal }) {
+    await wait(mockConfig.latencyMs, signal);
+    return MOCK_MOTION_PROMPT;
+  },
+
+  async *streamPrompt({ signal }) {
+    const words = MOCK_MOTION_PROMPT.split(' ');
+    let text = '';
+    for (const word of words) {
+      await wait(mockConfig.latencyMs / words.length, signal);
+      text = text ? `${text} ${word}` : word;
+      yield text;
+    }
+    return text;
+  },
+
+  async classifyImage({ categories, signal }) {
+    await wait(mockConfig.latencyMs, signal);
+    return categories.includes(MOCK_IMAGE_CATEGORY) ? MOCK_IMAGE_CATEGORY : categories[0];
+  },
+
+  // Scores fall off with each style so the ranking is predictable
+  async generateCandidates({ styles, userNote, signal }) {
+    await wait(mockConfig.latencyMs, signal);
+    return rankCandidates(
+      styles.map((style, i) => {
+        const subjectScore = 9 - i;
+        const noteScore = userNote ? 8 : null;
+        return {
+          style,
+          prompt: `In a ${style} way: ${MOCK_MOTION_PROMPT}`,
+          score: overallScore(subjectScore, noteScore),
+          subjectScore,
+          noteScore,
+          reason: `Mock ${style} suggestion`,
+        };
+      })
+    );
+  },
+};
+
+export const mockVideoProvider: VideoProvider = {
+  id: 'mock-video',
+  label: 'Mock video renderer (offline)',
+  stage: 'video',
+  capabilities: {
+    credential: null,
+    mock: true,
+    aspectRatios: ['16:9', '9:16', '4:3', '3:4', '1:1'],
+    resolutions: ['480p', '720p', '1080p'],
+    durations: [5, 8, 10],
+    negativePrompt: true,
+    seed: true,
+    personGeneration: ['allow_all', 'allow_adult', 'dont_allow'],
+    audio: 'optional',
+  },
+
+  async generateVideo({ options, onProgress, signal, onJobStarted }) {
+    assertVideoOptionsSupported(this, options);
+    onProgress?.('Starting video generation...');
+    onJobStarted?.(MOCK_OPERATION_NAME);
+    await wait(mockConfig.latencyMs, signal);
+    onProgress?.('Downloading video...');
+    await wait(mockConfig.latencyMs, signal);
+    onProgress?.('Video ready!');
+    return createPlaceholderVideoUrl(options?.durationSeconds ?? undefined);
+  },
+
+  async resumeVideo(_jobId, { onProgress, signal }) {
+    onProgress?.('Resuming video generation...');
+    await wait(mockConfig.latencyMs, signal);
+    onProgress?.('Video ready!');
+    return createPlaceholderVideoUrl();
+  },
+};
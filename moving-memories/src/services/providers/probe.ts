@@ -0,0 +1,112 @@
+import { geminiService } from '../geminiService';
+import { replicateService } from '../replicateService';
+import { providerRegistry, STAGE_STEPS } from './registry';
+import { useProviderStore } from '../../store/providerStore';
+import { toPipelineError } from '../../utils/errors';
+import { rethrowIfAborted } from '../../utils/abort';
+import type { ProcessingStep } from '../../types';
+import type { CredentialKind, PipelineStage, Provider } from './types';
+
+// ok: the key may use the model; unverified: the key was accepted and the model
+// found, but using it could not be checked without paying for it;
+// unavailable: the key works but not for this model
+export type CapabilityStatus = 'ok' | 'unverified' | 'no_key' | 'invalid_key' | 'unavailable' | 'error';
+
+export type KeyStatus = 'missing' | 'valid' | 'invalid' | 'unknown';
+
+export interface CapabilityResult {
+  providerId: string;
+  label: string;
+  stage: PipelineStage;
+  model: string;
+  status: CapabilityStatus;
+  message?: string;
+}
+
+export interface ProbeReport {
+  keys: Record<CredentialKind, KeyStatus>;
+  capabilities: CapabilityResult[];
+}
+
+// Same service per credential; the key is set right before probing. Each
+// resolves to whether using the model was checked, not just finding it.
+const PROBES: Record<CredentialKind, (credential: string, model: string, step: ProcessingStep, signal?: AbortSignal) => Promise<boolean>> = {
+  gemini: (credential, model, step, signal) => {
+    geminiService.init(credential);
+    return geminiService.probeModel(model, step, signal);
+  },
+  replicate: (credential, model, step, signal) => {
+    replicateService.init(credential);
+    return replicateService.probeModel(model, step, signal);
+  },
+};
+
+async function probeProvider(
+  provider: Provider,
+  credentials: Partial<Record<CredentialKind, string>>,
+  signal?: AbortSignal
+): Promise<CapabilityResult> {
+  const { credential: kind, model = '' } = provider.capabilities;
+  const base = { providerId: provider.id, label: provider.label, stage: provider.stage, model };
+  const credential = kind ? credentials[kind] : undefined;
+  if (!kind || !credential) return { ...base, status: 'no_key' };
+
+  try {
+    const verified = await PROBES[kind](credential, model, STAGE_STEPS[provider.stage], signal);
+    return { ...base, status: verified ? 'ok' : 'unverified' };
+  } catch (error) {
+    rethrowIfAborted(error, signal);
+    const failure = toPipelineError(STAGE_STEPS[provider.stage], error);
+    // A 403 or 404 for one model means the key itself was accepted
+    if (failure.status === 403 || failure.status === 404) {
+      return { ...base, status: 'unavailable', message: failure.message };
+    }
+    if (failure.code === 'invalid_key') return { ...base, status: 'invalid_key', message: failure.message };
+    if (failure.code === 'unsupported' || failure.code === 'billing') {
+      return { ...base, status: 'unavailable', message: failure.message };
+    }
+    return { ...base, status: 'error', message: failure.message };
+  }
+}
+
+function keyStatus(results: CapabilityResult[]): KeyStatus {
+  if (results.length === 0 || results.every((result) => result.status === 'no_key')) return 'missing';
+  if (results.some((result) => result.status === 'invalid_key')) return 'invalid';
+  if (results.some((result) => ['ok', 'unverified', 'unavailable'].includes(result.status))) return 'valid';
+  return 'unknown';
+}
+
+/**
+ * Check the given keys live against the model of every real provider.
+ * Nothing is generated, so probing costs no credits.
+ */
+export async function probeCapabilities(
+  credentials: Partial<Record<CredentialKind, string>>,
+  signal?: AbortSignal
+): Promise<ProbeReport> {
+  const providers = (['enhance', 'prompt', 'video'] as PipelineStage[])
+    .flatMap((stage) => providerRegistry.list(stage))
+    .filter((provider) => !provider.capabilities.mock && provider.capabilities.model);
+
+  const capabilities = await Promise.all(providers.map((provider) => probeProvider(provider, credentials, signal)));
+  const byKind = (kind: CredentialKind) =>
+    capabilities.filter((result) => providerRegistry.get(result.providerId)?.capabilities.credential === kind);
+
+  return {
+    keys: { gemini: keyStatus(byKind('gemini')), replicate: keyStatus(byKind('replicate')) },
+    capabilities,
+  };
+}
+
+/**
+ * Switch providers on or off to match what the keys can reach. Providers
+ * whose check failed for another reason (e.g. offline) or could not be
+ * completed are left as they were.
+ */
+export function applyProbeReport(report: ProbeReport): void {
+  const { setProviderEnabled } = useProviderStore.getState();
+  for (const { providerId, status } of report.capabilities) {
+    if (status === 'ok') setProviderEnabled(providerId, true);
+    if (status === 'unavailable') setProviderEnabled(providerId, false);
+  }
+}
@@ -0,0 +1,21 @@
+import type { PromptCandidate } from './types';
+
+/**
+ * Overall score for a candidate: the subject score, averaged with the note
+ * score when there is a note to follow
+ */
+export function overallScore(subjectScore: number | null, noteScore: number | null): number | null {
+  if (subjectScore === null) return null;
+  if (noteScore === null) return subjectScore;
+  return Math.round(((subjectScore + noteScore) / 2) * 10) / 10;
+}
+
+/**
+ * Best candidates first; unscored ones keep their order after the scored ones
+ */
+export function rankCandidates(candidates: PromptCandidate[]): PromptCandidate[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => (b.candidate.score ?? -1) - (a.candidate.score ?? -1) || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,179 @@
+import { useProviderStore, isMockMode } from '../../store/providerStore';
+import { getCredential } from './credentials';
+import { timingService } from '../timingService';
+import { isAbortError } from '../../utils/abort';
+import { PipelineError, toPipelineError } from '../../utils/errors';
+import type { ProcessingStep } from '../../types';
+import type { PipelineStage, Provider, ProviderByStage, VideoResolution } from './types';
+
+// The workflow step each stage runs in
+export const STAGE_STEPS: Record<PipelineStage, ProcessingStep> = {
+  enhance: 'enhance',
+  prompt: 'prompt',
+  video: 'generate',
+};
+
+export interface ProviderRunResult<T> {
+  result: T;
+  providerId: string;
+}
+
+// How one provider fared when a stage runs on all of them at once
+export type ProviderRunOutcome<T> =
+  | { providerId: string; result: T; error?: undefined }
+  | { providerId: string; error: PipelineError; result?: undefined };
+
+interface RunOptions<S extends PipelineStage> {
+  // Called before each provider is tried, e.g. to update a status message
+  onAttempt?: (provider: ProviderByStage[S], attempt: number) => void;
+  // Stops the chain; a cancelled run never falls back to the next provider
+  signal?: AbortSignal;
+  // Video resolution sent to each provider, so timings are kept apart per resolution
+  resolutionFor?: (provider: ProviderByStage[S]) => VideoResolution | null | undefined;
+}
+
+class ProviderRegistry {
+  private providers = new Map<string, Provider>();
+
+  /**
+   * Register a provider. Re-registering an id replaces the previous entry.
+   */
+  register(provider: Provider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  /**
+   * Remove a provider from the registry
+   */
+  unregister(id: string): void {
+    this.providers.delete(id);
+  }
+
+  /**
+   * Get a provider by id
+   */
+  get(id: string): Provider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * All registered providers for a stage, in registration order
+   */
+  list<S extends PipelineStage>(stage: S): ProviderByStage[S][] {
+    return [...this.providers.values()].filter(
+      (p): p is ProviderByStage[S] => p.stage === stage
+    );
+  }
+
+  /**
+   * Whether a provider can run right now: mock providers only in mock mode,
+   * real providers only outside it, switched on and with their credential configured
+   */
+  isAvailable(provider: Provider): boolean {
+    const { credential, mock = false } = provider.capabilities;
+    if (mock !== isMockMode()) return false;
+    if (useProviderStore.getState().disabled.includes(provider.id)) return false;
+    return credential === null || !!getCredential(credential);
+  }
+
+  /**
+   * Available providers for a stage ordered by the user's preferences.
+   * Providers missing from the preference list are appended in registration order.
+   */
+  listAvailable<S extends PipelineStage>(stage: S): ProviderByStage[S][] {
+    const preferred = useProviderStore.getState().order[stage] ?? [];
+    const rank = (id: string) => {
+      const index = preferred.indexOf(id);
+      return index === -1 ? preferred.length : index;
+    };
+
+    return this.list(stage)
+      .filter((p) => this.isAvailable(p))
+      .sort((a, b) => rank(a.id) - rank(b.id));
+  }
+
+  /**
+   * The providers a run walks through: all available ones, or only the
+   * preferred one when fallback is off
+   */
+  getChain<S extends PipelineStage>(stage: S): ProviderByStage[S][] {
+    const chain = this.listAvailable(stage);
+    return useProviderStore.getState().fallbackEnabled ? chain : chain.slice(0, 1);
+  }
+
+  private noProviderError(stage: PipelineStage): PipelineError {
+    return new PipelineError({
+      step: STAGE_STEPS[stage],
+      code: 'missing_key',
+      message: `No ${stage} provider is configured. Please check your API keys.`,
+    });
+  }
+
+  /**
+   * Run a stage through its provider chain, falling back to the next
+   * provider when one fails. Throws the last error if all of them fail,
+   * as a PipelineError tagged with the provider that raised it.
+   * How long the successful provider took is recorded for time estimates.
+   */
+  async run<S extends PipelineStage, T>(
+    stage: S,
+    task: (provider: ProviderByStage[S]) => Promise<T>,
+    options: RunOptions<S> = {}
+  ): Promise<ProviderRunResult<T>> {
+    const chain = this.getChain(stage);
+    if (chain.length === 0) throw this.noProviderError(stage);
+
+    let lastError: PipelineError | undefined;
+    for (const [attempt, provider] of chain.entries()) {
+      options.onAttempt?.(provider, attempt);
+      const startedAt = Date.now();
+      try {
+        const result = await task(provider);
+        timingService.record(stage, provider.id, options.resolutionFor?.(provider) ?? null, Date.now() - startedAt);
+        return { result, providerId: provider.id };
+      } catch (error) {
+        if (isAbortError(error) || options.signal?.aborted) throw error;
+        console.error(`[Providers] ${provider.label} failed:`, error);
+        lastError = toPipelineError(STAGE_STEPS[stage], error);
+        lastError.providerId ??= provider.id;
+      }
+    }
+
+    throw lastError ?? new PipelineError({ step: STAGE_STEPS[stage], code: 'unknown', message: `All ${stage} providers failed` });
+  }
+
+  /**
+   * Run a stage on every available provider at once so the results can be
+   * compared, regardless of the fallback setting. Failures are returned next
+   * to the successes in preference order; only a cancelled run throws.
+   */
+  async runAll<S extends PipelineStage, T>(
+    stage: S,
+    task: (provider: ProviderByStage[S]) => Promise<T>,
+    options: RunOptions<S> = {}
+  ): Promise<ProviderRunOutcome<T>[]> {
+    const providers = this.listAvailable(stage);
+    if (providers.length === 0) throw this.noProviderError(stage);
+
+    return Promise.all(
+      providers.map(async (provider, attempt): Promise<ProviderRunOutcome<T>> => {
+        options.onAttempt?.(provider, attempt);
+        const startedAt = Date.now();
+        try {
+          const result = await task(provider);
+          timingService.record(stage, provider.id, options.resolutionFor?.(provider) ?? null, Date.now() - startedAt);
+          return { result, providerId: provider.id };
+        } catch (error) {
+          if (isAbortError(error) || options.signal?.aborted) throw error;
+          console.error(`[Providers] ${provider.label} failed:`, error);
+          const pipelineError = toPipelineError(STAGE_STEPS[stage], error);
+          pipelineError.providerId ??= provider.id;
+          return { error: pipelineError, providerId: provider.id };
+        }
+      })
+    );
+  }
+}
+
+// Export a singleton instance
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,39 @@
+import { replicateService } from '../replicateService';
+import { requireCredential } from './credentials';
+import { assertVideoOptionsSupported } from './videoOptions';
+import type { EnhanceProvider, VideoProvider } from './types';
+
+export const replicateEnhanceProvider: EnhanceProvider = {
+  id: 'replicate-nano-banana',
+  label: 'Replicate Nano Banana',
+  stage: 'enhance',
+  capabilities: { credential: 'replicate', model: 'google/nano-banana', returnsCaption: false },
+
+  async enhance({ imageDataUrl, userNote, instruction, signal, onProgress }) {
+    replicateService.init(requireCredential('replicate', 'enhance'));
+    const result = await replicateService.enhanceImage(imageDataUrl, userNote, signal, onProgress, instruction);
+    return { imageUrl: result.imageUrl, caption: result.caption || 'Enhanced with AI', enhanced: true };
+  },
+};
+
+export const replicateVideoProvider: VideoProvider = {
+  id: 'replicate-seedance',
+  label: 'Replicate Seedance 1 Pro',
+  stage: 'video',
+  capabilities: {
+    credential: 'replicate',
+    model: 'bytedance/seedance-1-pro',
+    aspectRatios: ['16:9', '4:3', '1:1', '3:4', '9:16', '21:9', '9:21'],
+    maxImageSize: 1920,
+    resolutions: ['480p', '720p', '1080p'],
+    durations: [5, 10],
+    seed: true,
+  },
+
+  async generateVideo({ imageDataUrl, prompt, options, onProgress, signal }) {
+    assertVideoOptionsSupported(this, options);
+    replicateService.init(requireCredential('replicate', 'generate'));
+    onProgress?.('Generating video...');
+    return replicateService.generateVideo(prompt, imageDataUrl, options, signal, onProgress);
+  },
+};
@@ -0,0 +1,151 @@
+// Provider contracts for the three pipeline stages
+
+export type PipelineStage = 'enhance' | 'prompt' | 'video';
+
+export type CredentialKind = 'gemini' | 'replicate';
+
+export type VideoAspectRatio = '16:9' | '9:16' | '4:3' | '3:4' | '1:1' | '21:9' | '9:21';
+
+export type VideoResolution = '480p' | '720p' | '1080p';
+
+// Whether people may appear in the generated video
+export type PersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+// What the user asks of a video. null means "whatever the provider does by default",
+// so any provider can serve a request that leaves an option unset.
+export interface VideoGenerationOptions {
+  aspectRatio: VideoAspectRatio;
+  durationSeconds: number | null;
+  resolution: VideoResolution | null;
+  negativePrompt: string; // things to keep out of the video; empty for none
+  seed: number | null;
+  personGeneration: PersonGeneration | null;
+  audio: boolean | null;
+}
+
+export interface ProviderCapabilities {
+  // Which stored credential the provider needs (null = none)
+  credential: CredentialKind | null;
+  // Offline stand-in, only used (and always used) in mock mode
+  mock?: boolean;
+  // Model the provider calls, checked against the key when keys are saved
+  model?: string;
+  // Prompt providers: can stream partial text
+  streaming?: boolean;
+  // Prompt providers: can suggest several ranked alternatives
+  candidates?: boolean;
+  // Prompt providers: can tell what kind of photo an image is
+  classification?: boolean;
+  // Enhance providers: returns a descriptive caption alongside the image
+  returnsCaption?: boolean;
+  // Video providers: supported output formats and controls
+  aspectRatios?: VideoAspectRatio[];
+  maxImageSize?: number; // longest side of the input photo they make use of, in pixels
+  resolutions?: VideoResolution[];
+  durations?: number[]; // seconds
+  negativePrompt?: boolean;
+  seed?: boolean;
+  personGeneration?: PersonGeneration[];
+  audio?: 'optional' | 'always'; // omitted for silent-only providers
+}
+
+// Every call can be cancelled through an AbortSignal
+interface ProviderCall {
+  signal?: AbortSignal;
+  // Status lines such as retries and rate-limit waits
+  onProgress?: (status: string) => void;
+}
+
+interface BaseProvider {
+  id: string;
+  label: string;
+  stage: PipelineStage;
+  capabilities: ProviderCapabilities;
+}
+
+export interface EnhanceInput extends ProviderCall {
+  imageDataUrl: string; // data URL of the uploaded photo
+  userNote?: string;
+  // Preset instruction replacing the general enhancement prompt
+  instruction?: string;
+}
+
+export interface EnhanceResult {
+  imageUrl: string; // data URL or remote URL of the enhanced image
+  caption: string;
+  // false when the model returned no image and imageUrl is the photo unchanged
+  enhanced: boolean;
+}
+
+export interface PromptInput extends ProviderCall {
+  imageDataUrl: string;
+  caption?: string;
+  userNote?: string;
+  photoContext?: string; // when and where the photo was taken, e.g. "winter 1994"
+}
+
+export interface PromptCandidatesInput extends PromptInput {
+  styles: string[]; // one candidate per style label
+}
+
+export interface ClassifyInput extends ProviderCall {
+  imageDataUrl: string;
+  categories: string[]; // the answer is one of these
+}
+
+// One alternative motion description, scored for the user to choose from
+export interface PromptCandidate {
+  style: string; // short label, e.g. subtle, playful, cinematic
+  prompt: string;
+  // 0-10 scores; null when the candidates could not be ranked
+  score: number | null;
+  subjectScore: number | null; // how well the subject is preserved
+  noteScore: number | null; // how well it follows the user note (null without a note)
+  reason?: string;
+}
+
+// Video jobs run long; providers that know how far along they are pass a percentage
+export type VideoProgressCallback = (status: string, percent?: number) => void;
+
+export interface VideoInput extends ProviderCall {
+  onProgress?: VideoProgressCallback;
+  imageDataUrl: string;
+  prompt: string;
+  options?: VideoGenerationOptions;
+  // Resumable providers report their server-side job id as soon as it exists
+  onJobStarted?: (jobId: string) => void;
+}
+
+export interface VideoResumeOptions extends ProviderCall {
+  onProgress?: VideoProgressCallback;
+}
+
+export interface EnhanceProvider extends BaseProvider {
+  stage: 'enhance';
+  enhance(input: EnhanceInput): Promise<EnhanceResult>;
+}
+
+export interface PromptProvider extends BaseProvider {
+  stage: 'prompt';
+  generatePrompt(input: PromptInput): Promise<string>;
+  streamPrompt?(input: PromptInput): AsyncGenerator<string, string, unknown>;
+  // Alternatives sorted best first
+  generateCandidates?(input: PromptCandidatesInput): Promise<PromptCandidate[]>;
+  // Which of the given categories the photo belongs to
+  classifyImage?(input: ClassifyInput): Promise<string>;
+}
+
+export interface VideoProvider extends BaseProvider {
+  stage: 'video';
+  generateVideo(input: VideoInput): Promise<string>;
+  // Pick up a job started earlier (e.g. before a page reload)
+  resumeVideo?(jobId: string, options: VideoResumeOptions): Promise<string>;
+}
+
+export type Provider = EnhanceProvider | PromptProvider | VideoProvider;
+
+export interface ProviderByStage {
+  enhance: EnhanceProvider;
+  prompt: PromptProvider;
+  video: VideoProvider;
+}
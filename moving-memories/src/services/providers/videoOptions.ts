@@ -0,0 +1,106 @@
+import { PipelineError } from '../../utils/errors';
+import type { AppSettings } from '../../types';
+import type { ProviderCapabilities, VideoGenerationOptions, VideoProvider, VideoResolution } from './types';
+
+// Highest resolution each video quality setting asks for, lowest first
+const QUALITY_RESOLUTIONS: Record<AppSettings['qualitySettings']['videoQuality'], VideoResolution> = {
+  low: '480p',
+  medium: '720p',
+  high: '1080p',
+};
+
+const RESOLUTION_ORDER: VideoResolution[] = ['480p', '720p', '1080p'];
+
+export const DEFAULT_VIDEO_OPTIONS: VideoGenerationOptions = {
+  aspectRatio: '16:9',
+  durationSeconds: null,
+  resolution: null,
+  negativePrompt: '',
+  seed: null,
+  personGeneration: null,
+  audio: null,
+};
+
+/**
+ * Problems with serving these options through a provider, as short
+ * user-facing phrases. Unset options are always acceptable.
+ */
+export function validateVideoOptions(
+  options: VideoGenerationOptions,
+  capabilities: ProviderCapabilities
+): string[] {
+  const problems: string[] = [];
+  const { aspectRatios, resolutions, durations, personGeneration, audio } = capabilities;
+
+  if (aspectRatios && !aspectRatios.includes(options.aspectRatio)) {
+    problems.push(`supports ${aspectRatios.join(', ')} only`);
+  }
+  if (options.resolution && resolutions && !resolutions.includes(options.resolution)) {
+    problems.push(`renders ${resolutions.join(', ')} only`);
+  }
+  if (options.durationSeconds !== null && durations && !durations.includes(options.durationSeconds)) {
+    problems.push(`makes ${durations.map((d) => `${d}s`).join(', ')} clips only`);
+  }
+  if (options.negativePrompt.trim() && !capabilities.negativePrompt) {
+    problems.push('has no negative prompt');
+  }
+  if (options.seed !== null && !capabilities.seed) {
+    problems.push('cannot use a fixed seed');
+  }
+  if (options.personGeneration && !personGeneration?.includes(options.personGeneration)) {
+    problems.push('cannot enforce the people policy');
+  }
+  if (options.audio === true && !audio) {
+    problems.push('has no audio');
+  }
+  if (options.audio === false && audio === 'always') {
+    problems.push('always adds audio');
+  }
+
+  return problems;
+}
+
+/**
+ * Fill in the resolution from the video quality setting when the user left it
+ * to the provider: the best the provider renders without going over the quality,
+ * or its lowest when every resolution it offers is higher. A resolution the user
+ * chose explicitly is kept.
+ */
+export function applyVideoQuality(
+  provider: VideoProvider,
+  options: VideoGenerationOptions,
+  quality: AppSettings['qualitySettings']['videoQuality']
+): VideoGenerationOptions {
+  const { resolutions } = provider.capabilities;
+  if (options.resolution || !resolutions?.length) return options;
+
+  const ceiling = RESOLUTION_ORDER.indexOf(QUALITY_RESOLUTIONS[quality]);
+  const offered = RESOLUTION_ORDER.filter((resolution) => resolutions.includes(resolution));
+  const resolution = offered.filter((r) => RESOLUTION_ORDER.indexOf(r) <= ceiling).pop() ?? offered[0];
+  return { ...options, resolution };
+}
+
+/**
+ * Throw when a provider cannot honour the options, so the chain moves on
+ * to the next provider
+ */
+export function assertVideoOptionsSupported(provider: VideoProvider, options?: VideoGenerationOptions): void {
+  if (!options) return;
+  const problems = validateVideoOptions(options, provider.capabilities);
+  if (problems.length > 0) {
+    throw new PipelineError({
+      step: 'generate',
+      code: 'unsupported',
+      message: `${provider.label} ${problems.join('; ')}`,
+      providerId: provider.id,
+    });
+  }
+}
+
+/**
+ * Short description for the UI, e.g. "≈ 5s, 480p, 16:9"
+ */
+export function describeVideoOptions(options: VideoGenerationOptions): string {
+  const length = options.durationSeconds !== null ? `≈ ${options.durationSeconds}s` : 'a few seconds';
+  return [length, options.resolution, options.aspectRatio].filter(Boolean).join(', ');
+}
@@ -1,4 +1,27 @@
 import { getEnhancementPrompt } from '../config/prompts';
+import { createAbortError, rethrowIfAborted, sleep, throwIfAborted } from '../utils/abort';
+import { PipelineError, fromReplicatePrediction, fromReplicateResponse, toPipelineError } from '../utils/errors';
+import { requestLayer } from './requestLayer';
+import { usageTracker } from './usageTracker';
+import type { UsageAmounts } from '../config/pricing';
+import { getReplicateApiBase } from '../config/api';
+import { getProxyUrl } from '../store/proxyStore';
+import type { ProcessingStep } from '../types';
+import type { VideoGenerationOptions } from './providers/types';
+
+type PredictionStatus = 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+
+interface Prediction {
+  id: string;
+  status: PredictionStatus;
+  output?: unknown;
+  error?: string | null;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const missingToken = (step: ProcessingStep) =>
+  new PipelineError({ step, code: 'missing_key', message: 'Replicate API token not set' });
 
 class ReplicateService {
   private apiToken: string | null = null;
@@ -10,69 +33,211 @@ class ReplicateService {
     this.apiToken = token;
   }
 
+  /**
+   * Forget the token, e.g. when the key vault locks; running predictions stop at their next request
+   */
+  clearToken(): void {
+    this.apiToken = null;
+  }
+
+  // The key server adds the token itself
+  private headers(step: ProcessingStep = 'generate'): HeadersInit {
+    if (getProxyUrl()) return { 'Content-Type': 'application/json' };
+    if (!this.apiToken) throw missingToken(step);
+    return { Authorization: `Bearer ${this.apiToken}`, 'Content-Type': 'application/json' };
+  }
+
+  /**
+   * Send a request through the shared request layer, throwing typed errors
+   * for failed responses so transient ones are retried
+   */
+  private request(
+    step: ProcessingStep,
+    path: string,
+    init: RequestInit,
+    options: {
+      signal?: AbortSignal;
+      onProgress?: (status: string) => void;
+      metered?: boolean;
+      // Let the HTTP request itself finish after an abort, e.g. to learn the id of what it created
+      finishOnAbort?: boolean;
+    }
+  ): Promise<Prediction> {
+    return requestLayer.run(
+      'replicate',
+      async () => {
+        const res = await fetch(`${getReplicateApiBase()}${path}`, {
+          ...init,
+          headers: this.headers(step),
+          signal: options.finishOnAbort ? undefined : options.signal,
+        });
+        if (!res.ok) {
+          const text = await res.text();
+          console.error('[Replicate] API error:', text);
+          throw fromReplicateResponse(step, res.status, text, res.headers.get('Retry-After'));
+        }
+        return res.json();
+      },
+      { ...options, step }
+    );
+  }
+
+  /**
+   * Create a prediction and poll it until it settles, recording what a
+   * successful one produced. Aborting the signal cancels the prediction on
+   * Replicate as well.
+   */
+  private async runPrediction(
+    step: ProcessingStep,
+    model: string,
+    input: Record<string, unknown>,
+    usage: UsageAmounts,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<unknown> {
+    const startedAt = Date.now();
+    // An abort during the create call would lose the id of a prediction Replicate may already be running
+    let prediction = await this.request(
+      step,
+      `/models/${model}/predictions`,
+      { method: 'POST', body: JSON.stringify({ input }) },
+      { signal, onProgress, finishOnAbort: true }
+    );
+
+    try {
+      throwIfAborted(signal);
+      while (prediction.status === 'starting' || prediction.status === 'processing') {
+        await sleep(POLL_INTERVAL_MS, signal);
+        // Polls do not count against the request budget
+        prediction = await this.request(step, `/predictions/${prediction.id}`, {}, { signal, onProgress, metered: false });
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.cancelPrediction(prediction.id);
+        throw createAbortError('Generation cancelled');
+      }
+      throw error;
+    }
+
+    if (prediction.status === 'canceled') {
+      throw createAbortError('Prediction was cancelled');
+    }
+    if (prediction.status === 'failed') {
+      throw fromReplicatePrediction(step, prediction.error);
+    }
+    usageTracker.record({ account: 'replicate', model, step, startedAt, ...usage });
+    return prediction.output;
+  }
+
+  /**
+   * Check that the token can reach a model. Reading model metadata costs nothing;
+   * a probe is not retried so the answer comes quickly.
+   */
+  async probeModel(model: string, step: ProcessingStep, signal?: AbortSignal): Promise<boolean> {
+    try {
+      const res = await fetch(`${getReplicateApiBase()}/models/${model}`, { headers: this.headers(step), signal });
+      if (!res.ok) {
+        throw fromReplicateResponse(step, res.status, await res.text(), res.headers.get('Retry-After'));
+      }
+      // Replicate has no per-model access: a valid token may run any public model
+      return true;
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      throw toPipelineError(step, error);
+    }
+  }
+
+  /**
+   * Stop a running prediction so it no longer consumes credits
+   */
+  async cancelPrediction(id: string): Promise<void> {
+    try {
+      await fetch(`${getReplicateApiBase()}/predictions/${id}/cancel`, {
+        method: 'POST',
+        headers: this.headers(),
+      });
+    } catch (error) {
+      console.error('[Replicate] Failed to cancel prediction:', error);
+    }
+  }
+
   /**
    * Enhance image using Replicate's Nano Banana (Google's image model)
    */
   async enhanceImage(
     imageDataUrl: string,
-    userNote?: string
+    userNote?: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void,
+    presetInstruction?: string
   ): Promise<{ imageUrl: string; caption?: string }> {
-    if (!this.apiToken) {
-      throw new Error('Replicate API token not set');
+    if (!this.apiToken) throw missingToken('enhance');
+
+    const prompt = getEnhancementPrompt(userNote, presetInstruction);
+
+    const output = await this.runPrediction(
+      'enhance',
+      'google/nano-banana',
+      {
+        prompt: prompt,
+        image_input: [imageDataUrl], // Can accept data URLs directly
+        output_format: 'png',
+      },
+      { imageCount: 1 },
+      signal,
+      onProgress
+    );
+
+    // Output is usually an array of URLs, sometimes a single string
+    const imageUrl = Array.isArray(output) ? output[0] : output;
+    if (typeof imageUrl !== 'string' || !imageUrl) {
+      throw new Error('No enhanced image in response');
     }
 
-    const prompt = getEnhancementPrompt(userNote);
-    console.log('[Replicate] Enhancement prompt:', prompt);
+    return {
+      imageUrl,
+      caption: 'Enhanced with AI',
+    };
+  }
 
-    try {
-      // Use the Vite proxy to avoid CORS issues
-      const response = await fetch('/replicate/v1/models/google/nano-banana/predictions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`,
-          'Content-Type': 'application/json',
-          'Prefer': 'wait' // Wait for the result instead of polling
-        },
-        body: JSON.stringify({
-          input: {
-            prompt: prompt,
-            image_input: [imageDataUrl], // Can accept data URLs directly
-            output_format: 'png'
-          }
-        })
-      });
+  /**
+   * Generate a video with Seedance 1 Pro (image optional).
+   * Unset options fall back to a 5s, 480p, 16:9 clip.
+   */
+  async generateVideo(
+    prompt: string,
+    imageUrl?: string,
+    options: Partial<VideoGenerationOptions> = {},
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<string> {
+    if (!this.apiToken) throw missingToken('generate');
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('[Replicate] API error:', error);
-        throw new Error(`Replicate API error: ${response.status}`);
-      }
+    const duration = options.durationSeconds ?? 5;
+    const output = await this.runPrediction(
+      'generate',
+      'bytedance/seedance-1-pro',
+      {
+        prompt,
+        duration,
+        resolution: options.resolution ?? '480p',
+        aspect_ratio: options.aspectRatio ?? '16:9',
+        image: imageUrl || null,
+        fps: 24,
+        camera_fixed: false,
+        ...(options.seed != null && { seed: options.seed }),
+      },
+      { videoSeconds: duration },
+      signal,
+      onProgress
+    );
 
-      const result = await response.json();
-      console.log('[Replicate] API response:', result);
-
-      // The output should be in result.output
-      if (result.output && Array.isArray(result.output) && result.output.length > 0) {
-        console.log('[Replicate] Successfully received enhanced image');
-        return {
-          imageUrl: result.output[0],
-          caption: 'Enhanced with AI'
-        };
-      } else if (typeof result.output === 'string') {
-        // Sometimes it returns a single string instead of array
-        console.log('[Replicate] Successfully received enhanced image (string format)');
-        return {
-          imageUrl: result.output,
-          caption: 'Enhanced with AI'
-        };
-      } else {
-        throw new Error('No enhanced image in response');
-      }
-    } catch (error) {
-      console.error('[Replicate] Enhancement failed:', error);
-      throw error;
+    // API returns output as a URL string according to the provided schema
+    if (typeof output !== 'string' || !output) {
+      throw new Error('Replicate did not return an output URL.');
     }
+    return output;
   }
 }
 
-export const replicateService = new ReplicateService();
\ No newline at end of file
+export const replicateService = new ReplicateService();
@@ -0,0 +1,68 @@
+import { useSettingsStore } from '../store/settingsStore';
+import { TokenBucket, describeRetry, withRetry } from '../utils/retry';
+import { isAbortError } from '../utils/abort';
+import { toPipelineError } from '../utils/errors';
+import type { ProcessingStep } from '../types';
+import type { CredentialKind } from './providers/types';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Wrap untyped failures (e.g. a dropped connection) as errors of this step
+  step?: ProcessingStep;
+  // Receives retry and rate-limit waits as status lines
+  onProgress?: (status: string) => void;
+  // Status polls do not count against the per-minute budget
+  metered?: boolean;
+}
+
+/**
+ * Shared path for every call to a provider API: waits for a slot in the
+ * account's per-minute budget, then retries transient failures with backoff.
+ * Only PipelineErrors can be recognised as transient; pass a step to have
+ * other failures wrapped.
+ */
+class RequestLayer {
+  private buckets = new Map<CredentialKind, TokenBucket>();
+
+  async run<T>(kind: CredentialKind, task: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const { signal, step, onProgress, metered = true } = options;
+    const { maxRetries } = useSettingsStore.getState();
+
+    return withRetry(
+      async () => {
+        if (metered) {
+          await this.bucket(kind).take(signal, (delayMs) =>
+            onProgress?.(`Waiting ${Math.ceil(delayMs / 1000)}s to stay under the rate limit...`)
+          );
+        }
+        try {
+          return await task();
+        } catch (error) {
+          throw step && !isAbortError(error) ? toPipelineError(step, error) : error;
+        }
+      },
+      {
+        retries: maxRetries,
+        signal,
+        onRetry: (info) => {
+          console.warn(`[Requests] ${kind} request failed (${info.error.code}), retry ${info.attempt}/${info.retries}`);
+          onProgress?.(describeRetry(info));
+        },
+      }
+    );
+  }
+
+  // Buckets are rebuilt when the configured rate changes
+  private bucket(kind: CredentialKind): TokenBucket {
+    const perMinute = useSettingsStore.getState().requestsPerMinute[kind];
+    let bucket = this.buckets.get(kind);
+    if (!bucket || bucket.perMinute !== perMinute) {
+      bucket = new TokenBucket(perMinute);
+      this.buckets.set(kind, bucket);
+    }
+    return bucket;
+  }
+}
+
+// Export a singleton instance
+export const requestLayer = new RequestLayer();
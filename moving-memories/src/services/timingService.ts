@@ -0,0 +1,102 @@
+import { useTimingStore, timingKey } from '../store/timingStore';
+import type { PipelineStage, VideoResolution } from './providers/types';
+
+export interface ProgressEstimate {
+  fraction: number; // 0-1; stays below 1 until the step has finished
+  remainingSeconds: number; // 0 once the step runs over its estimate
+}
+
+export interface ProgressWatch {
+  // Progress the provider reported itself, in percent; preferred over the estimate
+  report: (percent: number | undefined) => void;
+  stop: () => void;
+}
+
+// Used until a provider has finished a run in this browser
+const DEFAULT_DURATIONS_MS: Record<PipelineStage, number> = {
+  enhance: 15000,
+  prompt: 8000,
+  video: 60000,
+};
+
+// Share of the bar filled at the expected duration; the rest creeps up slowly after that
+const ON_TIME_FRACTION = 0.9;
+const MAX_FRACTION = 0.99;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * "About 40s left", "About 3 min left", or a note once the step runs long
+ */
+export const formatTimeRemaining = (seconds: number): string => {
+  if (seconds <= 0) return 'Taking a little longer than usual';
+  if (seconds < 60) return `About ${Math.max(1, Math.round(seconds))}s left`;
+  return `About ${Math.round(seconds / 60)} min left`;
+};
+
+/**
+ * Records how long each stage takes per provider and resolution, and turns
+ * that history into progress and time-remaining estimates.
+ */
+class TimingService {
+  record(stage: PipelineStage, providerId: string, resolution: VideoResolution | null, durationMs: number): void {
+    useTimingStore.getState().addTiming({ stage, providerId, resolution, durationMs, timestamp: Date.now() });
+  }
+
+  /**
+   * Expected duration in milliseconds: the median of earlier runs with the same
+   * provider and resolution, else of the provider at any resolution, else a default
+   */
+  estimate(stage: PipelineStage, providerId: string | undefined, resolution: VideoResolution | null = null): number {
+    const timings = useTimingStore.getState().timings.filter(
+      (timing) => timing.stage === stage && timing.providerId === providerId
+    );
+    const key = timingKey({ stage, providerId: providerId ?? '', resolution });
+    const exact = timings.filter((timing) => timingKey(timing) === key);
+    const runs = exact.length > 0 ? exact : timings;
+    return runs.length > 0 ? median(runs.map((timing) => timing.durationMs)) : DEFAULT_DURATIONS_MS[stage];
+  }
+
+  /**
+   * Where a step stands after elapsedMs of an expected expectedMs. A percentage
+   * reported by the provider (e.g. VEO operation metadata) takes precedence.
+   */
+  progress(elapsedMs: number, expectedMs: number, reportedPercent?: number): ProgressEstimate {
+    if (reportedPercent !== undefined && reportedPercent > 0) {
+      const fraction = Math.min(reportedPercent / 100, MAX_FRACTION);
+      return { fraction, remainingSeconds: (elapsedMs * (1 - fraction)) / fraction / 1000 };
+    }
+    if (elapsedMs <= expectedMs) {
+      return { fraction: (ON_TIME_FRACTION * elapsedMs) / expectedMs, remainingSeconds: (expectedMs - elapsedMs) / 1000 };
+    }
+    const overtime = (elapsedMs - expectedMs) / expectedMs;
+    return {
+      fraction: ON_TIME_FRACTION + (MAX_FRACTION - ON_TIME_FRACTION) * (1 - Math.exp(-overtime)),
+      remainingSeconds: 0,
+    };
+  }
+
+  /**
+   * Call onUpdate with a fresh estimate a few times a second until stopped
+   */
+  watch(expectedMs: number, onUpdate: (estimate: ProgressEstimate) => void, intervalMs = 250): ProgressWatch {
+    const startedAt = Date.now();
+    let reported: number | undefined;
+    const tick = () => onUpdate(this.progress(Date.now() - startedAt, expectedMs, reported));
+    const timer = window.setInterval(tick, intervalMs);
+    tick();
+    return {
+      report: (percent) => {
+        reported = percent;
+      },
+      stop: () => window.clearInterval(timer),
+    };
+  }
+}
+
+// Export a singleton instance
+export const timingService = new TimingService();
@@ -0,0 +1,165 @@
+import { useUsageStore } from '../store/usageStore';
+import { estimateCost, formatCost } from '../config/pricing';
+import type { UsageAmounts } from '../config/pricing';
+import type { ProcessingStep, UsageRecord } from '../types';
+import type { CredentialKind, VideoGenerationOptions, VideoProvider } from './providers/types';
+
+export interface UsageEntry extends UsageAmounts {
+  account: CredentialKind;
+  model: string;
+  step: ProcessingStep;
+  startedAt: number;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetOverrun {
+  period: BudgetPeriod;
+  limit: number;
+  spent: number; // before the planned call
+  estimate: number;
+}
+
+export interface DailySpend {
+  date: string; // YYYY-MM-DD, local time
+  cost: number;
+}
+
+export interface ModelSpend {
+  model: string;
+  label: string;
+  calls: number;
+  cost: number;
+}
+
+// VEO clips are 8 seconds unless a length is requested
+const DEFAULT_VIDEO_SECONDS = 8;
+
+/**
+ * Local calendar day of a timestamp, e.g. 2025-09-14
+ */
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (now: number) => new Date(new Date(now).setHours(0, 0, 0, 0)).getTime();
+
+const startOfMonth = (now: number) => {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+/**
+ * Records what every successful provider call consumed and what it is
+ * estimated to cost, and checks planned calls against the spending limits.
+ * Failed calls are not billed by the providers and are not recorded.
+ */
+class UsageTracker {
+  record(entry: UsageEntry): UsageRecord {
+    const { account, model, step, startedAt, ...amounts } = entry;
+    const now = Date.now();
+    const record: UsageRecord = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: now,
+      account,
+      model,
+      step,
+      durationMs: now - startedAt,
+      ...amounts,
+      cost: estimateCost(useUsageStore.getState().prices[model], amounts),
+    };
+    useUsageStore.getState().addRecord(record);
+    return record;
+  }
+
+  /**
+   * Spend so far today and this month
+   */
+  getSpend(now = Date.now()): Record<BudgetPeriod, number> {
+    const dayStart = startOfDay(now);
+    const monthStart = startOfMonth(now);
+    let daily = 0;
+    let monthly = 0;
+    for (const record of useUsageStore.getState().records) {
+      if (record.timestamp >= monthStart) monthly += record.cost;
+      if (record.timestamp >= dayStart) daily += record.cost;
+    }
+    return { daily, monthly };
+  }
+
+  /**
+   * Spend per day for the last number of days, oldest first, including days without any
+   */
+  getDailySpend(days: number, now = Date.now()): DailySpend[] {
+    const totals = new Map<string, number>();
+    for (const record of useUsageStore.getState().records) {
+      const key = toDateKey(record.timestamp);
+      totals.set(key, (totals.get(key) ?? 0) + record.cost);
+    }
+    return Array.from({ length: days }, (_, i) => {
+      const date = new Date(now);
+      date.setDate(date.getDate() - (days - 1 - i));
+      const key = toDateKey(date.getTime());
+      return { date: key, cost: totals.get(key) ?? 0 };
+    });
+  }
+
+  /**
+   * Spend per model since a point in time, most expensive first
+   */
+  getSpendByModel(since: number): ModelSpend[] {
+    const { records, prices } = useUsageStore.getState();
+    const byModel = new Map<string, ModelSpend>();
+    for (const record of records) {
+      if (record.timestamp < since) continue;
+      const entry = byModel.get(record.model) ?? {
+        model: record.model,
+        label: prices[record.model]?.label ?? record.model,
+        calls: 0,
+        cost: 0,
+      };
+      entry.calls += 1;
+      entry.cost += record.cost;
+      byModel.set(record.model, entry);
+    }
+    return [...byModel.values()].sort((a, b) => b.cost - a.cost);
+  }
+
+  /**
+   * What one video from this provider is expected to cost with these options
+   */
+  estimateVideoCost(provider: VideoProvider | undefined, options: VideoGenerationOptions): number {
+    const model = provider?.capabilities.model;
+    if (!model) return 0;
+    const videoSeconds = options.durationSeconds ?? provider.capabilities.durations?.[0] ?? DEFAULT_VIDEO_SECONDS;
+    return estimateCost(useUsageStore.getState().prices[model], { videoSeconds });
+  }
+
+  /**
+   * The first spending limit a planned call would go over, if any
+   */
+  checkBudget(estimate: number, now = Date.now()): BudgetOverrun | null {
+    const { budget } = useUsageStore.getState();
+    const spend = this.getSpend(now);
+    for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+      const limit = budget[period];
+      if (limit !== null && spend[period] + estimate > limit) {
+        return { period, limit, spent: spend[period], estimate };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * e.g. "This video (about $6.00) would bring today's spend to $7.20, over your daily limit of $5.00."
+   */
+  describeOverrun({ period, limit, spent, estimate }: BudgetOverrun): string {
+    const when = period === 'daily' ? "today's" : "this month's";
+    return `This video (about ${formatCost(estimate)}) would bring ${when} spend to ${formatCost(spent + estimate)}, over your ${period} limit of ${formatCost(limit)}.`;
+  }
+}
+
+// Export a singleton instance
+export const usageTracker = new UsageTracker();
@@ -1,4 +1,57 @@
 import { GoogleGenAI } from '@google/genai';
+import { fileToDataUrl } from '../utils/imageProcessing';
+import { rethrowIfAborted, sleep } from '../utils/abort';
+import { PipelineError, fromGoogleErrorBody, toPipelineError } from '../utils/errors';
+import { requestLayer } from './requestLayer';
+import { usageTracker } from './usageTracker';
+import { getGeminiBaseUrl, toGeminiFileUrl } from '../config/api';
+import { getProxyUrl } from '../store/proxyStore';
+import type { VideoGenerationOptions, VideoProgressCallback } from './providers/types';
+
+const VEO_MODEL = 'veo-3.0-generate-preview';
+const VEO_DEFAULT_SECONDS = 8;
+
+const notInitialized = () =>
+  new PipelineError({ step: 'generate', code: 'missing_key', message: 'VEO service not initialized. Please provide an API key.' });
+
+interface VeoOperation {
+  name: string;
+  done?: boolean;
+  error?: { code?: number; message?: string; status?: string };
+  response?: {
+    generatedVideos?: Array<{ video?: { uri?: string } }>;
+    raiMediaFilteredCount?: number;
+    raiMediaFilteredReasons?: string[];
+  };
+  // Set by model versions that report how far along the job is
+  metadata?: { progressPercent?: number };
+}
+
+// predictLongRunning parameters; unset options are left to the API defaults
+interface VeoParameters {
+  aspectRatio?: string;
+  durationSeconds?: number;
+  resolution?: string;
+  negativePrompt?: string;
+  seed?: number;
+  personGeneration?: string;
+  generateAudio?: boolean;
+}
+
+/**
+ * Map the app's video options onto VEO request parameters
+ */
+export function toVeoParameters(options: Partial<VideoGenerationOptions> = {}): VeoParameters {
+  const parameters: VeoParameters = {};
+  if (options.aspectRatio) parameters.aspectRatio = options.aspectRatio;
+  if (options.durationSeconds != null) parameters.durationSeconds = options.durationSeconds;
+  if (options.resolution) parameters.resolution = options.resolution;
+  if (options.negativePrompt?.trim()) parameters.negativePrompt = options.negativePrompt.trim();
+  if (options.seed != null) parameters.seed = options.seed;
+  if (options.personGeneration) parameters.personGeneration = options.personGeneration;
+  if (options.audio != null) parameters.generateAudio = options.audio;
+  return parameters;
+}
 
 class VeoService {
   private ai: GoogleGenAI | null = null;
@@ -8,25 +61,44 @@ class VeoService {
    * Initialize the service with an API key
    */
   init(apiKey: string): void {
-    this.ai = new GoogleGenAI({ apiKey });
+    this.ai = new GoogleGenAI({ apiKey, httpOptions: { baseUrl: getGeminiBaseUrl() } });
     this.apiKey = apiKey;
   }
 
+  /**
+   * Forget the API key, e.g. when the key vault locks; running jobs stop at their next request
+   */
+  clearKey(): void {
+    this.ai = null;
+    this.apiKey = null;
+  }
+
+  /**
+   * Add the API key to a URL, unless the key server adds it instead
+   */
+  private withKey(url: string): string {
+    if (getProxyUrl() || url.includes('key=')) return url;
+    if (!this.apiKey) throw notInitialized();
+    return `${url}${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(this.apiKey || '')}`;
+  }
+
   /**
    * Generate a video from an image using VEO 3
    */
   async generateVideo(
     imageBytes: string, // base64 encoded image
     prompt: string,
-    onProgress?: (status: string) => void,
-    mimeType: string = 'image/jpeg'
+    onProgress?: VideoProgressCallback,
+    mimeType: string = 'image/jpeg',
+    signal?: AbortSignal,
+    onOperationStarted?: (operationName: string) => void,
+    options?: Partial<VideoGenerationOptions>
   ): Promise<string> {
-    if (!this.ai || !this.apiKey) {
-      throw new Error('VEO service not initialized. Please provide an API key.');
-    }
+    if (!this.ai || !this.apiKey) throw notInitialized();
 
     try {
       if (onProgress) onProgress('Starting video generation...');
+      const startedAt = Date.now();
       
       // VEO API expects the request in a specific format
       const requestBody = {
@@ -38,147 +110,189 @@ class VeoService {
               mimeType: mimeType
             }
           }
-        ]
+        ],
+        parameters: toVeoParameters(options),
       };
 
       // Make direct API call to VEO
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/veo-3.0-generate-preview:predictLongRunning?key=${this.apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        }
+      const operation = await requestLayer.run(
+        'gemini',
+        async (): Promise<VeoOperation> => {
+          const response = await fetch(
+            this.withKey(`${getGeminiBaseUrl()}/v1beta/models/${VEO_MODEL}:predictLongRunning`),
+            {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify(requestBody),
+              signal,
+            }
+          );
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            console.error('[VEO] API error response:', errorText);
+            throw fromGoogleErrorBody('generate', errorText, response.status);
+          }
+          return response.json();
+        },
+        { signal, step: 'generate', onProgress }
       );
+      // Hand the operation name out so the caller can resume after a reload
+      onOperationStarted?.(operation.name);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('[VEO] API error response:', errorText);
-        throw new Error(`ApiError: ${errorText}`);
-      }
+      const videoUrl = await this.completeOperation(operation.name, onProgress, signal);
+      this.recordUsage(startedAt, options?.durationSeconds);
+      return videoUrl;
+    } catch (error) {
+      throw this.toFriendlyError(error, signal);
+    }
+  }
 
-      const operation = await response.json();
+  /**
+   * Resume a long-running operation started earlier (e.g. before a page reload):
+   * poll until it finishes, then download the video
+   */
+  async resumeOperation(
+    operationName: string,
+    onProgress?: VideoProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.ai || !this.apiKey) throw notInitialized();
 
-      // Poll until video is ready
-      let pollCount = 0;
-      const maxPolls = 30; // Maximum 5 minutes (10 sec intervals)
-      let currentOperation = operation;
-      
-      while (!currentOperation.done && pollCount < maxPolls) {
-        if (onProgress) {
-          onProgress(`Generating video... (${pollCount * 10}s elapsed)`);
-        }
-        await new Promise((resolve) => setTimeout(resolve, 10000)); // 10 sec
-        
-        // Poll the operation status
-        const pollResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/${currentOperation.name}?key=${this.apiKey}`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-            }
-          }
-        );
-        
-        if (pollResponse.ok) {
-          currentOperation = await pollResponse.json();
-        }
-        pollCount++;
-      }
+    try {
+      if (onProgress) onProgress('Resuming video generation...');
+      const startedAt = Date.now();
+      const videoUrl = await this.completeOperation(operationName, onProgress, signal);
+      // The requested length is not known after a reload
+      this.recordUsage(startedAt);
+      return videoUrl;
+    } catch (error) {
+      throw this.toFriendlyError(error, signal);
+    }
+  }
 
-      if (!currentOperation.done) {
-        throw new Error('Video generation timed out. Please try again.');
-      }
+  // VEO bills per second of video; clips are 8 seconds unless a length was requested
+  private recordUsage(startedAt: number, durationSeconds?: number | null): void {
+    usageTracker.record({
+      account: 'gemini',
+      model: VEO_MODEL,
+      step: 'generate',
+      startedAt,
+      videoSeconds: durationSeconds ?? VEO_DEFAULT_SECONDS,
+    });
+  }
 
-      // Get the video file reference
-      const videoFile: any = currentOperation.response?.generatedVideos?.[0]?.video;
-      if (!videoFile) {
-        throw new Error('No video was generated.');
-      }
+  /**
+   * Poll an operation until it is done, then download the video as a Blob URL
+   */
+  private async completeOperation(
+    operationName: string,
+    onProgress?: VideoProgressCallback,
+    signal?: AbortSignal
+  ): Promise<string> {
+    // Poll until video is ready
+    let pollCount = 0;
+    const maxPolls = 30; // Maximum 5 minutes (10 sec intervals)
+    let currentOperation = await this.fetchOperation(operationName, signal, onProgress);
 
-      // In browser, download the protected file and return a Blob URL
-      const fileUri: string | undefined = videoFile.uri;
-      if (!fileUri) {
-        throw new Error('No downloadable video URI was returned.');
+    while (!currentOperation.done && pollCount < maxPolls) {
+      if (onProgress) {
+        onProgress(`Generating video... (${pollCount * 10}s elapsed)`, currentOperation.metadata?.progressPercent);
       }
+      await sleep(10000, signal); // 10 sec, stops early when cancelled
+      currentOperation = await this.fetchOperation(operationName, signal, onProgress);
+      pollCount++;
+    }
 
-      // Prefer API key as query parameter for browser download
-      const downloadUrl = fileUri.includes('key=')
-        ? fileUri
-        : `${fileUri}${fileUri.includes('?') ? '&' : '?'}key=${encodeURIComponent(this.apiKey || '')}`;
+    if (!currentOperation.done) {
+      throw new PipelineError({
+        step: 'generate',
+        code: 'timeout',
+        message: 'Video generation timed out. Please try again.',
+      });
+    }
+    if (currentOperation.error) {
+      // Operation errors use the same shape as API error bodies
+      throw fromGoogleErrorBody('generate', JSON.stringify({ error: currentOperation.error }));
+    }
 
-      if (onProgress) onProgress('Downloading video...');
-      const res = await fetch(downloadUrl);
-      if (!res.ok) {
-        throw new Error(`Failed to download video (HTTP ${res.status})`);
+    // Get the video file reference
+    const videoFile = currentOperation.response?.generatedVideos?.[0]?.video;
+    if (!videoFile) {
+      if (currentOperation.response?.raiMediaFilteredCount) {
+        console.warn('[VEO] Video filtered:', currentOperation.response.raiMediaFilteredReasons);
+        throw new PipelineError({ step: 'generate', code: 'safety_blocked' });
       }
-      const blob = await res.blob();
-      const objectUrl = URL.createObjectURL(blob);
+      throw new Error('No video was generated.');
+    }
 
-      if (onProgress) onProgress('Video ready!');
-      return objectUrl;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('quota')) {
-          throw new Error('API quota exceeded. Please check your API usage limits.');
-        }
-        if (error.message.includes('safety')) {
-          throw new Error('Content was rejected for safety reasons. Please try different content.');
-        }
-        throw error;
-      }
-      throw new Error('Failed to generate video. Please try again.');
+    // In browser, download the protected file and return a Blob URL
+    const fileUri: string | undefined = videoFile.uri;
+    if (!fileUri) {
+      throw new Error('No downloadable video URI was returned.');
     }
+
+    // Browsers cannot set headers on the download, so the key goes in the query
+    // string; through the key server the video is streamed without it
+    const downloadUrl = this.withKey(toGeminiFileUrl(fileUri));
+
+    if (onProgress) onProgress('Downloading video...');
+    const res = await fetch(downloadUrl, { signal });
+    if (!res.ok) {
+      throw new PipelineError({
+        step: 'generate',
+        code: res.status >= 500 ? 'server_error' : 'unknown',
+        status: res.status,
+        message: `Failed to download video (HTTP ${res.status})`,
+      });
+    }
+    const blob = await res.blob();
+    const objectUrl = URL.createObjectURL(blob);
+
+    if (onProgress) onProgress('Video ready!');
+    return objectUrl;
   }
 
   /**
-   * Replicate fallback: Seedance 1 Pro (image optional)
+   * Fetch the current state of an operation. Failed polls are retried with
+   * backoff; polls do not count against the request budget.
    */
-  async generateVideoWithReplicate(
-    prompt: string,
-    imageUrl?: string,
-    duration: number = 5,
-    resolution: '480p' | '720p' | '1080p' = '480p',
-    aspectRatio: '16:9' | '4:3' | '1:1' | '3:4' | '9:16' | '21:9' | '9:21' = '16:9',
-  ): Promise<string> {
-    const token = localStorage.getItem('REPLICATE_API_TOKEN');
-    if (!token) throw new Error('Missing Replicate API token. Set REPLICATE_API_TOKEN in localStorage.');
-
-    const body = {
-      input: {
-        prompt,
-        duration,
-        resolution,
-        aspect_ratio: aspectRatio,
-        image: imageUrl || null,
-        fps: 24,
-        camera_fixed: false,
-      },
-    } as const;
-
-    const res = await fetch('/replicate/v1/models/bytedance/seedance-1-pro/predictions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        Prefer: 'wait',
-      },
-      body: JSON.stringify(body),
-    });
+  private fetchOperation(
+    operationName: string,
+    signal?: AbortSignal,
+    onProgress?: (status: string) => void
+  ): Promise<VeoOperation> {
+    return requestLayer.run(
+      'gemini',
+      async () => {
+        const pollResponse = await fetch(
+          this.withKey(`${getGeminiBaseUrl()}/v1beta/${operationName}`),
+          {
+            method: 'GET',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            signal,
+          }
+        );
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Replicate failed (${res.status}): ${text}`);
-    }
+        if (!pollResponse.ok) {
+          throw fromGoogleErrorBody('generate', await pollResponse.text(), pollResponse.status);
+        }
+        return pollResponse.json();
+      },
+      { signal, step: 'generate', onProgress, metered: false }
+    );
+  }
 
-    const data = await res.json();
-    // API returns output as a URL string according to the provided schema
-    const outputUrl: string | undefined = data.output;
-    if (!outputUrl) throw new Error('Replicate did not return an output URL.');
-    return outputUrl;
+  /**
+   * Map low-level failures to typed errors the UI can act on
+   */
+  private toFriendlyError(error: unknown, signal?: AbortSignal): PipelineError {
+    rethrowIfAborted(error, signal);
+    return toPipelineError('generate', error);
   }
 
   /**
@@ -186,7 +300,11 @@ class VeoService {
    */
   async generateVideoSimple(
     imageDataUrl: string,
-    prompt: string
+    prompt: string,
+    onProgress?: VideoProgressCallback,
+    signal?: AbortSignal,
+    onOperationStarted?: (operationName: string) => void,
+    options?: Partial<VideoGenerationOptions>
   ): Promise<string> {
     // Handle both data URLs and regular URLs
     if (imageDataUrl.startsWith('data:')) {
@@ -195,41 +313,38 @@ class VeoService {
       const mimeType = mimeMatch?.[1] || 'image/jpeg';
       const base64 = imageDataUrl.split(',')[1];
       if (!base64) {
-        throw new Error('Invalid data URL: missing base64 data');
+        throw new PipelineError({ step: 'generate', code: 'invalid_image', message: 'Invalid data URL: missing base64 data' });
       }
-      return this.generateVideo(base64, prompt, undefined, mimeType);
+      return this.generateVideo(base64, prompt, onProgress, mimeType, signal, onOperationStarted, options);
     } else if (imageDataUrl.startsWith('http')) {
       // It's a regular URL - need to fetch and convert to base64
+      let base64: string;
+      let mimeType: string;
       try {
-        const response = await fetch(imageDataUrl);
+        const response = await fetch(imageDataUrl, { signal });
         if (!response.ok) {
           throw new Error(`Failed to fetch image: ${response.status}`);
         }
         const blob = await response.blob();
-        const mimeType = blob.type || 'image/jpeg';
-        
-        // Convert blob to base64
-        return new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = async () => {
-            const dataUrl = reader.result as string;
-            const base64 = dataUrl.split(',')[1];
-            try {
-              const result = await this.generateVideo(base64, prompt, undefined, mimeType);
-              resolve(result);
-            } catch (error) {
-              reject(error);
-            }
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
+        mimeType = blob.type || 'image/jpeg';
+        base64 = (await fileToDataUrl(blob)).split(',')[1];
       } catch (error) {
+        rethrowIfAborted(error, signal);
         console.error('[VEO] Failed to fetch and convert image URL:', error);
-        throw new Error('Failed to process image URL for video generation');
+        throw new PipelineError({
+          step: 'generate',
+          code: 'network',
+          message: 'Failed to process image URL for video generation',
+          cause: error,
+        });
       }
+      return this.generateVideo(base64, prompt, onProgress, mimeType, signal, onOperationStarted, options);
     } else {
-      throw new Error('Invalid image format: must be either a data URL or HTTP URL');
+      throw new PipelineError({
+        step: 'generate',
+        code: 'invalid_image',
+        message: 'Invalid image format: must be either a data URL or HTTP URL',
+      });
     }
   }
 }
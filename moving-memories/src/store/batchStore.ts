@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { BatchJob } from '../types';
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+interface BatchStore {
+  jobs: BatchJob[];
+  // How many photos run through the pipeline at the same time
+  concurrency: number;
+
+  addJobs: (jobs: BatchJob[]) => void;
+  updateJob: (id: string, patch: Partial<BatchJob>) => void;
+  removeJob: (id: string) => void;
+  clearJobs: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+// Release blob URLs created for a job's results
+const revokeJobUrls = (job: BatchJob) => {
+  if (job.videoUrl?.startsWith('blob:')) URL.revokeObjectURL(job.videoUrl);
+  if (job.enhancedImageUrl?.startsWith('blob:')) URL.revokeObjectURL(job.enhancedImageUrl);
+};
+
+export const useBatchStore = create<BatchStore>()(
+  persist(
+    (set, get) => ({
+      jobs: [],
+      concurrency: 2,
+
+      addJobs: (jobs) =>
+        set({ jobs: [...get().jobs, ...jobs] }),
+
+      updateJob: (id, patch) =>
+        set({ jobs: get().jobs.map((job) => (job.id === id ? { ...job, ...patch } : job)) }),
+
+      removeJob: (id) => {
+        const job = get().jobs.find((other) => other.id === id);
+        if (job) revokeJobUrls(job);
+        set({ jobs: get().jobs.filter((other) => other.id !== id) });
+      },
+
+      clearJobs: () => {
+        get().jobs.forEach(revokeJobUrls);
+        set({ jobs: [] });
+      },
+
+      setConcurrency: (concurrency) =>
+        set({ concurrency: Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.round(concurrency))) }),
+    }),
+    {
+      name: 'moving-memories-batch',
+      storage: createJSONStorage(() => localStorage),
+      // Jobs hold Files and media URLs that do not survive a reload
+      partialize: (state) => ({ concurrency: state.concurrency }),
+    }
+  )
+);
@@ -1,15 +1,40 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { MemoryState, ProcessingStep, ProcessingError } from '../types';
+import type {
+  MemoryState,
+  ProcessingStep,
+  PendingVideoOperation,
+  EnhancementOption,
+  AppliedPreset,
+  PhotoMetadata,
+  PhotoFraming,
+  ImageRenditions,
+} from '../types';
+import type { PipelineStage, PromptCandidate } from '../services/providers/types';
+import { useSettingsStore } from './settingsStore';
+import { galleryService } from '../services/galleryService';
+import { fileToDataUrl, imageFingerprint } from '../utils/imageProcessing';
 
 interface MemoryStore extends MemoryState {
   // State management actions
-  setCurrentStep: (step: ProcessingStep) => void;
-  setOriginalImage: (file: File, url: string) => void;
+  // Moves only to steps canProceedToStep allows; returns whether it moved
+  setCurrentStep: (step: ProcessingStep) => boolean;
+  goBack: () => boolean;
+  goNext: () => boolean;
+  setOriginalImage: (file: File, renditions: ImageRenditions, metadata?: PhotoMetadata | null) => void;
+  // The photo fitted to the video shape; results made from another framing are dropped
+  setFramedImage: (renditions: ImageRenditions, framing: PhotoFraming) => void;
   setEnhancedImage: (url: string, caption?: string) => void;
   setVideoUrl: (url: string) => void;
   setUserNote: (note: string) => void;
   setMotionPrompt: (prompt: string) => void;
+  setEnhancementOptions: (options: Omit<EnhancementOption, 'chosen'>[]) => void;
+  chooseEnhancement: (index: number | null) => void;
+  setAppliedPreset: (preset: AppliedPreset | null) => void;
+  setPromptCandidates: (candidates: PromptCandidate[]) => void;
+  choosePromptCandidate: (index: number | null) => void;
+  setProviderUsed: (stage: PipelineStage, providerId: string) => void;
+  setSavedMemoryId: (id: string | null) => void;
   
   // Processing state actions
   setProcessing: (isProcessing: boolean) => void;
@@ -23,7 +48,11 @@ interface MemoryStore extends MemoryState {
   // Processing metadata
   startProcessing: () => void;
   completeProcessing: () => void;
-  setEstimatedTime: (seconds: number) => void;
+  setEstimatedTime: (seconds: number | null) => void;
+  
+  // Resumable video jobs
+  setPendingVideoOperation: (operation: PendingVideoOperation | null) => void;
+  resumePendingVideo: () => void;
   
   // Reset and cleanup
   resetWorkflow: () => void;
@@ -38,7 +67,11 @@ const initialState: MemoryState = {
   currentStep: 'upload',
   originalImage: null,
   originalImageUrl: null,
+  uploadedImageDataUrl: null,
   originalImageDataUrl: null,
+  renditions: null,
+  framing: null,
+  photoMetadata: null,
   enhancedImageUrl: null,
   enhancedImageCaption: null,
   videoUrl: null,
@@ -50,6 +83,21 @@ const initialState: MemoryState = {
   apiKey: null,
   processingStartTime: null,
   estimatedTimeRemaining: null,
+  pendingVideoOperation: null,
+  resumingVideo: false,
+  enhancementOptions: [],
+  appliedPreset: null,
+  promptCandidates: [],
+  providersUsed: {},
+  savedMemoryId: null,
+};
+
+// Forget the image kept for a video job that will not be resumed
+const dropVideoSource = (operation: PendingVideoOperation | null) => {
+  if (!operation) return;
+  galleryService.dropVideoSource(operation.operationName).catch((error) => {
+    console.warn('[Resume] Could not remove the kept source image:', error);
+  });
 };
 
 export const useMemoryStore = create<MemoryStore>()(
@@ -58,41 +106,110 @@ export const useMemoryStore = create<MemoryStore>()(
       ...initialState,
 
       // State management actions
-      setCurrentStep: (step) =>
-        set((state) => ({ 
+      setCurrentStep: (step) => {
+        if (!getWorkflowSteps().includes(step) || !get().canProceedToStep(step)) {
+          console.warn(`[Workflow] Cannot move from ${get().currentStep} to ${step} yet`);
+          return false;
+        }
+        set({
           currentStep: step,
-          error: null, // Clear error when moving to next step
-        })),
+          error: null, // Clear error when moving to another step
+        });
+        return true;
+      },
+
+      // Earlier results are kept, so going back and forth never loses work
+      goBack: () => {
+        const previous = getPreviousStep(get().currentStep);
+        return previous !== null && get().setCurrentStep(previous);
+      },
+
+      goNext: () => {
+        const next = getNextStep(get().currentStep);
+        return next !== null && get().setCurrentStep(next);
+      },
 
-      setOriginalImage: (file, url) =>
+      setOriginalImage: (file, renditions, metadata = null) => {
+        // A job started for the previous photo must not be shown as this one's
+        dropVideoSource(get().pendingVideoOperation);
         set({
           originalImage: file,
-          originalImageUrl: url,
-          originalImageDataUrl: url,
+          originalImageUrl: renditions.enhance,
+          // Framing starts from the largest copy
+          uploadedImageDataUrl: renditions.video,
+          originalImageDataUrl: renditions.enhance,
+          renditions,
+          framing: null,
+          photoMetadata: metadata,
           // Clear downstream states when new image is uploaded
           enhancedImageUrl: null,
           enhancedImageCaption: null,
           videoUrl: null,
           motionPrompt: '',
           userNote: '', // Clear user note for new upload
+          enhancementOptions: [],
+          appliedPreset: null,
+          promptCandidates: [],
+          providersUsed: {},
+          savedMemoryId: null,
           error: null,
-          currentStep: 'enhance',
-        }),
+          pendingVideoOperation: null,
+          resumingVideo: false,
+          // Frame when framing is on, otherwise straight to Enhance
+          currentStep: getWorkflowSteps()[1],
+        });
+      },
 
-      setEnhancedImage: (url, caption) =>
+      setFramedImage: (renditions, framing) => {
+        const state = get();
+        if (
+          state.originalImageDataUrl === renditions.enhance &&
+          JSON.stringify(state.framing) === JSON.stringify(framing)
+        ) {
+          return;
+        }
+        if (state.videoUrl?.startsWith('blob:')) URL.revokeObjectURL(state.videoUrl);
+        dropVideoSource(state.pendingVideoOperation);
+        set({
+          pendingVideoOperation: null,
+          resumingVideo: false,
+          originalImageDataUrl: renditions.enhance,
+          renditions,
+          framing,
+          enhancedImageUrl: null,
+          enhancedImageCaption: null,
+          enhancementOptions: [],
+          appliedPreset: null,
+          motionPrompt: '',
+          promptCandidates: [],
+          videoUrl: null,
+          providersUsed: {},
+          savedMemoryId: null,
+        });
+      },
+
+      setEnhancedImage: (url, caption) => {
+        // A video made from the previous enhancement no longer matches
+        const { videoUrl, enhancedImageUrl } = get();
+        const replaced = enhancedImageUrl !== null && enhancedImageUrl !== url;
+        if (replaced && videoUrl?.startsWith('blob:')) URL.revokeObjectURL(videoUrl);
         set({
           enhancedImageUrl: url,
           enhancedImageCaption: caption || null,
-          currentStep: 'generate',
-        }),
+          ...(replaced && { videoUrl: null, savedMemoryId: null }),
+        });
+      },
 
-      setVideoUrl: (url) =>
+      setVideoUrl: (url) => {
+        dropVideoSource(get().pendingVideoOperation);
         set({
           videoUrl: url,
-          currentStep: 'complete',
           isProcessing: false,
           progress: 100,
-        }),
+          pendingVideoOperation: null, // The job has delivered its video
+          resumingVideo: false,
+        });
+      },
 
       setUserNote: (note) =>
         set({ userNote: note }),
@@ -100,6 +217,49 @@ export const useMemoryStore = create<MemoryStore>()(
       setMotionPrompt: (prompt) =>
         set({ motionPrompt: prompt }),
 
+      setEnhancementOptions: (options) =>
+        set({ enhancementOptions: options.map((option) => ({ ...option, chosen: false })) }),
+
+      // null keeps the original photo
+      chooseEnhancement: (index) => {
+        const { enhancementOptions: options, originalImageDataUrl, providersUsed } = get();
+        const chosen = index === null ? undefined : options[index];
+        const imageUrl = chosen ? chosen.imageUrl : originalImageDataUrl;
+        if (!imageUrl) return;
+
+        // The caption still describes the photo when the original is kept
+        get().setEnhancedImage(imageUrl, chosen ? chosen.caption : options[0]?.caption);
+        const used = { ...providersUsed };
+        if (chosen) used.enhance = chosen.providerId;
+        else delete used.enhance;
+        set({
+          enhancementOptions: options.map((option, i) => ({ ...option, chosen: !!chosen && i === index })),
+          providersUsed: used,
+        });
+      },
+
+      setAppliedPreset: (preset) =>
+        set({ appliedPreset: preset }),
+
+      setPromptCandidates: (candidates) =>
+        set({ promptCandidates: candidates.map((candidate) => ({ ...candidate, chosen: false })) }),
+
+      // null clears the choice, e.g. when a fresh prompt replaces it
+      choosePromptCandidate: (index) => {
+        const candidates = get().promptCandidates;
+        const chosen = index === null ? undefined : candidates[index];
+        set({
+          motionPrompt: chosen ? chosen.prompt : get().motionPrompt,
+          promptCandidates: candidates.map((candidate, i) => ({ ...candidate, chosen: !!chosen && i === index })),
+        });
+      },
+
+      setProviderUsed: (stage, providerId) =>
+        set((state) => ({ providersUsed: { ...state.providersUsed, [stage]: providerId } })),
+
+      setSavedMemoryId: (id) =>
+        set({ savedMemoryId: id }),
+
       // Processing state actions
       setProcessing: (isProcessing) =>
         set({ isProcessing }),
@@ -140,6 +300,46 @@ export const useMemoryStore = create<MemoryStore>()(
       setEstimatedTime: (seconds) =>
         set({ estimatedTimeRemaining: seconds }),
 
+      // Resumable video jobs
+      setPendingVideoOperation: (operation) => {
+        const previous = get().pendingVideoOperation;
+        if (previous?.operationName !== operation?.operationName) dropVideoSource(previous);
+        // A new job belongs to the current image; it needs no explicit resume
+        set({ pendingVideoOperation: operation, resumingVideo: false });
+      },
+
+      resumePendingVideo: () => {
+        const { pendingVideoOperation: pending, enhancedImageUrl } = get();
+        if (!pending) return;
+
+        // Restore what the Generate step needs; it picks up the job from there.
+        // After a reload the source image comes back from IndexedDB.
+        const sameImage = !!enhancedImageUrl && imageFingerprint(enhancedImageUrl) === pending.sourceImageId;
+        if (!sameImage) {
+          galleryService
+            .getVideoSource(pending.operationName)
+            .then((blob) => (blob ? fileToDataUrl(blob) : null))
+            .then((url) => {
+              const state = get();
+              if (url && state.pendingVideoOperation?.operationName === pending.operationName && !state.enhancedImageUrl) {
+                set({ enhancedImageUrl: url });
+              }
+            })
+            .catch((error) => console.warn('[Resume] Could not restore the source image:', error));
+        }
+        set({
+          resumingVideo: true,
+          enhancedImageUrl: sameImage ? enhancedImageUrl : null,
+          motionPrompt: pending.prompt,
+          userNote: pending.userNote,
+          videoUrl: null,
+          providersUsed: { video: pending.providerId },
+          savedMemoryId: null,
+          error: null,
+          currentStep: 'generate',
+        });
+      },
+
       // Reset and cleanup
       resetWorkflow: () => {
         // Clean up blob URLs to prevent memory leaks
@@ -150,6 +350,8 @@ export const useMemoryStore = create<MemoryStore>()(
         if (state.videoUrl?.startsWith('blob:')) {
           URL.revokeObjectURL(state.videoUrl);
         }
+        // Starting over abandons any unfinished video job along with its photo
+        dropVideoSource(state.pendingVideoOperation);
         
         set({
           ...initialState,
@@ -169,7 +371,12 @@ export const useMemoryStore = create<MemoryStore>()(
         set({
           originalImage: null,
           originalImageUrl: null,
+          uploadedImageDataUrl: null,
+          renditions: null,
+          framing: null,
+          photoMetadata: null,
           enhancedImageUrl: null,
+          enhancementOptions: [],
           videoUrl: null,
           currentStep: 'upload',
           progress: 0,
@@ -184,12 +391,15 @@ export const useMemoryStore = create<MemoryStore>()(
         switch (step) {
           case 'upload':
             return true;
+          case 'frame':
+            return !!state.uploadedImageDataUrl;
           case 'enhance':
-            return !!state.originalImage; // Removed API key check
+            return !!state.originalImageDataUrl; // Removed API key check
           case 'prompt':
             return !!state.enhancedImageUrl;
           case 'generate':
-            return !!state.motionPrompt;
+            // Without prompt review the prompt is written inside the Generate step
+            return !!state.enhancedImageUrl && (!useSettingsStore.getState().reviewPrompt || !!state.motionPrompt.trim());
           case 'complete':
             return !!state.videoUrl;
           default:
@@ -201,6 +411,7 @@ export const useMemoryStore = create<MemoryStore>()(
         const state = get();
         const stepValues = {
           upload: 0,
+          frame: 10,
           enhance: 25,
           prompt: 50,
           generate: 75,
@@ -217,14 +428,28 @@ export const useMemoryStore = create<MemoryStore>()(
       partialize: (state) => ({
         apiKey: state.apiKey,
         userNote: state.userNote,
+        pendingVideoOperation: state.pendingVideoOperation,
       }),
     }
   )
 );
 
+// Steps of the guided flow in order; Frame and Review only when turned on
+export const getWorkflowSteps = (): ProcessingStep[] => {
+  const { framePhotos, reviewPrompt } = useSettingsStore.getState();
+  return [
+    'upload',
+    ...(framePhotos ? (['frame'] as const) : []),
+    'enhance',
+    ...(reviewPrompt ? (['prompt'] as const) : []),
+    'generate',
+    'complete',
+  ];
+};
+
 // Utility function to validate step transitions
 export const getNextStep = (currentStep: ProcessingStep): ProcessingStep | null => {
-  const stepOrder: ProcessingStep[] = ['upload', 'enhance', 'prompt', 'generate', 'complete'];
+  const stepOrder = getWorkflowSteps();
   const currentIndex = stepOrder.indexOf(currentStep);
   
   if (currentIndex === -1 || currentIndex === stepOrder.length - 1) {
@@ -234,26 +459,11 @@ export const getNextStep = (currentStep: ProcessingStep): ProcessingStep | null
   return stepOrder[currentIndex + 1];
 };
 
+export const getPreviousStep = (currentStep: ProcessingStep): ProcessingStep | null => {
+  const stepOrder = getWorkflowSteps();
+  const currentIndex = stepOrder.indexOf(currentStep);
+  return currentIndex > 0 ? stepOrder[currentIndex - 1] : null;
+};
+
 // Error handling utilities
-export const createProcessingError = (
-  step: ProcessingStep,
-  message: string,
-  retryable = true,
-  code?: string
-): ProcessingError => ({
-  step,
-  message,
-  code,
-  retryable,
-});
-
-// Common error messages
-export const ERROR_MESSAGES = {
-  NO_API_KEY: 'Please provide your Gemini API key to continue',
-  INVALID_IMAGE: 'Please upload a valid image file (JPEG, PNG, or WebP)',
-  IMAGE_TOO_LARGE: 'Image file is too large. Please use an image under 10MB',
-  NETWORK_ERROR: 'Network error. Please check your connection and try again',
-  API_ERROR: 'API error occurred. Please try again',
-  QUOTA_EXCEEDED: 'API quota exceeded. Please check your Gemini API usage',
-  PROCESSING_TIMEOUT: 'Processing took too long. Please try again with a different image',
-} as const;
\ No newline at end of file
+export { createProcessingError, ERROR_MESSAGES } from '../utils/errors';
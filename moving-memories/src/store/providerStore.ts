@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { PipelineStage } from '../services/providers/types';
+
+interface ProviderPreferences {
+  // Provider ids per stage, most preferred first
+  order: Record<PipelineStage, string[]>;
+  // When false only the first available provider is tried
+  fallbackEnabled: boolean;
+  // Route every stage to the offline mock providers
+  mockMode: boolean;
+  // Providers switched off, by the user or because the key cannot reach their model
+  disabled: string[];
+}
+
+interface ProviderStore extends ProviderPreferences {
+  setProviderOrder: (stage: PipelineStage, ids: string[]) => void;
+  moveProvider: (stage: PipelineStage, id: string, direction: -1 | 1) => void;
+  setFallbackEnabled: (enabled: boolean) => void;
+  setMockMode: (enabled: boolean) => void;
+  setProviderEnabled: (id: string, enabled: boolean) => void;
+  resetPreferences: () => void;
+}
+
+export const DEFAULT_PROVIDER_PREFERENCES: ProviderPreferences = {
+  order: {
+    enhance: ['replicate-nano-banana', 'gemini-flash-image'],
+    prompt: ['gemini-flash'],
+    video: ['replicate-seedance', 'veo-3'],
+  },
+  fallbackEnabled: true,
+  mockMode: false,
+  disabled: [],
+};
+
+export const useProviderStore = create<ProviderStore>()(
+  persist(
+    (set, get) => ({
+      ...DEFAULT_PROVIDER_PREFERENCES,
+
+      setProviderOrder: (stage, ids) =>
+        set({ order: { ...get().order, [stage]: ids } }),
+
+      moveProvider: (stage, id, direction) => {
+        const ids = [...get().order[stage]];
+        const index = ids.indexOf(id);
+        const target = index + direction;
+        if (index === -1 || target < 0 || target >= ids.length) return;
+
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        set({ order: { ...get().order, [stage]: ids } });
+      },
+
+      setFallbackEnabled: (enabled) =>
+        set({ fallbackEnabled: enabled }),
+
+      setMockMode: (enabled) =>
+        set({ mockMode: enabled }),
+
+      setProviderEnabled: (id, enabled) => {
+        const others = get().disabled.filter((other) => other !== id);
+        set({ disabled: enabled ? others : [...others, id] });
+      },
+
+      resetPreferences: () =>
+        set({
+          order: DEFAULT_PROVIDER_PREFERENCES.order,
+          fallbackEnabled: DEFAULT_PROVIDER_PREFERENCES.fallbackEnabled,
+          disabled: DEFAULT_PROVIDER_PREFERENCES.disabled,
+        }),
+    }),
+    {
+      name: 'moving-memories-providers',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        order: state.order,
+        fallbackEnabled: state.fallbackEnabled,
+        mockMode: state.mockMode,
+        disabled: state.disabled,
+      }),
+    }
+  )
+);
+
+// Build-time switch: VITE_MOCK_PROVIDERS=true forces mock mode on
+export const MOCK_MODE_FORCED = import.meta.env.VITE_MOCK_PROVIDERS === 'true';
+
+/**
+ * Mock mode is on when toggled in the UI or forced by the env flag
+ */
+export const isMockMode = (): boolean =>
+  MOCK_MODE_FORCED || useProviderStore.getState().mockMode;
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { CredentialKind } from '../services/providers/types';
+
+export type ProxyStatus = 'off' | 'checking' | 'online' | 'offline';
+
+// Stands in for a real key when the key server adds it
+export const PROXY_CREDENTIAL = 'key-server';
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+interface ProxyStore {
+  // Base URL of the local key server; empty to call providers directly
+  url: string;
+  status: ProxyStatus;
+  // Which keys the key server reported holding
+  credentials: Record<CredentialKind, boolean>;
+  setUrl: (url: string) => void;
+  check: () => Promise<void>;
+}
+
+const NO_CREDENTIALS: Record<CredentialKind, boolean> = { gemini: false, replicate: false };
+
+// Build-time default, e.g. VITE_PROXY_URL=http://localhost:8787
+const DEFAULT_PROXY_URL = import.meta.env.VITE_PROXY_URL ?? '';
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const useProxyStore = create<ProxyStore>()(
+  persist(
+    (set, get) => ({
+      url: normalizeUrl(DEFAULT_PROXY_URL),
+      status: 'off',
+      credentials: NO_CREDENTIALS,
+
+      setUrl: (url) =>
+        set({ url: normalizeUrl(url), status: 'off', credentials: NO_CREDENTIALS }),
+
+      check: async () => {
+        const { url } = get();
+        if (!url) {
+          set({ status: 'off', credentials: NO_CREDENTIALS });
+          return;
+        }
+
+        set({ status: 'checking' });
+        try {
+          const res = await fetch(`${url}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+          if (!res.ok) throw new Error(`Key server answered HTTP ${res.status}`);
+          const health: Partial<Record<CredentialKind, boolean>> = await res.json();
+          // The URL may have changed while the check was running
+          if (get().url !== url) return;
+          set({
+            status: 'online',
+            credentials: { gemini: !!health.gemini, replicate: !!health.replicate },
+          });
+        } catch (error) {
+          console.error('[Proxy] Key server is not reachable:', error);
+          if (get().url === url) set({ status: 'offline', credentials: NO_CREDENTIALS });
+        }
+      },
+    }),
+    {
+      name: 'moving-memories-proxy',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ url: state.url }),
+    }
+  )
+);
+
+/**
+ * Key server base URL, or null when providers are called directly
+ */
+export const getProxyUrl = (): string | null => useProxyStore.getState().url || null;
@@ -0,0 +1,191 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { PROMPT_CANDIDATE_STYLES } from '../config/prompts';
+import { DEFAULT_VIDEO_OPTIONS } from '../services/providers/videoOptions';
+import type { CredentialKind, VideoGenerationOptions, VideoProvider } from '../services/providers/types';
+import type { ImageProcessingOptions } from '../utils/imageProcessing';
+import { describePhotoContext } from '../utils/exif';
+import type { AppSettings, EnhancementPreset, PhotoMetadata, RestorationOptions } from '../types';
+
+export const MIN_PROMPT_CANDIDATES = 2;
+export const MAX_RETRIES = 5;
+
+interface WorkflowSettings {
+  // Fit each photo to the video's shape on a Frame step before enhancing
+  framePhotos: boolean;
+  // Stop after enhancement so the motion prompt can be reviewed before credits are spent
+  reviewPrompt: boolean;
+  // Run every available enhancer side by side and let the user pick a result
+  compareEnhancers: boolean;
+  // Enhancement preset id, or 'auto' to pick one by classifying each photo
+  enhancementPreset: string;
+  // Presets written by the user, offered next to the built-in ones
+  customPresets: EnhancementPreset[];
+  // How old photos are restored
+  restoration: RestorationOptions;
+  // Tell the prompt writer when and where the photo was taken, from its EXIF
+  usePhotoDetails: boolean;
+  // How many alternative motion prompts to suggest on the review step
+  promptCandidateCount: number;
+  // Requested format and controls for generated videos
+  videoOptions: VideoGenerationOptions;
+  // Automatic retries for rate limits, timeouts and outages
+  maxRetries: number;
+  // Client-side request budget per account, to stay under per-minute quotas
+  requestsPerMinute: Record<CredentialKind, number>;
+}
+
+interface SettingsStore extends WorkflowSettings, AppSettings {
+  setFramePhotos: (enabled: boolean) => void;
+  setReviewPrompt: (enabled: boolean) => void;
+  setCompareEnhancers: (enabled: boolean) => void;
+  setEnhancementPreset: (presetId: string) => void;
+  // Adds a preset, or updates the one with the same id; returns its id
+  saveCustomPreset: (preset: { id?: string; label: string; instruction: string }) => string;
+  deleteCustomPreset: (id: string) => void;
+  setRestoration: (options: Partial<RestorationOptions>) => void;
+  setUsePhotoDetails: (enabled: boolean) => void;
+  setPromptCandidateCount: (count: number) => void;
+  setVideoOptions: (options: Partial<VideoGenerationOptions>) => void;
+  resetVideoOptions: () => void;
+  setMaxRetries: (retries: number) => void;
+  setRequestsPerMinute: (kind: CredentialKind, perMinute: number) => void;
+  setTheme: (theme: AppSettings['theme']) => void;
+  setAnimationsEnabled: (enabled: boolean) => void;
+  setAutoProcessing: (enabled: boolean) => void;
+  setQualitySettings: (quality: Partial<AppSettings['qualitySettings']>) => void;
+}
+
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = {
+  framePhotos: true,
+  reviewPrompt: false,
+  compareEnhancers: false,
+  enhancementPreset: 'auto',
+  customPresets: [],
+  restoration: { colorize: false, colorIntensity: 50 },
+  usePhotoDetails: true,
+  promptCandidateCount: 3,
+  videoOptions: DEFAULT_VIDEO_OPTIONS,
+  maxRetries: 3,
+  // Gemini free tier allows 10 requests per minute for Flash models
+  requestsPerMinute: { gemini: 10, replicate: 60 },
+};
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  theme: 'auto',
+  animationsEnabled: true,
+  // Move on to the finished memory by itself once the video is ready
+  autoProcessing: true,
+  qualitySettings: {
+    imageQuality: 0.9,
+    maxImageSize: 1024,
+    videoQuality: 'high',
+  },
+};
+
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    (set, get) => ({
+      ...DEFAULT_WORKFLOW_SETTINGS,
+      ...DEFAULT_APP_SETTINGS,
+
+      setFramePhotos: (enabled) =>
+        set({ framePhotos: enabled }),
+
+      setReviewPrompt: (enabled) =>
+        set({ reviewPrompt: enabled }),
+
+      setCompareEnhancers: (enabled) =>
+        set({ compareEnhancers: enabled }),
+
+      setEnhancementPreset: (presetId) =>
+        set({ enhancementPreset: presetId }),
+
+      saveCustomPreset: ({ id = `custom-${crypto.randomUUID()}`, label, instruction }) => {
+        const preset: EnhancementPreset = { id, label: label.trim(), instruction: instruction.trim(), custom: true };
+        const presets = get().customPresets;
+        set({
+          customPresets: presets.some((existing) => existing.id === id)
+            ? presets.map((existing) => (existing.id === id ? preset : existing))
+            : [...presets, preset],
+        });
+        return id;
+      },
+
+      deleteCustomPreset: (id) =>
+        set({
+          customPresets: get().customPresets.filter((preset) => preset.id !== id),
+          // A deleted default falls back to automatic
+          enhancementPreset: get().enhancementPreset === id ? 'auto' : get().enhancementPreset,
+        }),
+
+      setRestoration: (options) => {
+        const restoration = { ...get().restoration, ...options };
+        set({ restoration: { ...restoration, colorIntensity: Math.max(0, Math.min(100, Math.round(restoration.colorIntensity))) } });
+      },
+
+      setUsePhotoDetails: (enabled) =>
+        set({ usePhotoDetails: enabled }),
+
+      setPromptCandidateCount: (count) =>
+        set({
+          promptCandidateCount: Math.max(
+            MIN_PROMPT_CANDIDATES,
+            Math.min(PROMPT_CANDIDATE_STYLES.length, Math.round(count))
+          ),
+        }),
+
+      setVideoOptions: (options) =>
+        set({ videoOptions: { ...get().videoOptions, ...options } }),
+
+      resetVideoOptions: () =>
+        set({ videoOptions: DEFAULT_VIDEO_OPTIONS }),
+
+      setMaxRetries: (retries) =>
+        set({ maxRetries: Math.max(0, Math.min(MAX_RETRIES, Math.round(retries))) }),
+
+      setRequestsPerMinute: (kind, perMinute) =>
+        set({ requestsPerMinute: { ...get().requestsPerMinute, [kind]: Math.max(1, Math.round(perMinute)) } }),
+
+      setTheme: (theme) =>
+        set({ theme }),
+
+      setAnimationsEnabled: (enabled) =>
+        set({ animationsEnabled: enabled }),
+
+      setAutoProcessing: (enabled) =>
+        set({ autoProcessing: enabled }),
+
+      setQualitySettings: (quality) =>
+        set({ qualitySettings: { ...get().qualitySettings, ...quality } }),
+    }),
+    {
+      name: 'moving-memories-settings',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
+
+/**
+ * How uploads are resized and compressed before they are sent to a provider.
+ * The video copy is as large as the most any of the video providers uses;
+ * providers that do not say get the photo size setting.
+ */
+export const getImageProcessingOptions = (videoProviders: VideoProvider[] = []): Partial<ImageProcessingOptions> => {
+  const { imageQuality, maxImageSize } = useSettingsStore.getState().qualitySettings;
+  const videoSizes = videoProviders.map((provider) => provider.capabilities.maxImageSize ?? maxImageSize);
+  return {
+    maxWidthOrHeight: maxImageSize,
+    videoMaxWidthOrHeight: videoSizes.length ? Math.max(...videoSizes) : maxImageSize,
+    quality: imageQuality,
+  };
+};
+
+/**
+ * When and where a photo was taken, for the prompt writer; undefined when the
+ * photo has no such details or they are turned off
+ */
+export const getPhotoContext = (metadata: PhotoMetadata | null | undefined): string | undefined => {
+  if (!metadata || !useSettingsStore.getState().usePhotoDetails) return undefined;
+  return describePhotoContext(metadata) ?? undefined;
+};
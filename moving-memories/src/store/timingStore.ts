@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { StepTiming } from '../types';
+
+// Runs kept per stage, provider and resolution; recent runs reflect current load best
+export const TIMINGS_PER_KEY = 20;
+
+export const timingKey = ({ stage, providerId, resolution }: Pick<StepTiming, 'stage' | 'providerId' | 'resolution'>) =>
+  `${stage}:${providerId}:${resolution ?? 'default'}`;
+
+interface TimingStore {
+  timings: StepTiming[];
+  addTiming: (timing: StepTiming) => void;
+  clearTimings: () => void;
+}
+
+export const useTimingStore = create<TimingStore>()(
+  persist(
+    (set, get) => ({
+      timings: [],
+
+      addTiming: (timing) => {
+        const key = timingKey(timing);
+        const sameKey = get().timings.filter((other) => timingKey(other) === key);
+        const dropped = new Set(sameKey.slice(0, Math.max(0, sameKey.length + 1 - TIMINGS_PER_KEY)));
+        set({ timings: [...get().timings.filter((other) => !dropped.has(other)), timing] });
+      },
+
+      clearTimings: () =>
+        set({ timings: [] }),
+    }),
+    {
+      name: 'moving-memories-timings',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
@@ -0,0 +1,17 @@
+import { create } from 'zustand';
+
+interface UiStore {
+  // API configuration modal, opened from the header or from error recovery actions
+  settingsOpen: boolean;
+  // Expand the advanced section (providers, workflow, video) when opening
+  settingsAdvanced: boolean;
+  openSettings: (advanced?: boolean) => void;
+  closeSettings: () => void;
+}
+
+export const useUiStore = create<UiStore>()((set) => ({
+  settingsOpen: false,
+  settingsAdvanced: false,
+  openSettings: (advanced = false) => set({ settingsOpen: true, settingsAdvanced: advanced }),
+  closeSettings: () => set({ settingsOpen: false, settingsAdvanced: false }),
+}));
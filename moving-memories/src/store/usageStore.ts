@@ -0,0 +1,70 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { DEFAULT_PRICES } from '../config/pricing';
+import type { ModelPrice } from '../config/pricing';
+import type { UsageRecord } from '../types';
+
+// Older records are dropped; the dashboard shows at most this month and last
+export const USAGE_RETENTION_DAYS = 62;
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  // Spending limits in US dollars; null for no limit
+  daily: number | null;
+  monthly: number | null;
+  // Ask before going over, or refuse
+  mode: BudgetMode;
+}
+
+interface UsageStore {
+  records: UsageRecord[];
+  // User-edited prices, merged over DEFAULT_PRICES
+  prices: Record<string, ModelPrice>;
+  budget: BudgetSettings;
+  addRecord: (record: UsageRecord) => void;
+  clearRecords: () => void;
+  setPrice: (model: string, price: Partial<ModelPrice>) => void;
+  resetPrices: () => void;
+  setBudget: (budget: Partial<BudgetSettings>) => void;
+}
+
+export const DEFAULT_BUDGET: BudgetSettings = { daily: null, monthly: null, mode: 'warn' };
+
+export const useUsageStore = create<UsageStore>()(
+  persist(
+    (set, get) => ({
+      records: [],
+      prices: DEFAULT_PRICES,
+      budget: DEFAULT_BUDGET,
+
+      addRecord: (record) => {
+        const cutoff = record.timestamp - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+        set({ records: [...get().records.filter((other) => other.timestamp >= cutoff), record] });
+      },
+
+      clearRecords: () =>
+        set({ records: [] }),
+
+      setPrice: (model, price) => {
+        const prices = get().prices;
+        set({ prices: { ...prices, [model]: { ...(prices[model] ?? DEFAULT_PRICES[model] ?? { label: model }), ...price } } });
+      },
+
+      resetPrices: () =>
+        set({ prices: DEFAULT_PRICES }),
+
+      setBudget: (budget) =>
+        set({ budget: { ...get().budget, ...budget } }),
+    }),
+    {
+      name: 'moving-memories-usage',
+      storage: createJSONStorage(() => localStorage),
+      // Models added in a later release get their default price
+      merge: (persisted, current) => {
+        const state = persisted as Partial<UsageStore> | undefined;
+        return { ...current, ...state, prices: { ...DEFAULT_PRICES, ...state?.prices } };
+      },
+    }
+  )
+);
@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { createVault, openVault, resealVault } from '../utils/vault';
+import { geminiService } from '../services/geminiService';
+import { veoService } from '../services/veoService';
+import { replicateService } from '../services/replicateService';
+import type { VaultRecord, VaultSecrets } from '../utils/vault';
+
+export const DEFAULT_IDLE_MINUTES = 15;
+
+interface VaultStore {
+  // Encrypted keys; null when the vault is not used
+  record: VaultRecord | null;
+  // Lock after this long without user activity (0 = never)
+  idleMinutes: number;
+  // Decrypted keys and the key that encrypts them, only held in memory while unlocked
+  secrets: VaultSecrets | null;
+  key: CryptoKey | null;
+  create: (passphrase: string, secrets: VaultSecrets, iterations?: number) => Promise<void>;
+  // Rejects with WrongPassphraseError
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => void;
+  // Re-encrypt changed keys; the vault must be unlocked
+  save: (secrets: VaultSecrets) => Promise<void>;
+  remove: () => void;
+  setIdleMinutes: (minutes: number) => void;
+}
+
+export const useVaultStore = create<VaultStore>()(
+  persist(
+    (set, get) => ({
+      record: null,
+      idleMinutes: DEFAULT_IDLE_MINUTES,
+      secrets: null,
+      key: null,
+
+      create: async (passphrase, secrets, iterations) => {
+        const { record, key } = await createVault(passphrase, secrets, iterations);
+        set({ record, key, secrets });
+      },
+
+      unlock: async (passphrase) => {
+        const { record } = get();
+        if (!record) return;
+        const { secrets, key } = await openVault(record, passphrase);
+        set({ secrets, key });
+      },
+
+      lock: () => {
+        set({ secrets: null, key: null });
+        // The services hold their own copy of the keys; later requests fail until unlocked
+        geminiService.clearKey();
+        veoService.clearKey();
+        replicateService.clearToken();
+      },
+
+      save: async (secrets) => {
+        const { record, key } = get();
+        if (!record || !key) throw new Error('Unlock the key vault before changing keys');
+        set({ record: await resealVault(record, key, secrets), secrets });
+      },
+
+      remove: () => set({ record: null, secrets: null, key: null }),
+
+      setIdleMinutes: (minutes) => set({ idleMinutes: Math.max(0, Math.round(minutes)) }),
+    }),
+    {
+      name: 'moving-memories-vault',
+      storage: createJSONStorage(() => localStorage),
+      // Never persist the decrypted keys
+      partialize: (state) => ({ record: state.record, idleMinutes: state.idleMinutes }),
+    }
+  )
+);
+
+/**
+ * Whether keys are encrypted and the passphrase has not been entered this session
+ */
+export const isVaultLocked = (): boolean => {
+  const { record, secrets } = useVaultStore.getState();
+  return !!record && !secrets;
+};
@@ -1,15 +1,27 @@
 // Core application types for Moving Memories
+import type {
+  CredentialKind,
+  EnhanceResult,
+  PipelineStage,
+  PromptCandidate,
+  VideoAspectRatio,
+  VideoResolution,
+} from './services/providers/types';
 
-export type ProcessingStep = 'upload' | 'enhance' | 'prompt' | 'generate' | 'complete';
+export type ProcessingStep = 'upload' | 'frame' | 'enhance' | 'prompt' | 'generate' | 'complete';
 
 export interface MemoryState {
   // Current processing step
   currentStep: ProcessingStep;
   
   // Media assets
-  originalImage: File | null;
+  originalImage: File | null; // untouched, for download
   originalImageUrl: string | null; // blob URL for display
-  originalImageDataUrl: string | null; // data URL for API calls
+  uploadedImageDataUrl: string | null; // the photo as uploaded at video size, before framing
+  originalImageDataUrl: string | null; // data URL for enhancement, framed when framing is on
+  renditions: ImageRenditions | null; // copies sized for each consumer, framed when framing is on
+  framing: PhotoFraming | null; // how the photo was fitted to the video shape
+  photoMetadata: PhotoMetadata | null; // date, place and camera from EXIF
   enhancedImageUrl: string | null; // base64 data URL from Gemini
   enhancedImageCaption: string | null; // caption from Gemini
   videoUrl: string | null; // URL from VEO
@@ -29,11 +41,169 @@ export interface MemoryState {
   // Processing metadata
   processingStartTime: number | null;
   estimatedTimeRemaining: number | null;
+
+  // Video job still running server-side, kept across reloads
+  pendingVideoOperation: PendingVideoOperation | null;
+  // The user chose to resume that job, so it may be picked up for another image
+  resumingVideo: boolean;
+
+  // Enhanced versions the user picks from; none chosen keeps the original photo
+  enhancementOptions: EnhancementOption[];
+  // Preset the photo was last enhanced with
+  appliedPreset: AppliedPreset | null;
+
+  // Alternative motion prompts the user chose from
+  promptCandidates: MotionPromptCandidate[];
+
+  // Which provider produced each stage's result
+  providersUsed: Partial<Record<PipelineStage, string>>;
+  // Gallery id once the finished memory has been saved
+  savedMemoryId: string | null;
+}
+
+// JPEG data URLs of the same photo, each sized for what it is sent to
+export interface ImageRenditions {
+  analysis: string; // small, for classifying the photo and writing the motion prompt
+  enhance: string; // the photo size setting, for the image model
+  video: string; // the most the video providers use
+}
+
+export interface EnhancementOption extends EnhanceResult {
+  providerId: string;
+  chosen: boolean;
+}
+
+// A named enhancement instruction, built in or written by the user
+export interface EnhancementPreset {
+  id: string;
+  label: string;
+  instruction: string;
+  custom: boolean;
+}
+
+// Old photo restoration: whether and how strongly to add color
+export interface RestorationOptions {
+  colorize: boolean;
+  colorIntensity: number; // 0-100
+}
+
+// Part of a photo, as fractions of its width and height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How an uploaded photo was fitted to the video's aspect ratio: cropped, or
+// extended by the image model to fill the missing space
+export interface PhotoFraming {
+  aspectRatio: VideoAspectRatio;
+  mode: 'crop' | 'extend';
+  crop: CropRect | null; // null when extended
+}
+
+// What the camera recorded about a photo, read from its EXIF block
+export interface PhotoMetadata {
+  capturedAt: number | null; // when the photo was taken, camera local time
+  camera: string | null;
+  location: { latitude: number; longitude: number } | null;
+  orientation: number; // EXIF orientation, 1 when upright or unknown
+}
+
+export interface AppliedPreset {
+  presetId: string;
+  detected: boolean; // picked by classifying the photo rather than by the user
+}
+
+export interface MotionPromptCandidate extends PromptCandidate {
+  chosen: boolean;
+}
+
+export interface PendingVideoOperation {
+  providerId: string;
+  operationName: string; // provider job id, e.g. the VEO long-running operation name
+  prompt: string;
+  sourceImageId: string; // fingerprint of the image the video was generated from; the image is kept in IndexedDB
+  userNote: string;
+  startedAt: number;
+}
+
+// A finished memory as stored in the local gallery (IndexedDB)
+export interface SavedMemory {
+  id: string;
+  createdAt: number; // when the memory was saved
+  photoLastModified: number | null; // lastModified of the uploaded file
+  originalImage: Blob | null; // missing for videos resumed after a reload
+  enhancedImage: Blob | null;
+  video: Blob;
+  caption: string;
+  userNote: string;
+  motionPrompt: string;
+  promptCandidates?: MotionPromptCandidate[]; // missing for memories saved before candidates existed
+  photoMetadata?: PhotoMetadata | null; // missing for memories saved before EXIF was read
+  providersUsed: Partial<Record<PipelineStage, string>>;
+}
+
+// One photo in a batch run, processed unattended through every stage
+export type BatchJobStatus =
+  | 'queued'
+  | 'preparing'
+  | 'enhancing'
+  | 'prompting'
+  | 'generating'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  statusMessage: string;
+  progress: number; // 0-100
+  error: ProcessingError | null;
+  retryable: boolean; // false for files that can never be processed
+  attempts: number;
+  // Stage results, kept so a retry continues where the job stopped
+  renditions: ImageRenditions | null;
+  photoMetadata: PhotoMetadata | null;
+  enhancedImageUrl: string | null;
+  caption: string | null;
+  motionPrompt: string;
+  videoUrl: string | null;
+  providersUsed: Partial<Record<PipelineStage, string>>;
+  savedMemoryId: string | null;
+}
+
+// One successful, billable provider call
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  account: CredentialKind;
+  model: string;
+  step: ProcessingStep;
+  durationMs: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+  videoSeconds?: number;
+  cost: number; // estimated, in US dollars, at the prices when it was recorded
+}
+
+// How long one successful stage run took, for progress and time estimates
+export interface StepTiming {
+  stage: PipelineStage;
+  providerId: string;
+  resolution: VideoResolution | null; // requested video resolution; null for other stages
+  durationMs: number;
+  timestamp: number;
 }
 
 export interface GeminiImageResponse {
   images: string[]; // base64 data URLs
   caption: string;
+  enhanced: boolean; // false when no image came back and images holds the original
 }
 
 export interface VideoGenerationJob {
@@ -43,11 +213,30 @@ export interface VideoGenerationJob {
   error?: string;
 }
 
+export type ProcessingErrorCode =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'quota_exceeded'
+  | 'rate_limited'
+  | 'billing'
+  | 'safety_blocked'
+  | 'invalid_image'
+  | 'invalid_request'
+  | 'unsupported'
+  | 'timeout'
+  | 'network'
+  | 'server_error'
+  | 'budget_exceeded'
+  | 'unknown';
+
 export interface ProcessingError {
   step: ProcessingStep;
   message: string;
-  code?: string;
+  code: ProcessingErrorCode;
+  status?: number; // HTTP status returned by the provider, if any
   retryable: boolean;
+  providerId?: string; // Provider that failed, when it ran through the registry
+  retryAfterMs?: number; // Wait the provider asked for before retrying
 }
 
 // Animation and UI types
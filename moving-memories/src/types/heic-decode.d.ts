@@ -0,0 +1,10 @@
+declare module 'heic-decode' {
+  export interface HeicPixels {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray<ArrayBuffer>; // RGBA
+  }
+
+  // Only the parts of heic-decode this app uses: the main image of the file
+  export default function decode(input: { buffer: Uint8Array }): Promise<HeicPixels>;
+}
@@ -0,0 +1,12 @@
+import 'pica';
+
+// @types/pica only knows DOM canvases; the resize worker hands pica OffscreenCanvas
+declare module 'pica' {
+  interface PicaWorkerOptions extends Omit<PicaOptions, 'createCanvas'> {
+    createCanvas(width: number, height: number): OffscreenCanvas;
+  }
+
+  interface PicaStatic {
+    new (config: PicaWorkerOptions): Pica;
+  }
+}
@@ -0,0 +1,59 @@
+// Helpers for cancelling in-flight work with AbortController
+
+/**
+ * Error thrown when an operation is cancelled by the user
+ */
+export function createAbortError(message = 'Operation cancelled'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * Whether an error comes from an aborted request or operation
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException || error instanceof Error) &&
+    error.name === 'AbortError'
+  );
+}
+
+/**
+ * Throw an AbortError if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Inside a catch block: re-throw cancellation as-is so callers can tell it
+ * apart from real failures (SDKs sometimes wrap the underlying AbortError)
+ */
+export function rethrowIfAborted(error: unknown, signal?: AbortSignal): void {
+  if (isAbortError(error)) throw error;
+  if (signal?.aborted) throw createAbortError();
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,26 @@
+import type { AppSettings } from '../types';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Whether the dark theme applies, following the system setting in auto mode
+ */
+export const isDarkTheme = (theme: AppSettings['theme']): boolean =>
+  theme === 'dark' || (theme === 'auto' && !!window.matchMedia?.(DARK_QUERY).matches);
+
+/**
+ * Apply the theme and motion preference to the document. In auto mode the
+ * theme follows system changes until the returned function is called.
+ */
+export function applyAppearance(theme: AppSettings['theme'], animationsEnabled: boolean): () => void {
+  const root = document.documentElement;
+  const update = () => root.classList.toggle('dark', isDarkTheme(theme));
+
+  update();
+  root.classList.toggle('reduce-motion', !animationsEnabled);
+
+  if (theme !== 'auto' || !window.matchMedia) return () => {};
+  const query = window.matchMedia(DARK_QUERY);
+  query.addEventListener('change', update);
+  return () => query.removeEventListener('change', update);
+}
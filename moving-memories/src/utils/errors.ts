@@ -0,0 +1,289 @@
+// Typed errors shared by every pipeline step, parsed from provider error bodies
+import type { ProcessingError, ProcessingErrorCode, ProcessingStep } from '../types';
+
+// Common error messages
+export const ERROR_MESSAGES = {
+  NO_API_KEY: 'Please provide your Gemini API key to continue',
+  INVALID_API_KEY: 'Your API key was rejected. Please check it in the API configuration',
+  INVALID_IMAGE: 'Please upload a valid image file (JPEG, PNG, WebP, HEIC, DNG, CR2 or NEF)',
+  IMAGE_TOO_LARGE: 'Image file is too large. Please use an image under 10MB',
+  NETWORK_ERROR: 'Network error. Please check your connection and try again',
+  API_ERROR: 'API error occurred. Please try again',
+  SERVER_ERROR: 'The service is having trouble right now. Please try again in a moment',
+  QUOTA_EXCEEDED: 'API quota exceeded. Please check your Gemini API usage',
+  RATE_LIMITED: 'Too many requests at once. Please wait a moment and try again',
+  BILLING: 'This account has no credit left for this model',
+  SAFETY_BLOCKED: 'This photo was blocked by the safety filters. Please try a different image',
+  UNSUPPORTED: 'This model is not available for your account or region',
+  PROCESSING_TIMEOUT: 'Processing took too long. Please try again with a different image',
+  BUDGET_EXCEEDED: 'This would go over your spending limit',
+} as const;
+
+const DEFAULT_MESSAGES: Record<ProcessingErrorCode, string> = {
+  missing_key: ERROR_MESSAGES.NO_API_KEY,
+  invalid_key: ERROR_MESSAGES.INVALID_API_KEY,
+  quota_exceeded: ERROR_MESSAGES.QUOTA_EXCEEDED,
+  rate_limited: ERROR_MESSAGES.RATE_LIMITED,
+  billing: ERROR_MESSAGES.BILLING,
+  safety_blocked: ERROR_MESSAGES.SAFETY_BLOCKED,
+  invalid_image: ERROR_MESSAGES.INVALID_IMAGE,
+  invalid_request: ERROR_MESSAGES.API_ERROR,
+  unsupported: ERROR_MESSAGES.UNSUPPORTED,
+  timeout: ERROR_MESSAGES.PROCESSING_TIMEOUT,
+  network: ERROR_MESSAGES.NETWORK_ERROR,
+  server_error: ERROR_MESSAGES.SERVER_ERROR,
+  budget_exceeded: ERROR_MESSAGES.BUDGET_EXCEEDED,
+  unknown: ERROR_MESSAGES.API_ERROR,
+};
+
+// Failures that may go away by sending the same request again. A used-up
+// daily quota (quota_exceeded) does not, so it is left to the user.
+const RETRYABLE_CODES: ProcessingErrorCode[] = [
+  'rate_limited',
+  'timeout',
+  'network',
+  'server_error',
+  'unknown',
+];
+
+interface PipelineErrorInit {
+  step: ProcessingStep;
+  code: ProcessingErrorCode;
+  message?: string;
+  status?: number;
+  retryable?: boolean;
+  providerId?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by the services and the provider chain. Carries enough
+ * structure for the UI to offer the right way out.
+ */
+export class PipelineError extends Error implements ProcessingError {
+  step: ProcessingStep;
+  code: ProcessingErrorCode;
+  status?: number;
+  retryable: boolean;
+  providerId?: string;
+  retryAfterMs?: number;
+
+  constructor(init: PipelineErrorInit) {
+    super(init.message || DEFAULT_MESSAGES[init.code], { cause: init.cause });
+    this.name = 'PipelineError';
+    this.step = init.step;
+    this.code = init.code;
+    this.status = init.status;
+    this.retryable = init.retryable ?? RETRYABLE_CODES.includes(init.code);
+    this.providerId = init.providerId;
+    this.retryAfterMs = init.retryAfterMs;
+  }
+}
+
+export const isPipelineError = (error: unknown): error is PipelineError => error instanceof PipelineError;
+
+/**
+ * Build a ProcessingError for the given step
+ */
+export const createProcessingError = (
+  step: ProcessingStep,
+  message: string,
+  retryable = true,
+  code: ProcessingErrorCode = 'unknown'
+): ProcessingError => new PipelineError({ step, code, message, retryable });
+
+// Google APIs: {"error": {"code": 429, "message": "...", "status": "RESOURCE_EXHAUSTED", "details": [...]}}
+interface GoogleErrorDetail {
+  '@type'?: string;
+  reason?: string;
+  retryDelay?: string;
+  violations?: Array<{ quotaId?: string }>;
+}
+
+interface GoogleErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: GoogleErrorDetail[];
+  };
+}
+
+// Replicate HTTP errors are problem details: {"title": "...", "detail": "...", "status": 402}
+interface ReplicateErrorBody {
+  title?: string;
+  detail?: string;
+  status?: number;
+}
+
+// Error bodies may arrive as text, sometimes after a prefix
+function parseJsonBody<T>(text: string): T | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+  try {
+    return JSON.parse(text.slice(start)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// "17s" or "1.5s" → milliseconds
+function parseDuration(value?: string): number | undefined {
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : undefined;
+}
+
+function codeFromHttpStatus(status?: number): ProcessingErrorCode {
+  if (status === undefined) return 'unknown';
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 402) return 'billing';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+function codeFromGoogleStatus(body: NonNullable<GoogleErrorBody['error']>, httpStatus?: number): ProcessingErrorCode {
+  const details = body.details ?? [];
+  if (details.some((detail) => detail.reason === 'API_KEY_INVALID')) return 'invalid_key';
+
+  switch (body.status) {
+    case 'UNAUTHENTICATED':
+    case 'PERMISSION_DENIED':
+      return 'invalid_key';
+    case 'RESOURCE_EXHAUSTED': {
+      // Daily quotas will not recover by waiting a minute; per-minute limits will
+      const daily = details.some((detail) => detail.violations?.some((v) => v.quotaId?.includes('PerDay')));
+      return daily ? 'quota_exceeded' : 'rate_limited';
+    }
+    case 'FAILED_PRECONDITION':
+      return 'unsupported';
+    case 'INVALID_ARGUMENT':
+      return 'invalid_request';
+    case 'DEADLINE_EXCEEDED':
+      return 'timeout';
+    case 'UNAVAILABLE':
+    case 'INTERNAL':
+      return 'server_error';
+    default:
+      return codeFromHttpStatus(httpStatus ?? body.code);
+  }
+}
+
+/**
+ * Parse a Google API error body (Gemini or VEO)
+ */
+export function fromGoogleErrorBody(step: ProcessingStep, body: string, httpStatus?: number): PipelineError {
+  const parsed = parseJsonBody<GoogleErrorBody>(body)?.error;
+  if (!parsed) {
+    return new PipelineError({ step, code: codeFromHttpStatus(httpStatus), status: httpStatus });
+  }
+
+  const code = codeFromGoogleStatus(parsed, httpStatus);
+  const retryInfo = parsed.details?.find((detail) => detail.retryDelay);
+  return new PipelineError({
+    step,
+    code,
+    status: httpStatus ?? parsed.code,
+    // Keep our own wording for codes the UI explains; show Google's otherwise
+    message: code === 'invalid_request' || code === 'unsupported' ? parsed.message : undefined,
+    retryAfterMs: parseDuration(retryInfo?.retryDelay),
+  });
+}
+
+/**
+ * Turn anything thrown while calling a Google API into a PipelineError.
+ * The @google/genai ApiError carries the HTTP status and the JSON body as its message.
+ */
+export function fromGoogleError(step: ProcessingStep, error: unknown): PipelineError {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (!(error instanceof Error) || isPipelineError(error) || typeof status !== 'number') {
+    return toPipelineError(step, error);
+  }
+  const parsed = fromGoogleErrorBody(step, error.message, status);
+  parsed.cause = error;
+  return parsed;
+}
+
+/**
+ * Parse a failed Replicate HTTP response
+ */
+export function fromReplicateResponse(
+  step: ProcessingStep,
+  httpStatus: number,
+  body: string,
+  retryAfterHeader?: string | null
+): PipelineError {
+  const parsed = parseJsonBody<ReplicateErrorBody>(body);
+  const code = codeFromHttpStatus(httpStatus);
+  return new PipelineError({
+    step,
+    code,
+    status: httpStatus,
+    message: code === 'invalid_request' ? parsed?.detail || parsed?.title : undefined,
+    retryAfterMs: retryAfterHeader ? parseDuration(retryAfterHeader) : undefined,
+  });
+}
+
+/**
+ * Parse the error of a failed Replicate prediction. Predictions have no
+ * status code; flagged content is reported with the E005 error code.
+ */
+export function fromReplicatePrediction(step: ProcessingStep, predictionError?: string | null): PipelineError {
+  if (predictionError && /\bE005\b|NSFW/i.test(predictionError)) {
+    return new PipelineError({ step, code: 'safety_blocked' });
+  }
+  return new PipelineError({
+    step,
+    code: 'unknown',
+    message: predictionError ? `Replicate prediction failed: ${predictionError}` : undefined,
+  });
+}
+
+/**
+ * Wrap anything thrown into a PipelineError, keeping typed errors as they are
+ */
+export function toPipelineError(step: ProcessingStep, error: unknown): PipelineError {
+  if (isPipelineError(error)) return error;
+  if (error instanceof TypeError) {
+    return new PipelineError({ step, code: 'network', cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new PipelineError({ step, code: 'unknown', message, cause: error });
+}
+
+export type RecoveryAction =
+  | 'change_key'
+  | 'retry'
+  | 'retry_later'
+  | 'different_image'
+  | 'switch_provider'
+  | 'adjust_budget';
+
+/**
+ * What the user can do about an error, most useful first
+ */
+export function getRecoveryActions(error: Pick<ProcessingError, 'code'>): RecoveryAction[] {
+  switch (error.code) {
+    case 'missing_key':
+    case 'invalid_key':
+    case 'billing':
+      return ['change_key', 'switch_provider'];
+    case 'quota_exceeded':
+    case 'rate_limited':
+      return ['retry_later', 'switch_provider'];
+    case 'safety_blocked':
+    case 'invalid_image':
+      return ['different_image'];
+    case 'invalid_request':
+      return ['retry', 'different_image'];
+    case 'unsupported':
+      return ['switch_provider'];
+    case 'budget_exceeded':
+      return ['adjust_budget', 'retry'];
+    default:
+      return ['retry', 'switch_provider'];
+  }
+}
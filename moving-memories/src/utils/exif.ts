@@ -0,0 +1,228 @@
+import type { PhotoMetadata } from '../types';
+
+// EXIF lives near the start of the file; this is plenty for the APP1 segment,
+// a RAW file's first IFDs or a HEIC photo's Exif item
+const EXIF_SEARCH_BYTES = 256 * 1024;
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+};
+
+// "Exif" in ASCII
+const EXIF_MARKER = 0x45786966;
+
+// TIFF field types used here
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+export const EMPTY_METADATA: PhotoMetadata = { capturedAt: null, camera: null, location: null, orientation: 1 };
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+/**
+ * Read date, camera, GPS position and orientation from the EXIF block of a
+ * JPEG, a TIFF-based RAW file or a HEIC photo. Anything missing or unreadable
+ * is left empty; other formats have none.
+ */
+export function parseExif(buffer: ArrayBuffer): PhotoMetadata {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4) return EMPTY_METADATA;
+  const tiff = view.getUint16(0) === 0xffd8 ? findJpegExif(view) : isTiffHeader(view, 0) ? 0 : findExifMarker(view);
+  if (tiff === null) return EMPTY_METADATA;
+
+  try {
+    return readTiff(view, tiff);
+  } catch (error) {
+    console.warn('[EXIF] Could not read photo metadata:', error);
+    return EMPTY_METADATA;
+  }
+}
+
+// Walk the JPEG segments up to the image data, looking for APP1 "Exif\0\0"
+function findJpegExif(view: DataView): number | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === EXIF_MARKER) {
+      return offset + 10;
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+// HEIC keeps EXIF as an item of its own; find its "Exif\0\0" header by scanning
+function findExifMarker(view: DataView): number | null {
+  for (let offset = 0; offset + 10 <= view.byteLength; offset++) {
+    if (view.getUint32(offset) === EXIF_MARKER && view.getUint16(offset + 4) === 0 && isTiffHeader(view, offset + 6)) {
+      return offset + 6;
+    }
+  }
+  return null;
+}
+
+function isTiffHeader(view: DataView, at: number): boolean {
+  if (at + 4 > view.byteLength) return false;
+  const order = view.getUint16(at);
+  return (order === 0x4949 || order === 0x4d4d) && view.getUint16(at + 2, order === 0x4949) === 42;
+}
+
+function readTiff(view: DataView, tiff: number): PhotoMetadata {
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const u16 = (at: number) => view.getUint16(at, littleEndian);
+  const u32 = (at: number) => view.getUint32(at, littleEndian);
+  if (u16(tiff + 2) !== 42) return EMPTY_METADATA;
+
+  const readIfd = (start: number): IfdEntries => {
+    const entries: IfdEntries = new Map();
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      entries.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 });
+    }
+    return entries;
+  };
+
+  // Values over 4 bytes are stored elsewhere, relative to the TIFF header
+  const dataOffset = (field: { valueOffset: number }, size: number) =>
+    size > 4 ? tiff + u32(field.valueOffset) : field.valueOffset;
+
+  const ascii = (entries: IfdEntries, tag: number): string | null => {
+    const field = entries.get(tag);
+    if (!field || field.type !== TYPE_ASCII) return null;
+    const start = dataOffset(field, field.count);
+    let text = '';
+    for (let i = 0; i < field.count; i++) {
+      const code = view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || null;
+  };
+
+  const integer = (entries: IfdEntries, tag: number): number | null => {
+    const field = entries.get(tag);
+    if (!field) return null;
+    if (field.type === TYPE_SHORT) return u16(field.valueOffset);
+    if (field.type === TYPE_LONG) return u32(field.valueOffset);
+    return null;
+  };
+
+  // Degrees, minutes and seconds as three rationals
+  const coordinate = (entries: IfdEntries, tag: number, refTag: number, negativeRef: string): number | null => {
+    const field = entries.get(tag);
+    if (!field || field.type !== TYPE_RATIONAL || field.count < 3) return null;
+    const start = dataOffset(field, field.count * 8);
+    const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+      const denominator = u32(start + i * 8 + 4);
+      return denominator ? u32(start + i * 8) / denominator : 0;
+    });
+    const value = degrees + minutes / 60 + seconds / 3600;
+    return ascii(entries, refTag) === negativeRef ? -value : value;
+  };
+
+  const ifd0 = readIfd(tiff + u32(tiff + 4));
+  const exifPointer = integer(ifd0, TAGS.exifIfd);
+  const gpsPointer = integer(ifd0, TAGS.gpsIfd);
+  const exif = exifPointer ? readIfd(tiff + exifPointer) : new Map();
+  const gps = gpsPointer ? readIfd(tiff + gpsPointer) : new Map();
+
+  const latitude = coordinate(gps, TAGS.gpsLatitude, TAGS.gpsLatitudeRef, 'S');
+  const longitude = coordinate(gps, TAGS.gpsLongitude, TAGS.gpsLongitudeRef, 'W');
+  const orientation = integer(ifd0, TAGS.orientation) ?? 1;
+
+  return {
+    capturedAt: parseExifDate(ascii(exif, TAGS.dateTimeOriginal) ?? ascii(ifd0, TAGS.dateTime)),
+    camera: cameraName(ascii(ifd0, TAGS.make), ascii(ifd0, TAGS.model)),
+    // 0,0 is what some apps write when they have no fix
+    location: latitude !== null && longitude !== null && (latitude !== 0 || longitude !== 0) ? { latitude, longitude } : null,
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+  };
+}
+
+// "2019:07:14 16:02:11", in the camera's local time
+function parseExifDate(value: string | null): number | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  if (year < 1800 || month < 1 || month > 12) return null;
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+// "Canon" + "Canon EOS 5D" reads as "Canon EOS 5D"
+function cameraName(make: string | null, model: string | null): string | null {
+  if (!model) return make;
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) return model;
+  return `${make} ${model}`;
+}
+
+/**
+ * Photo metadata from an uploaded file; empty when it has none
+ */
+export async function readExif(file: Blob): Promise<PhotoMetadata> {
+  try {
+    return parseExif(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+  } catch (error) {
+    console.warn('[EXIF] Could not read the file:', error);
+    return EMPTY_METADATA;
+  }
+}
+
+const SEASONS = ['winter', 'winter', 'spring', 'spring', 'spring', 'summer', 'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter'];
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(2)}°${value < 0 ? negative : positive}`;
+
+/**
+ * When and where a photo was taken, as prompt context, e.g.
+ * "winter 1994, near 43.70°N 7.27°E". Seasons flip south of the equator.
+ */
+export function describePhotoContext(metadata: PhotoMetadata | null): string | null {
+  if (!metadata) return null;
+  const parts: string[] = [];
+
+  if (metadata.capturedAt !== null) {
+    const date = new Date(metadata.capturedAt);
+    const southern = (metadata.location?.latitude ?? 0) < 0;
+    const month = southern ? (date.getMonth() + 6) % 12 : date.getMonth();
+    parts.push(`${SEASONS[month]} ${date.getFullYear()}`);
+  }
+  if (metadata.location) {
+    const { latitude, longitude } = metadata.location;
+    parts.push(`near ${formatCoordinate(latitude, 'N', 'S')} ${formatCoordinate(longitude, 'E', 'W')}`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Metadata as short labels for display, e.g. ["Taken Jul 14, 2019", "Canon EOS 5D"]
+ */
+export function describePhotoDetails(metadata: PhotoMetadata | null | undefined): string[] {
+  if (!metadata) return [];
+  const details: string[] = [];
+  if (metadata.capturedAt !== null) {
+    details.push(
+      `Taken ${new Date(metadata.capturedAt).toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' })}`
+    );
+  }
+  if (metadata.camera) details.push(metadata.camera);
+  if (metadata.location) {
+    const { latitude, longitude } = metadata.location;
+    details.push(`${formatCoordinate(latitude, 'N', 'S')} ${formatCoordinate(longitude, 'E', 'W')}`);
+  }
+  return details;
+}
@@ -0,0 +1,177 @@
+import type { VideoAspectRatio } from '../services/providers/types';
+import type { CropRect } from '../types';
+
+// Shapes offered on the Frame step, most common first
+export const FRAME_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16', '1:1', '4:3'];
+
+export interface FocusPoint {
+  x: number; // 0-1, left to right
+  y: number; // 0-1, top to bottom
+}
+
+export const CENTER: FocusPoint = { x: 0.5, y: 0.5 };
+
+// Pixels per side sampled when looking for the subject
+const FOCUS_SAMPLE_SIZE = 64;
+// How far the focus point may pull the crop off center, 0-1
+const FOCUS_STRENGTH = 0.7;
+
+/**
+ * Width over height, e.g. 16/9 for '16:9'
+ */
+export function aspectValue(ratio: VideoAspectRatio): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+/**
+ * The ratio closest to a photo's own shape; on a tie the earlier one wins
+ */
+export function closestAspectRatio(width: number, height: number, ratios: VideoAspectRatio[]): VideoAspectRatio {
+  const shape = Math.log(width / height);
+  let best = ratios[0];
+  for (const ratio of ratios) {
+    if (Math.abs(Math.log(aspectValue(ratio)) - shape) < Math.abs(Math.log(aspectValue(best)) - shape)) best = ratio;
+  }
+  return best;
+}
+
+/**
+ * Where the detail in an image is concentrated, as a stand-in for the subject:
+ * the centroid of local contrast, pulled part of the way back to the center.
+ */
+export function focusPointFromPixels(pixels: Uint8ClampedArray, width: number, height: number): FocusPoint {
+  const luma = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  };
+
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const here = luma(x, y);
+      const edge = Math.abs(luma(x + 1, y) - here) + Math.abs(luma(x, y + 1) - here);
+      // Squared so strong edges outweigh noise and gradients
+      const weight = edge * edge;
+      total += weight;
+      sumX += weight * ((x + 0.5) / width);
+      sumY += weight * ((y + 0.5) / height);
+    }
+  }
+  if (total === 0) return CENTER;
+
+  return {
+    x: 0.5 + (sumX / total - 0.5) * FOCUS_STRENGTH,
+    y: 0.5 + (sumY / total - 0.5) * FOCUS_STRENGTH,
+  };
+}
+
+/**
+ * The largest crop of the given shape, shrunk by zoom (1 or more), centered
+ * on the focus point as far as the photo's edges allow
+ */
+export function cropForAspect(
+  width: number,
+  height: number,
+  aspect: number,
+  focus: FocusPoint = CENTER,
+  zoom = 1
+): CropRect {
+  let cropWidth = width / height > aspect ? height * aspect : width;
+  let cropHeight = cropWidth / aspect;
+  cropWidth /= Math.max(1, zoom);
+  cropHeight /= Math.max(1, zoom);
+
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+  const x = clamp(focus.x * width - cropWidth / 2, width - cropWidth);
+  const y = clamp(focus.y * height - cropHeight / 2, height - cropHeight);
+  return { x: x / width, y: y / height, width: cropWidth / width, height: cropHeight / height };
+}
+
+function loadImage(imageUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = imageUrl;
+  });
+}
+
+/**
+ * Natural size of an image
+ */
+export async function getImageSize(imageUrl: string): Promise<{ width: number; height: number }> {
+  const img = await loadImage(imageUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+}
+
+/**
+ * Look at a small copy of the image to find its subject. Falls back to the
+ * center when the image cannot be read.
+ */
+export async function findFocusPoint(imageUrl: string): Promise<FocusPoint> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return CENTER;
+  canvas.width = FOCUS_SAMPLE_SIZE;
+  canvas.height = FOCUS_SAMPLE_SIZE;
+
+  try {
+    ctx.drawImage(await loadImage(imageUrl), 0, 0, FOCUS_SAMPLE_SIZE, FOCUS_SAMPLE_SIZE);
+    return focusPointFromPixels(
+      ctx.getImageData(0, 0, FOCUS_SAMPLE_SIZE, FOCUS_SAMPLE_SIZE).data,
+      FOCUS_SAMPLE_SIZE,
+      FOCUS_SAMPLE_SIZE
+    );
+  } catch (error) {
+    console.warn('[Framing] Could not find the subject:', error);
+    return CENTER;
+  }
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  return { canvas, ctx };
+}
+
+/**
+ * The cropped part of an image as a JPEG data URL, at full resolution
+ */
+export async function renderCrop(imageUrl: string, crop: CropRect, quality = 0.9): Promise<string> {
+  const img = await loadImage(imageUrl);
+  const sx = crop.x * img.naturalWidth;
+  const sy = crop.y * img.naturalHeight;
+  const sw = crop.width * img.naturalWidth;
+  const sh = crop.height * img.naturalHeight;
+  const { canvas, ctx } = createCanvas(sw, sh);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * The whole image centered on a canvas of the given shape, the space around it
+ * filled with a blurred, enlarged copy as a placeholder for the image model to
+ * paint over
+ */
+export async function renderExtendCanvas(imageUrl: string, aspect: number, quality = 0.9): Promise<string> {
+  const img = await loadImage(imageUrl);
+  const { naturalWidth: width, naturalHeight: height } = img;
+  const canvasWidth = width / height > aspect ? width : height * aspect;
+  const canvasHeight = canvasWidth / aspect;
+  const { canvas, ctx } = createCanvas(canvasWidth, canvasHeight);
+
+  // Cover the canvas with the blurred copy, then the photo on top
+  const cover = Math.max(canvas.width / width, canvas.height / height);
+  ctx.filter = 'blur(24px)';
+  ctx.drawImage(img, (canvas.width - width * cover) / 2, (canvas.height - height * cover) / 2, width * cover, height * cover);
+  ctx.filter = 'none';
+  ctx.drawImage(img, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
@@ -0,0 +1,197 @@
+// Turning HEIC/HEIF photos and camera RAW files into JPEGs the rest of the
+// pipeline can resize. Runs in the decode worker, so no DOM access here.
+import type { HeicPixels } from 'heic-decode';
+
+export type DecodeKind = 'heic' | 'raw';
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const HEIC_EXTENSIONS = ['heic', 'heif'];
+const RAW_TYPES = ['image/x-adobe-dng', 'image/dng', 'image/x-canon-cr2', 'image/x-nikon-nef'];
+const RAW_EXTENSIONS = ['dng', 'cr2', 'nef'];
+
+// Baseline, extended and progressive JPEG; lossless ones (raw sensor data) browsers cannot show
+const DISPLAYABLE_SOF_MARKERS = [0xc0, 0xc1, 0xc2];
+
+const TAGS = {
+  compression: 0x0103,
+  stripOffsets: 0x0111,
+  orientation: 0x0112,
+  stripByteCounts: 0x0117,
+  subIfds: 0x014a,
+  jpegOffset: 0x0201,
+  jpegLength: 0x0202,
+};
+
+/**
+ * Whether a file needs decoding before it can be resized, and how. Browsers
+ * often leave the type empty for these, so the extension counts too.
+ */
+export function getDecodeKind(file: { name: string; type: string }): DecodeKind | null {
+  const type = file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (HEIC_TYPES.includes(type) || HEIC_EXTENSIONS.includes(extension)) return 'heic';
+  if (RAW_TYPES.includes(type) || RAW_EXTENSIONS.includes(extension)) return 'raw';
+  return null;
+}
+
+export interface RawPreview {
+  jpeg: ArrayBuffer;
+  orientation: number; // EXIF orientation of the RAW; the preview itself has none
+}
+
+/**
+ * The largest displayable JPEG preview embedded in a TIFF-based RAW file
+ * (DNG, CR2, NEF), or null when there is none
+ */
+export function extractRawPreview(buffer: ArrayBuffer): RawPreview | null {
+  const view = new DataView(buffer);
+  if (view.byteLength < 8) return null;
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  const u16 = (at: number) => view.getUint16(at, littleEndian);
+  const u32 = (at: number) => view.getUint32(at, littleEndian);
+  if (u16(2) !== 42) return null;
+
+  const candidates: Array<{ offset: number; length: number }> = [];
+  const visited = new Set<number>();
+  let orientation = 1;
+
+  // All values of a SHORT or LONG field, inline or at their offset
+  const values = (entry: number): number[] => {
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    const size = type === 3 ? 2 : 4;
+    if ((type !== 3 && type !== 4) || count > 64) return [];
+    const start = count * size > 4 ? u32(entry + 8) : entry + 8;
+    return Array.from({ length: count }, (_, i) => (size === 2 ? u16(start + i * 2) : u32(start + i * 4)));
+  };
+
+  const walk = (ifd: number, depth: number) => {
+    // Guard against loops and runaway chains in malformed files
+    if (!ifd || depth > 4 || visited.has(ifd) || ifd + 2 > view.byteLength) return;
+    visited.add(ifd);
+
+    const fields = new Map<number, number[]>();
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      fields.set(u16(entry), values(entry));
+    }
+
+    const jpegOffset = fields.get(TAGS.jpegOffset)?.[0];
+    const jpegLength = fields.get(TAGS.jpegLength)?.[0];
+    if (jpegOffset && jpegLength) candidates.push({ offset: jpegOffset, length: jpegLength });
+
+    // A single strip of old- or new-style JPEG (CR2 and DNG previews)
+    const compression = fields.get(TAGS.compression)?.[0];
+    const strips = fields.get(TAGS.stripOffsets) ?? [];
+    const stripLengths = fields.get(TAGS.stripByteCounts) ?? [];
+    if ((compression === 6 || compression === 7) && strips.length === 1 && stripLengths.length === 1) {
+      candidates.push({ offset: strips[0], length: stripLengths[0] });
+    }
+
+    if (depth === 0) orientation = fields.get(TAGS.orientation)?.[0] ?? 1;
+    for (const subIfd of fields.get(TAGS.subIfds) ?? []) walk(subIfd, depth + 1);
+
+    const next = ifd + 2 + count * 12;
+    if (next + 4 <= view.byteLength) walk(u32(next), depth);
+  };
+
+  try {
+    walk(u32(4), 0);
+  } catch (error) {
+    // Read past the end: use whatever was found before
+    console.warn('[RAW] Could not read the whole file:', error);
+  }
+
+  const best = candidates
+    .filter(({ offset, length }) => offset + length <= view.byteLength && isDisplayableJpeg(view, offset, length))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!best) return null;
+
+  return {
+    jpeg: buffer.slice(best.offset, best.offset + best.length),
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+  };
+}
+
+// Walk the JPEG markers to its frame header and check the coding
+function isDisplayableJpeg(view: DataView, start: number, length: number): boolean {
+  const end = start + length;
+  if (length < 4 || view.getUint16(start) !== 0xffd8) return false;
+  let offset = start + 2;
+  while (offset + 4 <= end && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return DISPLAYABLE_SOF_MARKERS.includes(marker);
+    }
+    if (marker === 0xda) return false;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return false;
+}
+
+/**
+ * Draw the image upright on a canvas and encode it as JPEG. Orientation is
+ * the EXIF value to undo, for previews that do not carry it themselves.
+ */
+async function encodeJpeg(source: Blob | ImageData, quality: number, orientation = 1): Promise<Blob> {
+  if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    throw new Error('This browser cannot decode images off the page');
+  }
+
+  const bitmap = await createImageBitmap(source, { imageOrientation: orientation === 1 ? 'from-image' : 'none' });
+  try {
+    const { width, height } = bitmap;
+    const sideways = orientation >= 5;
+    const canvas = new OffscreenCanvas(sideways ? height : width, sideways ? width : height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    const transforms: Record<number, [number, number, number, number, number, number]> = {
+      2: [-1, 0, 0, 1, width, 0],
+      3: [-1, 0, 0, -1, width, height],
+      4: [1, 0, 0, -1, 0, height],
+      5: [0, 1, 1, 0, 0, 0],
+      6: [0, 1, -1, 0, height, 0],
+      7: [0, -1, -1, 0, height, width],
+      8: [0, -1, 1, 0, 0, width],
+    };
+    // JPEG has no transparency; HEIC photos can have an alpha plane
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (transforms[orientation]) ctx.transform(...transforms[orientation]);
+    ctx.drawImage(bitmap, 0, 0);
+    return await canvas.convertToBlob({ type: 'image/jpeg', quality });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * RGBA pixels of the main image in a HEIC/HEIF file. Decoded with libheif
+ * compiled to WebAssembly, so it works in every browser; libheif also applies
+ * the rotation and mirroring stored in the file.
+ */
+export async function decodeHeicPixels(buffer: ArrayBuffer): Promise<HeicPixels> {
+  // Loaded on first use: the decoder is about 2 MB
+  const { default: decodeHeic } = await import('heic-decode');
+  return decodeHeic({ buffer: new Uint8Array(buffer) });
+}
+
+/**
+ * A JPEG version of a HEIC photo or of a RAW file's embedded preview
+ */
+export async function decodeToJpeg(file: Blob, kind: DecodeKind, quality: number): Promise<Blob> {
+  if (kind === 'heic') {
+    const { width, height, data } = await decodeHeicPixels(await file.arrayBuffer());
+    return encodeJpeg(new ImageData(data, width, height), quality);
+  }
+
+  const preview = extractRawPreview(await file.arrayBuffer());
+  if (!preview) throw new Error('No preview image was found in the RAW file');
+  const jpeg = new Blob([preview.jpeg], { type: 'image/jpeg' });
+  // Already upright: keep the camera's own encoding
+  return preview.orientation === 1 ? jpeg : encodeJpeg(jpeg, quality, preview.orientation);
+}
@@ -1,56 +1,125 @@
-import imageCompression from 'browser-image-compression';
+import { PipelineError } from './errors';
+import { readExif } from './exif';
+import { getDecodeKind } from './imageDecoding';
+import { ANALYSIS_MAX_SIZE } from './imageResizing';
+import type { RenditionKind } from './imageResizing';
+import { imageDecoder } from '../services/imageDecoder';
+import { imageResizer } from '../services/imageResizer';
+import type { ImageRenditions, PhotoMetadata } from '../types';
 
 export interface ImageProcessingOptions {
-  maxSizeMB: number;
-  maxWidthOrHeight: number;
-  useWebWorker: boolean;
-  fileType?: string;
-  quality?: number;
+  maxWidthOrHeight: number; // the copy sent for enhancement
+  videoMaxWidthOrHeight: number; // the copy sent to the video providers
+  quality: number;
 }
 
 export const DEFAULT_PROCESSING_OPTIONS: ImageProcessingOptions = {
-  maxSizeMB: 4,
   maxWidthOrHeight: 1024,
-  useWebWorker: true,
-  fileType: 'image/jpeg',
+  videoMaxWidthOrHeight: 1024,
   quality: 0.9,
 };
 
+async function renderImageRenditions(
+  image: Blob,
+  options: Partial<ImageProcessingOptions>
+): Promise<{ blobs: Record<RenditionKind, Blob>; renditions: ImageRenditions }> {
+  const { maxWidthOrHeight, videoMaxWidthOrHeight, quality } = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
+  const blobs = await imageResizer.createRenditions(
+    image,
+    { analysis: ANALYSIS_MAX_SIZE, enhance: maxWidthOrHeight, video: videoMaxWidthOrHeight },
+    quality
+  );
+  // Copies of the same size share one blob, so they are read once
+  const urls = new Map<Blob, Promise<string>>();
+  const toDataUrl = (blob: Blob) => {
+    if (!urls.has(blob)) urls.set(blob, fileToDataUrl(blob));
+    return urls.get(blob)!;
+  };
+  const [analysis, enhance, video] = await Promise.all([blobs.analysis, blobs.enhance, blobs.video].map(toDataUrl));
+  return { blobs, renditions: { analysis, enhance, video } };
+}
+
 /**
- * Processes and resizes an image to meet Gemini API requirements
- * Resizes to max 1024px and converts to JPEG format
+ * Processes an upload into the copies the providers get: a small one for
+ * analysis, one at options.maxWidthOrHeight (1024px by default) for
+ * enhancement and one at options.videoMaxWidthOrHeight for video, all JPEG and
+ * resized with a Lanczos filter in a worker. HEIC photos and RAW files are
+ * decoded to JPEG first, also in a worker. The file itself is left untouched.
+ * The copies are upright and carry no EXIF, so the metadata is returned alongside.
  */
 export async function processImageForGemini(
   file: File, 
   options: Partial<ImageProcessingOptions> = {}
-): Promise<{ processedFile: File; dataUrl: string; base64: string }> {
-  const opts = { ...DEFAULT_PROCESSING_OPTIONS, ...options };
-  
+): Promise<{ processedFile: File; dataUrl: string; base64: string; metadata: PhotoMetadata; renditions: ImageRenditions }> {
+  // Read from the original: decoded files come back upright and without EXIF
+  const metadata = await readExif(file);
+  const decoded = await imageDecoder.decode(file);
+
   try {
-    // Compress and resize the image
-    const compressedFile = await imageCompression(file, opts);
-    
-    // Convert to data URL for preview
-    const dataUrl = await fileToDataUrl(compressedFile);
-    
-    // Extract base64 for API calls
-    const base64 = dataUrl.split(',')[1];
+    const { blobs, renditions } = await renderImageRenditions(decoded, options);
+    const name = `${file.name.replace(/\.[^.]+$/, '')}.jpg`;
     
     return {
-      processedFile: compressedFile,
-      dataUrl,
-      base64,
+      processedFile: new File([blobs.enhance], name, { type: 'image/jpeg', lastModified: file.lastModified }),
+      dataUrl: renditions.enhance,
+      base64: renditions.enhance.split(',')[1],
+      metadata,
+      renditions,
     };
   } catch (error) {
     console.error('Image processing failed:', error);
-    throw new Error('Failed to process image. Please try a different image.');
+    throw new PipelineError({
+      step: 'upload',
+      code: 'invalid_image',
+      message: 'Failed to process image. Please try a different image.',
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Renditions of an image that is already upright, such as a framed photo
+ */
+export async function createImageRenditions(
+  imageUrl: string,
+  options: Partial<ImageProcessingOptions> = {}
+): Promise<ImageRenditions> {
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`Failed to load image (${response.status})`);
+  return (await renderImageRenditions(await response.blob(), options)).renditions;
+}
+
+/**
+ * The copy of an image to send for analysis or video. The working copy
+ * (the enhancement copy when the original is kept or came back unchanged)
+ * is swapped for its rendition; a generated image exists in one size only.
+ */
+export function imageForUse(
+  imageUrl: string | null,
+  renditions: ImageRenditions | null,
+  use: 'analysis' | 'video'
+): string | null {
+  if (!imageUrl || !renditions || imageUrl !== renditions.enhance) return imageUrl;
+  return renditions[use];
+}
+
+/**
+ * Short fingerprint of an image URL, to recognise the same image later
+ * without keeping it (FNV-1a over the URL)
+ */
+export function imageFingerprint(url: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return `${url.length.toString(36)}-${(hash >>> 0).toString(36)}`;
 }
 
 /**
- * Converts a File to a data URL
+ * Converts a File (or any Blob) to a data URL
  */
-export function fileToDataUrl(file: File): Promise<string> {
+export function fileToDataUrl(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -73,24 +142,43 @@ export async function fileToBase64(file: File): Promise<string> {
   return dataUrl.split(',')[1] || '';
 }
 
+/**
+ * Splits a base64 data URL into its mime type and payload
+ */
+export function parseDataUrl(dataUrl: string): { mimeType: string; base64: string } {
+  const mimeType = dataUrl.match(/^data:([^;]+);base64,/i)?.[1] || 'image/jpeg';
+  const base64 = dataUrl.split(',')[1] || '';
+  return { mimeType, base64 };
+}
+
+const MAX_RAW_FILE_SIZE = 100 * 1024 * 1024;
+
+// File picker filter: every image type plus RAW files browsers do not list as images
+export const ACCEPTED_IMAGE_TYPES = 'image/*,.heic,.heif,.dng,.cr2,.nef';
+
 /**
  * Validates if a file is a supported image format
  */
 export function validateImageFile(file: File): { isValid: boolean; error?: string } {
   const supportedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-  const maxSize = 10 * 1024 * 1024; // 10MB
+  const decodeKind = getDecodeKind(file);
+  // Only the embedded preview of a RAW file is used, so larger files are fine
+  const maxSize = decodeKind === 'raw' ? MAX_RAW_FILE_SIZE : 10 * 1024 * 1024; // 10MB
   
-  if (!supportedTypes.includes(file.type)) {
+  if (!supportedTypes.includes(file.type) && !decodeKind) {
     return {
       isValid: false,
-      error: 'Unsupported file type. Please use JPEG, PNG, or WebP images.',
+      error: 'Unsupported file type. Please use JPEG, PNG, WebP or HEIC photos, or DNG, CR2 or NEF RAW files.',
     };
   }
   
   if (file.size > maxSize) {
     return {
       isValid: false,
-      error: 'File is too large. Please use an image under 10MB.',
+      error:
+        decodeKind === 'raw'
+          ? 'RAW file is too large. Please use a file under 100MB.'
+          : 'File is too large. Please use an image under 10MB.',
     };
   }
   
@@ -136,6 +224,69 @@ export function createImageCanvas(
   return { canvas, ctx };
 }
 
+export type PhotoTone = 'color' | 'greyscale' | 'sepia';
+
+// Pixels per side sampled when judging a photo's tone
+const TONE_SAMPLE_SIZE = 64;
+
+/**
+ * Whether RGBA pixels look black-and-white, sepia-toned or in full color.
+ * Greyscale pixels carry (almost) no color; sepia ones are weakly colored and
+ * share a narrow warm hue band (red >= green >= blue, 10-55 degrees).
+ */
+export function classifyPhotoTone(pixels: Uint8ClampedArray): PhotoTone {
+  const count = pixels.length / 4;
+  if (count === 0) return 'color';
+
+  let chromaSum = 0;
+  let warm = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i];
+    const g = pixels[i + 1];
+    const b = pixels[i + 2];
+    const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+    chromaSum += chroma;
+
+    // Near-neutral pixels fit either tone
+    const hue = r >= g && g >= b && chroma > 0 ? (60 * (g - b)) / chroma : -1;
+    if (chroma < 12 || (hue >= 10 && hue <= 55)) warm++;
+  }
+
+  const meanChroma = chromaSum / count;
+  if (meanChroma < 8) return 'greyscale';
+  if (meanChroma < 60 && warm / count >= 0.9) return 'sepia';
+  return 'color';
+}
+
+/**
+ * Look at a small copy of the image to tell whether it is an old
+ * black-and-white or sepia photo. Falls back to 'color' when the image
+ * cannot be read.
+ */
+export function detectPhotoTone(imageUrl: string): Promise<PhotoTone> {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return Promise.resolve('color');
+  canvas.width = TONE_SAMPLE_SIZE;
+  canvas.height = TONE_SAMPLE_SIZE;
+
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        ctx.drawImage(img, 0, 0, TONE_SAMPLE_SIZE, TONE_SAMPLE_SIZE);
+        resolve(classifyPhotoTone(ctx.getImageData(0, 0, TONE_SAMPLE_SIZE, TONE_SAMPLE_SIZE).data));
+      } catch (error) {
+        console.warn('[Image] Could not read the photo tone:', error);
+        resolve('color');
+      }
+    };
+    img.onerror = () => resolve('color');
+    img.src = imageUrl;
+  });
+}
+
 /**
  * Adds a watermark to an image
  */
@@ -0,0 +1,102 @@
+// Resizing photos into the copies each consumer gets, with pica's Lanczos
+// filter. Runs in the resize worker, so no DOM access here.
+import Pica from 'pica';
+
+export type RenditionKind = 'analysis' | 'enhance' | 'video';
+
+// Longest side of the copy used to classify the photo and write the motion prompt
+export const ANALYSIS_MAX_SIZE = 512;
+
+let pica: Pica.Pica | null = null;
+
+// Created on first use; the worker is already off the page, so pica needs no workers of its own
+function getPica(): Pica.Pica {
+  pica ??= new Pica({
+    features: ['js', 'wasm'],
+    // Workers have no DOM canvas; pica only needs the parts OffscreenCanvas shares with it
+    createCanvas: (width, height) => new OffscreenCanvas(width, height),
+  });
+  return pica;
+}
+
+/**
+ * Size of an image scaled down to fit maxSize on its longest side; images
+ * that already fit keep their size
+ */
+export function fitWithin(width: number, height: number, maxSize: number): { width: number; height: number } {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Resize RGBA pixels with a Lanczos (3-lobe) filter
+ */
+export function resizePixels(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  toWidth: number,
+  toHeight: number
+): Promise<Uint8Array> {
+  const src = pixels instanceof Uint8Array ? pixels : new Uint8Array(pixels.buffer, pixels.byteOffset, pixels.length);
+  return getPica().resizeBuffer({ src, width, height, toWidth, toHeight, filter: 'lanczos3' });
+}
+
+async function encodePixels(pixels: Uint8Array | Uint8ClampedArray, width: number, height: number, quality: number) {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.length), width, height), 0, 0);
+  return canvas.convertToBlob({ type: 'image/jpeg', quality });
+}
+
+/**
+ * JPEG copies of an image, each fitted to its own longest side. The image is
+ * turned upright from its EXIF orientation and transparency becomes white.
+ */
+export async function renderRenditions(
+  image: Blob,
+  sizes: Record<RenditionKind, number>,
+  quality: number
+): Promise<Record<RenditionKind, Blob>> {
+  if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    throw new Error('This browser cannot resize images off the page');
+  }
+
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  const { width, height } = bitmap;
+  let pixels: Uint8ClampedArray;
+  try {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, 0, 0);
+    pixels = ctx.getImageData(0, 0, width, height).data;
+  } finally {
+    bitmap.close();
+  }
+
+  // One at a time to keep memory down; copies of the same size are encoded once
+  const encoded = new Map<string, Blob>();
+  const renditions = {} as Record<RenditionKind, Blob>;
+  for (const kind of Object.keys(sizes) as RenditionKind[]) {
+    const target = fitWithin(width, height, sizes[kind]);
+    const key = `${target.width}x${target.height}`;
+    let blob = encoded.get(key);
+    if (!blob) {
+      const resized =
+        target.width === width && target.height === height
+          ? pixels
+          : await resizePixels(pixels, width, height, target.width, target.height);
+      blob = await encodePixels(resized, target.width, target.height, quality);
+      encoded.set(key, blob);
+    }
+    renditions[kind] = blob;
+  }
+  return renditions;
+}
@@ -0,0 +1,125 @@
+// Retries with jittered exponential backoff, and a client-side rate limiter
+import { rethrowIfAborted, sleep } from './abort';
+import { isPipelineError } from './errors';
+import type { PipelineError } from './errors';
+import type { ProcessingErrorCode } from '../types';
+
+// Failures worth retrying automatically. Daily quotas and bad requests are left to the user.
+const TRANSIENT_CODES: ProcessingErrorCode[] = ['rate_limited', 'server_error', 'timeout', 'network'];
+
+export const DEFAULT_BASE_DELAY_MS = 1000;
+export const DEFAULT_MAX_DELAY_MS = 30000;
+
+export interface RetryInfo {
+  attempt: number; // the retry about to run, starting at 1
+  retries: number;
+  delayMs: number;
+  error: PipelineError;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void;
+  random?: () => number;
+}
+
+/**
+ * Whether an error is likely to go away on its own
+ */
+export const isTransientError = (error: unknown): error is PipelineError =>
+  isPipelineError(error) && TRANSIENT_CODES.includes(error.code);
+
+/**
+ * Delay before the given retry (0-based). A Retry-After from the server wins;
+ * otherwise the delay doubles each time, capped, with up to half of it randomised
+ * so parallel jobs do not retry in lockstep.
+ */
+export function backoffDelay(
+  attempt: number,
+  retryAfterMs?: number,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) return Math.max(0, retryAfterMs);
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Run a task, retrying transient failures. Cancellation is never retried.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, signal, onRetry, random } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      rethrowIfAborted(error, signal);
+      if (attempt >= retries || !isTransientError(error)) throw error;
+
+      const delayMs = backoffDelay(attempt, error.retryAfterMs, baseDelayMs, maxDelayMs, random);
+      onRetry?.({ attempt: attempt + 1, retries, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Status line for a retry, e.g. "Rate limited, retrying in 4s (attempt 2 of 4)..."
+ */
+export function describeRetry({ attempt, retries, delayMs, error }: RetryInfo): string {
+  const reason =
+    error.code === 'rate_limited'
+      ? 'Rate limited'
+      : error.code === 'network'
+        ? 'Connection lost'
+        : error.code === 'timeout'
+          ? 'Request timed out'
+          : 'Service busy';
+  return `${reason}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${retries + 1})...`;
+}
+
+/**
+ * Token bucket allowing a number of requests per minute, with bursts up to that number
+ */
+export class TokenBucket {
+  readonly perMinute: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute;
+    this.tokens = perMinute;
+    this.updatedAt = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.perMinute, this.tokens + ((now - this.updatedAt) * this.perMinute) / 60000);
+    this.updatedAt = now;
+  }
+
+  /**
+   * How long until a request could be made, in milliseconds
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 60000) / this.perMinute);
+  }
+
+  /**
+   * Wait for a free slot and use it
+   */
+  async take(signal?: AbortSignal, onWait?: (delayMs: number) => void): Promise<void> {
+    for (let wait = this.waitTime(); wait > 0; wait = this.waitTime()) {
+      onWait?.(wait);
+      await sleep(wait, signal);
+    }
+    this.tokens -= 1;
+  }
+}
@@ -1,20 +1,16 @@
-// Quick utility to set the API key for testing
-export const setApiKey = (key: string) => {
-  localStorage.setItem('GEMINI_API_KEY', key);
-  localStorage.setItem('moving-memories-store', JSON.stringify({
-    state: {
-      apiKey: key,
-      userNote: ''
-    },
-    version: 0
-  }));
-  console.log('API key set successfully! Refresh the page.');
-};
+import { getStoredCredentials, saveCredentials } from '../services/providers/credentials';
 
-export const setReplicateToken = (token: string) => {
-  localStorage.setItem('REPLICATE_API_TOKEN', token);
-  console.log('Replicate token set.');
-};
+// Quick utility to set the API key for testing. Goes into the vault when it is
+// used, which has to be unlocked first.
+export const setApiKey = (key: string) =>
+  saveCredentials({ ...getStoredCredentials(), gemini: key.trim() })
+    .then(() => console.log('API key set successfully!'))
+    .catch((error) => console.error('Could not set the API key:', error));
+
+export const setReplicateToken = (token: string) =>
+  saveCredentials({ ...getStoredCredentials(), replicate: token.trim() })
+    .then(() => console.log('Replicate token set.'))
+    .catch((error) => console.error('Could not set the Replicate token:', error));
 
 // Expose to window for easy access
 if (typeof window !== 'undefined') {
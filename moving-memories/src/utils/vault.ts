@@ -0,0 +1,137 @@
+// Passphrase encryption for stored API keys (PBKDF2 + AES-GCM via WebCrypto)
+import type { CredentialKind } from '../services/providers/types';
+
+export type VaultSecrets = Partial<Record<CredentialKind, string>>;
+
+// What is kept in localStorage; binary fields are base64
+export interface VaultRecord {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Activity that counts as the user being present
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Thrown when the passphrase does not decrypt the vault
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Derive a non-extractable AES key from the passphrase
+ */
+async function deriveVaultKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt secrets with an already derived key. A fresh IV is used every time.
+ */
+async function sealSecrets(
+  key: CryptoKey,
+  secrets: VaultSecrets,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<VaultRecord> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  return {
+    version: 1,
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Encrypt secrets under a new passphrase, returning the record and the key
+ * so later changes can be saved without asking for the passphrase again
+ */
+export async function createVault(
+  passphrase: string,
+  secrets: VaultSecrets,
+  iterations = PBKDF2_ITERATIONS
+): Promise<{ record: VaultRecord; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveVaultKey(passphrase, salt, iterations);
+  return { record: await sealSecrets(key, secrets, salt, iterations), key };
+}
+
+/**
+ * Decrypt a vault. AES-GCM authenticates the data, so a wrong passphrase
+ * always fails rather than returning garbage.
+ */
+export async function openVault(
+  record: VaultRecord,
+  passphrase: string
+): Promise<{ secrets: VaultSecrets; key: CryptoKey }> {
+  const key = await deriveVaultKey(passphrase, fromBase64(record.salt), record.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return { secrets: JSON.parse(new TextDecoder().decode(plaintext)), key };
+}
+
+/**
+ * Re-encrypt changed secrets with the key of an open vault
+ */
+export const resealVault = (record: VaultRecord, key: CryptoKey, secrets: VaultSecrets): Promise<VaultRecord> =>
+  sealSecrets(key, secrets, fromBase64(record.salt), record.iterations);
+
+/**
+ * Call onIdle once there has been no user activity for the given time.
+ * Returns a function that stops watching.
+ */
+export function watchIdle(timeoutMs: number, onIdle: () => void): () => void {
+  let timer = setTimeout(onIdle, timeoutMs);
+  const reset = () => {
+    clearTimeout(timer);
+    timer = setTimeout(onIdle, timeoutMs);
+  };
+
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+  };
+}
@@ -0,0 +1,91 @@
+// Request/response plumbing between a service and the web worker it hands work to
+
+export interface WorkerRequest<P> {
+  id: number;
+  payload: P;
+}
+
+export interface WorkerResponse<R> {
+  id: number;
+  result?: R;
+  error?: string;
+}
+
+// The parts of a Worker the client uses
+type RpcWorker = Pick<Worker, 'postMessage' | 'terminate' | 'onmessage' | 'onerror'>;
+
+interface WorkerClientOptions<P, R> {
+  // Called with a literal `new URL(...)` in the service, so the bundler picks up the worker
+  createWorker: () => RpcWorker;
+  // Used where there are no workers (e.g. tests)
+  runInline: (payload: P) => Promise<R>;
+  // What the work is called in error messages, e.g. 'Decoding'
+  task: string;
+}
+
+/**
+ * Sends requests to a worker started on first use and matches the replies
+ * back to them by id
+ */
+export class WorkerClient<P, R> {
+  private worker: RpcWorker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: R) => void; reject: (error: Error) => void }>();
+  private readonly options: WorkerClientOptions<P, R>;
+
+  constructor(options: WorkerClientOptions<P, R>) {
+    this.options = options;
+  }
+
+  run(payload: P): Promise<R> {
+    const worker = this.getWorker();
+    if (!worker) return this.options.runInline(payload);
+
+    const id = ++this.nextId;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, payload } satisfies WorkerRequest<P>);
+    });
+  }
+
+  private getWorker(): RpcWorker | null {
+    if (typeof Worker === 'undefined') return null;
+    if (!this.worker) {
+      const { task } = this.options;
+      this.worker = this.options.createWorker();
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse<R>>) => {
+        const { id, result, error } = event.data;
+        const request = this.pending.get(id);
+        if (!request) return;
+        this.pending.delete(id);
+        if (result !== undefined) request.resolve(result);
+        else request.reject(new Error(error || `${task} failed`));
+      };
+      // A crashed worker fails everything in flight; the next request starts a new one
+      this.worker.onerror = (event) => {
+        for (const request of this.pending.values()) request.reject(new Error(event.message || `${task} worker failed`));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      };
+    }
+    return this.worker;
+  }
+}
+
+/**
+ * Inside a worker: answer each request with the handler's result, or the
+ * message of the error it threw
+ */
+export function serveWorkerRequests<P, R>(handle: (payload: P) => Promise<R>): void {
+  self.onmessage = async (event: MessageEvent<WorkerRequest<P>>) => {
+    const { id, payload } = event.data;
+    let response: WorkerResponse<R>;
+    try {
+      response = { id, result: await handle(payload) };
+    } catch (error) {
+      response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    self.postMessage(response);
+  };
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // "true" routes every pipeline stage to the offline mock providers
+  readonly VITE_MOCK_PROVIDERS?: string;
+  // Default key server URL, e.g. http://localhost:8787 (see server/proxy.mjs)
+  readonly VITE_PROXY_URL?: string;
+}
@@ -0,0 +1,12 @@
+// Decodes HEIC photos and RAW previews off the main thread
+import { decodeToJpeg } from '../utils/imageDecoding';
+import type { DecodeKind } from '../utils/imageDecoding';
+import { serveWorkerRequests } from '../utils/workerRpc';
+
+export interface DecodeRequest {
+  file: Blob;
+  kind: DecodeKind;
+  quality: number;
+}
+
+serveWorkerRequests<DecodeRequest, Blob>(({ file, kind, quality }) => decodeToJpeg(file, kind, quality));
@@ -0,0 +1,14 @@
+// Resizes photos into their renditions off the main thread
+import { renderRenditions } from '../utils/imageResizing';
+import type { RenditionKind } from '../utils/imageResizing';
+import { serveWorkerRequests } from '../utils/workerRpc';
+
+export interface ResizeRequest {
+  image: Blob;
+  sizes: Record<RenditionKind, number>;
+  quality: number;
+}
+
+serveWorkerRequests<ResizeRequest, Record<RenditionKind, Blob>>(({ image, sizes, quality }) =>
+  renderRenditions(image, sizes, quality)
+);
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -16,4 +17,11 @@ export default defineConfig({
       },
     },
   },
+  // Workers are started as modules, and the decode worker loads libheif on demand
+  worker: {
+    format: 'es',
+  },
+  test: {
+    environment: 'jsdom',
+  },
 })